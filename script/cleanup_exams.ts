@@ -1,47 +1,32 @@
 #!/usr/bin/env node
 /**
  * Exam File Cleanup Script
- * Deletes all exam files from Supabase database and AWS S3 bucket
+ * Deletes all exam files from Supabase database and object storage
  */
 
-import { S3Client, DeleteObjectCommand, ListObjectsV2Command } from '@aws-sdk/client-s3';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
+import { createStorage, getStorageDriver } from '../src/storage/storage.factory';
+import { StorageService } from '../src/storage/storage.service';
 
 // Load environment variables
 dotenv.config();
 
 class ExamFileCleanup {
     private supabase: SupabaseClient;
-    private s3Client: S3Client;
-    private s3Bucket: string;
-    private s3Region: string;
+    private storage: StorageService;
 
     constructor() {
         const supabaseUrl = process.env.SUPABASE_URL;
         const supabaseKey = process.env.SUPABASE_ANON_KEY;
-        const awsAccessKey = process.env.AWS_ACCESS_KEY_ID;
-        const awsSecretKey = process.env.AWS_SECRET_ACCESS_KEY;
-        this.s3Bucket = process.env.S3_BUCKET_NAME || '';
-        this.s3Region = process.env.AWS_REGION || 'us-east-1';
 
         if (!supabaseUrl || !supabaseKey) {
             throw new Error('Missing Supabase configuration');
         }
 
-        if (!awsAccessKey || !awsSecretKey || !this.s3Bucket) {
-            throw new Error('Missing AWS configuration');
-        }
-
         // Initialize clients
         this.supabase = createClient(supabaseUrl, supabaseKey);
-        this.s3Client = new S3Client({
-            region: this.s3Region,
-            credentials: {
-                accessKeyId: awsAccessKey,
-                secretAccessKey: awsSecretKey,
-            },
-        });
+        this.storage = createStorage();
     }
 
     async deleteFromSupabase(): Promise<number> {
@@ -74,71 +59,46 @@ class ExamFileCleanup {
         }
     }
 
-    async listS3Objects(prefix: string = 'exams/'): Promise<string[]> {
-        /** List all objects in S3 with the given prefix */
+    async listStorageObjects(): Promise<string[]> {
+        /** List all exam PDFs and thumbnails in storage, including legacy exams/ paths */
         try {
-            const objects: string[] = [];
-            let continuationToken: string | undefined;
-
-            do {
-                const command = new ListObjectsV2Command({
-                    Bucket: this.s3Bucket,
-                    Prefix: prefix,
-                    ContinuationToken: continuationToken,
-                });
-
-                const response = await this.s3Client.send(command);
-                
-                if (response.Contents) {
-                    objects.push(...response.Contents.map(obj => obj.Key!).filter(key => key !== undefined));
-                }
-
-                continuationToken = response.NextContinuationToken;
-            } while (continuationToken);
-
-            return objects;
+            const prefixes = ['documents/', 'thumbnails/', 'exams/'];
+            const keys = await Promise.all(prefixes.map(prefix => this.storage.listKeys(prefix)));
+            return keys.flat();
         } catch (error) {
-            console.log(`❌ S3 listing failed:`, error);
+            console.log(`❌ Storage listing failed:`, error);
             return [];
         }
     }
 
-    async deleteFromS3(): Promise<number> {
-        /** Delete all exam files from S3 */
+    async deleteFromStorage(): Promise<number> {
+        /** Delete all exam files from storage */
         try {
-            const objects = await this.listS3Objects();
+            const objects = await this.listStorageObjects();
             
             if (objects.length === 0) {
-                console.log('ℹ️  No objects found in S3 to delete');
+                console.log(`ℹ️  No objects found in ${this.storage.describe()} to delete`);
                 return 0;
             }
 
-            console.log(`📁 Found ${objects.length} objects in S3 to delete`);
+            console.log(`📁 Found ${objects.length} objects in ${this.storage.describe()} to delete`);
 
-            // Delete objects in batches of 1000 (S3 limit)
+            // Delete objects in batches of 1000
             const batchSize = 1000;
             let deletedCount = 0;
 
             for (let i = 0; i < objects.length; i += batchSize) {
                 const batch = objects.slice(i, i + batchSize);
-                
-                const deletePromises = batch.map(key => {
-                    const command = new DeleteObjectCommand({
-                        Bucket: this.s3Bucket,
-                        Key: key,
-                    });
-                    return this.s3Client.send(command);
-                });
-
-                await Promise.all(deletePromises);
+
+                await Promise.all(batch.map(key => this.storage.deleteObject(key)));
                 deletedCount += batch.length;
                 console.log(`✅ Deleted batch ${Math.floor(i / batchSize) + 1}: ${batch.length} objects`);
             }
 
-            console.log(`✅ Successfully deleted ${deletedCount} objects from S3`);
+            console.log(`✅ Successfully deleted ${deletedCount} objects from storage`);
             return deletedCount;
         } catch (error) {
-            console.log(`❌ S3 deletion failed:`, error);
+            console.log(`❌ Storage deletion failed:`, error);
             return 0;
         }
     }
@@ -151,13 +111,13 @@ class ExamFileCleanup {
         console.log('🗄️  Deleting from Supabase...');
         const supabaseDeleted = await this.deleteFromSupabase();
 
-        // Delete from S3
-        console.log('\n☁️  Deleting from S3...');
-        const s3Deleted = await this.deleteFromS3();
+        // Delete from storage
+        console.log('\n☁️  Deleting from storage...');
+        const storageDeleted = await this.deleteFromStorage();
 
         console.log('\n📊 Cleanup Summary:');
         console.log(`✅ Supabase: ${supabaseDeleted} records deleted`);
-        console.log(`✅ S3: ${s3Deleted} objects deleted`);
+        console.log(`✅ Storage: ${storageDeleted} objects deleted`);
         console.log(`\n🎉 Cleanup completed successfully!`);
     }
 }
@@ -168,13 +128,10 @@ async function main(): Promise<void> {
         const cleanup = new ExamFileCleanup();
 
         // Check required environment variables
-        const requiredVars = [
-            'SUPABASE_URL',
-            'SUPABASE_ANON_KEY',
-            'AWS_ACCESS_KEY_ID',
-            'AWS_SECRET_ACCESS_KEY',
-            'S3_BUCKET_NAME',
-        ];
+        const requiredVars = ['SUPABASE_URL', 'SUPABASE_ANON_KEY'];
+        if (getStorageDriver() === 's3') {
+            requiredVars.push('AWS_ACCESS_KEY_ID', 'AWS_SECRET_ACCESS_KEY', 'S3_BUCKET_NAME');
+        }
 
         const missingVars = requiredVars.filter(varName => !process.env[varName]);
         if (missingVars.length > 0) {
@@ -184,7 +141,7 @@ async function main(): Promise<void> {
         }
 
         // Confirm before proceeding
-        console.log('⚠️  WARNING: This will delete ALL exam files from both S3 and Supabase!');
+        console.log('⚠️  WARNING: This will delete ALL exam files from both storage and Supabase!');
         console.log('This action cannot be undone.\n');
         
         // For safety, we'll require explicit confirmation
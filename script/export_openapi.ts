@@ -0,0 +1,38 @@
+#!/usr/bin/env node
+/**
+ * OpenAPI Export Script
+ * Writes the OpenAPI document served at /openapi.json to a file, without
+ * connecting to Supabase or S3, so API clients can be generated from it
+ *
+ * Usage: npm run script:openapi -- [output path, default openapi.json]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from '../src/app.module';
+import { createOpenApiDocument } from '../src/openapi';
+
+async function main(): Promise<void> {
+    /** Main function */
+    try {
+        const outputPath = path.resolve(process.argv[2] || 'openapi.json');
+
+        // Preview mode resolves routes without instantiating providers
+        const app = await NestFactory.create(AppModule, { preview: true, logger: false });
+        const document = createOpenApiDocument(app);
+        await app.close();
+
+        fs.writeFileSync(outputPath, JSON.stringify(document, null, 2) + '\n');
+        console.log(`✅ OpenAPI document written to ${outputPath}`);
+        console.log(`📄 ${Object.keys(document.paths).length} paths`);
+    } catch (error) {
+        console.error('❌ Error:', error);
+        process.exit(1);
+    }
+}
+
+// Run the script
+if (require.main === module) {
+    main();
+}
@@ -0,0 +1,212 @@
+#!/usr/bin/env node
+/**
+ * Answer Key Extraction Script
+ * Reads the 정답표 of every *_answer.pdf, stores correct_answers/question_scores
+ * on the matching *_problem.pdf document and writes a review report for
+ * everything that could not be read with confidence
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SupabaseClient } from '@supabase/supabase-js';
+import * as dotenv from 'dotenv';
+import { getSupabaseClient } from '../src/supabase/supabase-client';
+import { SupabaseService } from '../src/supabase/supabase.service';
+import { AnswerKeysService } from '../src/answer-keys/answer-keys.service';
+import { extractAnswerKey, ExtractionIssue, hasTextLayer } from '../src/answer-keys/answer-key-extractor';
+import { readPdfTextItems } from '../src/answer-keys/pdf-text';
+import { parseExamFilename } from '../src/naming/exam-filename';
+import { ExamMetadata } from '../src/naming/naming-convention';
+
+// Load environment variables
+dotenv.config();
+
+const DEFAULT_REPORT_PATH = 'answer-key-review.json';
+
+interface ProblemDocument {
+    id: string;
+    category: string;
+    selection: string | null;
+    correct_answers: Record<string, unknown> | null;
+}
+
+type ExtractionStatus = 'saved' | 'would_save' | 'needs_review' | 'no_text_layer' | 'no_document' | 'skipped';
+
+interface ReviewEntry {
+    file: string;
+    document_id: string | null;
+    status: ExtractionStatus;
+    question_count: number;
+    issues: ExtractionIssue[];
+}
+
+class AnswerKeyExtractor {
+    private supabase: SupabaseClient;
+    private answerKeys: AnswerKeysService;
+
+    constructor(
+        private readonly dryRun: boolean,
+        private readonly overwrite: boolean,
+    ) {
+        this.supabase = getSupabaseClient();
+
+        const supabaseService = new SupabaseService();
+        supabaseService.onModuleInit();
+        this.answerKeys = new AnswerKeysService(supabaseService);
+    }
+
+    async findProblemDocument(metadata: ExamMetadata): Promise<ProblemDocument | null> {
+        /** The live problem document uploaded from the same exam, matched by metadata */
+        let query = this.supabase
+            .from('documents')
+            .select('id, category, selection, correct_answers')
+            .eq('exam_year', metadata.exam_year)
+            .eq('exam_month', metadata.exam_month)
+            .like('filename', '%_problem.pdf')
+            .is('deleted_at', null);
+
+        for (const field of ['grade_level', 'category', 'subject', 'selection', 'exam_type', 'source'] as const) {
+            const value = metadata[field];
+            if (value) {
+                // Values from macOS may be stored decomposed (see KOREAN_TEXT_NORMALIZATION.md)
+                query = query.in(field, [value.normalize('NFC'), value.normalize('NFD')]);
+            } else {
+                // Older rows store a missing selection as NULL
+                query = query.or(`${field}.is.null,${field}.eq.`);
+            }
+        }
+
+        const { data, error } = await query
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .overrideTypes<ProblemDocument[], { merge: false }>();
+
+        if (error) {
+            throw new Error(`Failed to fetch problem document: ${error.message}`);
+        }
+
+        return data[0] ?? null;
+    }
+
+    async processFile(filePath: string): Promise<ReviewEntry> {
+        /** Extract one answer PDF and store the key when it reads cleanly */
+        const file = path.basename(filePath);
+        const { metadata, errors } = parseExamFilename(file);
+        if (!metadata) {
+            console.log(`⚠️  ${file}: ${errors.join('; ')}`);
+        }
+        const document = metadata ? await this.findProblemDocument(metadata) : null;
+
+        if (document && Object.keys(document.correct_answers ?? {}).length > 0 && !this.overwrite) {
+            console.log(`⏭️  Skipping ${file}: the document already has an answer key`);
+            return { file, document_id: document.id, status: 'skipped', question_count: 0, issues: [] };
+        }
+
+        const items = await readPdfTextItems(fs.readFileSync(filePath));
+        const { key, issues } = extractAnswerKey(items, {
+            category: document?.category ?? metadata?.category ?? '',
+            selection: (document ? document.selection : metadata?.selection) || undefined,
+        });
+        const entry: ReviewEntry = {
+            file,
+            document_id: document?.id ?? null,
+            status: 'needs_review',
+            question_count: Object.keys(key.correct_answers).length,
+            issues,
+        };
+
+        // Scanned 정답표 have nothing to read; the report lists them for entry by hand
+        if (!hasTextLayer(items)) {
+            console.log(`🖼️  ${file}: no text layer (scanned PDF), enter the key with PUT /documents/{id}/answer-key`);
+            return { ...entry, status: 'no_text_layer' };
+        }
+
+        if (!document) {
+            console.log(`⚠️  No problem document for ${file}`);
+            return { ...entry, status: 'no_document' };
+        }
+
+        if (issues.length > 0) {
+            console.log(`🔎 ${file}: ${issues.length} issue(s) to review`);
+            return entry;
+        }
+
+        if (this.dryRun) {
+            console.log(`🔎 Would save ${entry.question_count} answers for ${file}`);
+            return { ...entry, status: 'would_save' };
+        }
+
+        await this.answerKeys.replaceAnswerKey(document.id, key, `Extracted from ${file}`);
+        console.log(`✅ Saved ${entry.question_count} answers for ${file}`);
+        return { ...entry, status: 'saved' };
+    }
+
+    async extractAll(inputs: string[], reportPath: string): Promise<void> {
+        /** Process every answer PDF among the given files and directories */
+        const files = inputs.flatMap(input =>
+            fs.statSync(input).isDirectory()
+                ? fs.readdirSync(input).map(file => path.join(input, file))
+                : [input],
+        ).filter(file => file.endsWith('_answer.pdf'));
+
+        if (files.length === 0) {
+            console.log(`❌ No *_answer.pdf files found in ${inputs.join(', ')}`);
+            return;
+        }
+
+        console.log(`📁 Found ${files.length} answer PDFs`);
+
+        const entries: ReviewEntry[] = [];
+        for (const filePath of files) {
+            try {
+                entries.push(await this.processFile(filePath));
+            } catch (error) {
+                console.log(`❌ Failed to process ${path.basename(filePath)}:`, error);
+                entries.push({
+                    file: path.basename(filePath),
+                    document_id: null,
+                    status: 'needs_review',
+                    question_count: 0,
+                    issues: [{ message: error instanceof Error ? error.message : String(error) }],
+                });
+            }
+        }
+
+        const reviewStatuses: ExtractionStatus[] = ['needs_review', 'no_text_layer', 'no_document'];
+        const review = entries.filter(entry => reviewStatuses.includes(entry.status));
+        fs.writeFileSync(
+            reportPath,
+            JSON.stringify({ generated_at: new Date().toISOString(), entries: review }, null, 2),
+        );
+
+        const count = (status: ExtractionStatus) => entries.filter(entry => entry.status === status).length;
+        console.log(`\n📊 Extraction Summary:`);
+        console.log(`✅ ${this.dryRun ? 'Would save' : 'Saved'}: ${count(this.dryRun ? 'would_save' : 'saved')}/${entries.length}`);
+        console.log(`⏭️  Skipped (already has a key): ${count('skipped')}`);
+        console.log(`🖼️  No text layer (enter by hand): ${count('no_text_layer')}`);
+        console.log(`🔎 Needs review: ${review.length} (see ${reportPath})`);
+    }
+}
+
+async function main(): Promise<void> {
+    /** Main function */
+    try {
+        const args = process.argv.slice(2);
+        const reportArg = args.find(arg => arg.startsWith('--report='));
+        const inputs = args.filter(arg => !arg.startsWith('--'));
+
+        const extractor = new AnswerKeyExtractor(args.includes('--dry-run'), args.includes('--overwrite'));
+        await extractor.extractAll(
+            inputs.length > 0 ? inputs : ['script/data'],
+            reportArg ? reportArg.slice('--report='.length) : DEFAULT_REPORT_PATH,
+        );
+    } catch (error) {
+        console.error('❌ Error:', error);
+        process.exit(1);
+    }
+}
+
+// Run the script
+if (require.main === module) {
+    main();
+}
@@ -6,6 +6,7 @@
 
 import * as dotenv from 'dotenv';
 import { getSupabaseClient } from '../src/supabase/supabase-client';
+import { categoryOfSubject } from '../src/taxonomy/taxonomy';
 
 // Load environment variables
 dotenv.config();
@@ -73,43 +74,11 @@ class DatabaseEncodingFixer {
     }
 
     /**
-     * Get correct category based on subject
-     * Using exact malformed subject values from the database
+     * Get correct category based on subject, from the taxonomy
      */
     private getCorrectCategory(subject: string): string {
         if (!subject) return '';
-        
-        // Direct mapping using exact malformed subject values from database
-        const subjectToCategory: { [key: string]: string } = {
-            // Science subjects (length 7-14)
-            '물리학 I': '과학탐구',
-            '물리학 II': '과학탐구',
-            '화학 I': '과학탐구',
-            '화학 II': '과학탐구',
-            '생명과학 I': '과학탐구',
-            '생명과학 II': '과학탐구',
-            '지구과학 I': '과학탐구',
-            '지구과학 II': '과학탐구',
-            
-            // Social studies subjects (length 6-14)
-            '한국지리': '사회탐구',
-            '세계지리': '사회탐구',
-            '세계사': '사회탐구',
-            '동아시아사': '사회탐구',
-            '경제': '사회탐구',
-            '정치와 법': '사회탐구',
-            '사회·문화': '사회탐구',
-            '생활과 윤리': '사회탐구',
-            '윤리와 사상': '사회탐구',
-            
-            // Other subjects (length 5-8)
-            '국어': '국어',
-            '수학': '수학',
-            '영어': '영어',
-            '한국사': '한국사'
-        };
-        
-        return subjectToCategory[subject] || '';
+        return categoryOfSubject(subject.normalize('NFC')) ?? '';
     }
 
     async fixCategoryEncoding(): Promise<void> {
@@ -0,0 +1,66 @@
+#!/usr/bin/env node
+/**
+ * Score Table Import Script
+ * Stores the 등급컷 / 표준점수 table of an exam set from a CSV or JSON file,
+ * with the same checks as PUT /exam-sets/:id/score-conversion
+ *
+ * Usage: npm run script:score-tables -- <exam set id> <file.csv|file.json> [--official] [--source=<text>]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as dotenv from 'dotenv';
+import { SupabaseService } from '../src/supabase/supabase.service';
+import { DocumentsService } from '../src/documents/documents.service';
+import { ExamSetsService } from '../src/exam-sets/exam-sets.service';
+import { ScoreConversionService } from '../src/score-conversion/score-conversion.service';
+import { parseScoreTableCsv, parseScoreTableJson } from '../src/score-conversion/score-table-import';
+import { DomainError } from '../src/common/errors';
+
+// Load environment variables
+dotenv.config();
+
+async function main(): Promise<void> {
+    /** Main function */
+    try {
+        const args = process.argv.slice(2);
+        const [examSetId, filePath] = args.filter(arg => !arg.startsWith('--'));
+        const sourceArg = args.find(arg => arg.startsWith('--source='));
+
+        if (!examSetId || !filePath) {
+            console.log('Usage: npm run script:score-tables -- <exam set id> <file.csv|file.json> [--official] [--source=<text>]');
+            process.exit(1);
+        }
+
+        const text = fs.readFileSync(filePath, 'utf8');
+        const input = path.extname(filePath).toLowerCase() === '.json'
+            ? parseScoreTableJson(text)
+            : parseScoreTableCsv(text, args.includes('--official') ? 'official' : 'estimated');
+        if (sourceArg) {
+            input.source = sourceArg.slice('--source='.length);
+        }
+
+        const supabaseService = new SupabaseService();
+        supabaseService.onModuleInit();
+        const scoreConversion = new ScoreConversionService(
+            supabaseService,
+            new ExamSetsService(new DocumentsService(supabaseService)),
+        );
+
+        const table = await scoreConversion.replaceTable(examSetId, input);
+        console.log(`✅ Imported ${table.kind} table for ${examSetId}`);
+        console.log(`📊 ${table.grade_cuts.length} grade cuts, ${table.score_table.length} score rows`);
+    } catch (error) {
+        if (error instanceof DomainError) {
+            console.error(`❌ ${error.message}`, error.details ?? '');
+        } else {
+            console.error('❌ Error:', error);
+        }
+        process.exit(1);
+    }
+}
+
+// Run the script
+if (require.main === module) {
+    main();
+}
@@ -0,0 +1,324 @@
+#!/usr/bin/env node
+/**
+ * Exam Ingestion Script
+ * Adds the PDFs of a directory to storage and the documents table. Files
+ * are identified by content hash, so re-running skips what is already
+ * ingested, and a JSON manifest records every result so an interrupted run
+ * can be resumed
+ *
+ * Usage: npm run script:ingest -- [directory] [--dry-run] [--resume] [--concurrency=<n>] [--manifest=<file>]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SupabaseClient } from '@supabase/supabase-js';
+import * as dotenv from 'dotenv';
+import { getSupabaseClient } from '../src/supabase/supabase-client';
+import { createStorage } from '../src/storage/storage.factory';
+import { documentKey } from '../src/storage/storage-keys';
+import { StorageService } from '../src/storage/storage.service';
+import { documentTitle } from '../src/naming/naming-convention';
+import { formatExamFilename } from '../src/naming/exam-filename';
+import {
+    contentHash,
+    IngestedDocument,
+    IngestFile,
+    IngestPlanItem,
+    planIngestion,
+} from '../src/ingestion/ingestion-plan';
+
+// Load environment variables
+dotenv.config();
+
+const DEFAULT_DATA_DIR = 'script/data';
+const DEFAULT_MANIFEST_PATH = 'ingest-manifest.json';
+const DEFAULT_CONCURRENCY = 4;
+/** Rows per documents request; PostgREST's default max-rows is 1000 */
+const DOCUMENT_BATCH_SIZE = 1000;
+
+type IngestStatus = 'done' | 'failed';
+
+interface ManifestEntry extends IngestPlanItem {
+    status: IngestStatus;
+    error: string | null;
+    finished_at: string;
+}
+
+interface Manifest {
+    data_dir: string;
+    started_at: string;
+    updated_at: string;
+    /** Keyed by file basename */
+    entries: Record<string, ManifestEntry>;
+}
+
+interface IngestOptions {
+    dataDir: string;
+    manifestPath: string;
+    dryRun: boolean;
+    resume: boolean;
+    concurrency: number;
+}
+
+/** Run `worker` over `items` with at most `limit` calls in flight */
+async function runWithConcurrency<T>(
+    items: T[],
+    limit: number,
+    worker: (item: T) => Promise<void>,
+): Promise<void> {
+    let next = 0;
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (next < items.length) {
+            await worker(items[next++]);
+        }
+    });
+    await Promise.all(runners);
+}
+
+class ExamIngester {
+    private supabase: SupabaseClient;
+    private storage: StorageService;
+    private manifest: Manifest | null = null;
+
+    constructor(private readonly options: IngestOptions) {
+        this.supabase = getSupabaseClient();
+        this.storage = createStorage();
+    }
+
+    loadPreviousEntries(): Record<string, ManifestEntry> {
+        /** Entries of the manifest being resumed, or none */
+        if (!this.options.resume) {
+            return {};
+        }
+        if (!fs.existsSync(this.options.manifestPath)) {
+            console.log(`⚠️  No manifest at ${this.options.manifestPath}, starting from scratch`);
+            return {};
+        }
+        const previous = JSON.parse(fs.readFileSync(this.options.manifestPath, 'utf8')) as Manifest;
+        return previous.entries;
+    }
+
+    saveManifest(): void {
+        /** Write to a temporary file first so a crash never leaves a truncated manifest */
+        if (!this.manifest) return;
+        this.manifest.updated_at = new Date().toISOString();
+        const temporaryPath = `${this.options.manifestPath}.tmp`;
+        fs.writeFileSync(temporaryPath, JSON.stringify(this.manifest, null, 2));
+        fs.renameSync(temporaryPath, this.options.manifestPath);
+    }
+
+    async getIngestedDocuments(): Promise<IngestedDocument[]> {
+        /**
+         * Every documents row, including soft-deleted ones, so deleted content is not re-added.
+         * Read in pages, since PostgREST caps a single response at its max-rows setting
+         */
+        const documents: IngestedDocument[] = [];
+        for (let offset = 0; ; offset += DOCUMENT_BATCH_SIZE) {
+            const { data, error } = await this.supabase
+                .from('documents')
+                .select('id, filename, storage_path, content_hash, created_at, deleted_at')
+                .order('id', { ascending: true })
+                .range(offset, offset + DOCUMENT_BATCH_SIZE - 1)
+                .overrideTypes<IngestedDocument[], { merge: false }>();
+
+            if (error) {
+                const hint = error.message.includes('content_hash')
+                    ? ' (add the content_hash column, see markdowns/S3_ORGANIZATION.md)'
+                    : '';
+                throw new Error(`Failed to fetch documents: ${error.message}${hint}`);
+            }
+
+            documents.push(...data);
+            if (data.length < DOCUMENT_BATCH_SIZE) {
+                return documents;
+            }
+        }
+    }
+
+    async executeItem(item: IngestPlanItem, filePath: string): Promise<void> {
+        /** Apply one planned insert or update; storage is written before the row */
+        const { metadata, document_id: id } = item;
+        if (!metadata || !id) {
+            throw new Error(`Nothing to ${item.action} for ${item.file}`);
+        }
+        // The documents table has no doc_type column; the filename encodes it
+        const columns = {
+            title: documentTitle(metadata),
+            filename: formatExamFilename(metadata),
+            grade_level: metadata.grade_level,
+            category: metadata.category,
+            subject: metadata.subject,
+            selection: metadata.selection,
+            exam_type: metadata.exam_type,
+            exam_year: metadata.exam_year,
+            exam_month: metadata.exam_month,
+            source: metadata.source,
+        };
+
+        if (item.action === 'insert') {
+            const storagePath = documentKey(id);
+            await this.storage.putObject(storagePath, fs.readFileSync(filePath), {
+                contentType: 'application/pdf',
+            });
+            const { error } = await this.supabase.from('documents').insert({
+                id,
+                ...columns,
+                storage_path: storagePath,
+                content_hash: item.content_hash,
+                correct_answers: {},
+                question_scores: {},
+                created_at: new Date().toISOString(),
+            });
+            if (error) {
+                throw new Error(`Failed to insert document: ${error.message}`);
+            }
+            return;
+        }
+
+        const changes: Record<string, unknown> = { ...columns, content_hash: item.content_hash };
+        if (item.upload) {
+            const storagePath = documentKey(id);
+            await this.storage.putObject(storagePath, fs.readFileSync(filePath), {
+                contentType: 'application/pdf',
+            });
+            changes.storage_path = storagePath;
+        }
+        const { error } = await this.supabase.from('documents').update(changes).eq('id', id);
+        if (error) {
+            throw new Error(`Failed to update document: ${error.message}`);
+        }
+    }
+
+    printPlan(plan: IngestPlanItem[]): void {
+        /** One line per file, in the order they are processed */
+        const icons: Record<IngestPlanItem['action'], string> = {
+            insert: '➕',
+            update: '✏️ ',
+            skip: '⏭️ ',
+            invalid: '⚠️ ',
+        };
+        for (const item of plan) {
+            const details = [
+                item.document_id,
+                item.action === 'update' && item.upload ? 'uploads the PDF' : null,
+                item.reason,
+            ].filter(Boolean).join(', ');
+            console.log(`${icons[item.action]} ${item.action} ${item.file}${details ? ` (${details})` : ''}`);
+        }
+    }
+
+    async ingest(): Promise<void> {
+        const dataPath = path.resolve(this.options.dataDir);
+        if (!fs.existsSync(dataPath)) {
+            console.log(`❌ Data directory not found: ${dataPath}`);
+            return;
+        }
+
+        const previous = this.loadPreviousEntries();
+        const files: IngestFile[] = fs.readdirSync(dataPath)
+            .filter(file => file.toLowerCase().endsWith('.pdf'))
+            .sort()
+            .map(file => ({
+                file,
+                content_hash: contentHash(fs.readFileSync(path.join(dataPath, file))),
+            }));
+
+        // Files finished in the resumed run are not looked at again unless their content changed
+        const finished = files.filter(({ file, content_hash }) =>
+            previous[file]?.status === 'done' && previous[file].content_hash === content_hash,
+        );
+        const pending = files.filter(file => !finished.includes(file));
+        console.log(`📁 Found ${files.length} PDF files in ${dataPath}`);
+        if (finished.length > 0) {
+            console.log(`⏭️  ${finished.length} already done in ${this.options.manifestPath}`);
+        }
+
+        const plan = planIngestion(pending, await this.getIngestedDocuments());
+        this.printPlan(plan);
+
+        const count = (action: IngestPlanItem['action']) => plan.filter(item => item.action === action).length;
+        if (this.options.dryRun) {
+            console.log(`\n📊 Dry run: ${count('insert')} to insert, ${count('update')} to update, ${count('skip')} to skip, ${count('invalid')} invalid`);
+            return;
+        }
+
+        const now = new Date().toISOString();
+        const manifest: Manifest = {
+            data_dir: dataPath,
+            started_at: now,
+            updated_at: now,
+            entries: Object.fromEntries(finished.map(({ file }) => [file, previous[file]])),
+        };
+        this.manifest = manifest;
+        const record = (item: IngestPlanItem, status: IngestStatus, error: string | null) => {
+            manifest.entries[item.file] = { ...item, status, error, finished_at: new Date().toISOString() };
+            this.saveManifest();
+        };
+
+        // Skipped files are already in place; invalid ones fail until renamed
+        for (const item of plan) {
+            if (item.action === 'skip') record(item, 'done', null);
+            if (item.action === 'invalid') record(item, 'failed', item.reason);
+        }
+
+        const work = plan.filter(item => item.action === 'insert' || item.action === 'update');
+        const completed = { insert: 0, update: 0, failed: count('invalid') };
+        await runWithConcurrency(work, this.options.concurrency, async item => {
+            try {
+                await this.executeItem(item, path.join(dataPath, item.file));
+                console.log(`✅ ${item.action === 'insert' ? 'Inserted' : 'Updated'} ${item.file}`);
+                completed[item.action as 'insert' | 'update']++;
+                record(item, 'done', null);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.log(`❌ ${item.file}: ${message}`);
+                completed.failed++;
+                record(item, 'failed', message);
+            }
+        });
+
+        console.log(`\n📊 Ingestion Summary:`);
+        console.log(`➕ Inserted: ${completed.insert}`);
+        console.log(`✏️  Updated: ${completed.update}`);
+        console.log(`⏭️  Skipped: ${count('skip') + finished.length}`);
+        console.log(`❌ Failed: ${completed.failed}`);
+        console.log(`📝 Manifest: ${this.options.manifestPath}`);
+        if (completed.failed > 0) {
+            console.log('Fix the failures and re-run with --resume to continue');
+            process.exitCode = 1;
+        }
+    }
+}
+
+async function main(): Promise<void> {
+    /** Main function */
+    try {
+        const args = process.argv.slice(2);
+        const option = (name: string) =>
+            args.find(arg => arg.startsWith(`--${name}=`))?.slice(name.length + 3);
+        const [dataDir] = args.filter(arg => !arg.startsWith('--'));
+
+        const concurrency = Number(option('concurrency') ?? DEFAULT_CONCURRENCY);
+        if (!Number.isInteger(concurrency) || concurrency < 1) {
+            console.log('❌ --concurrency must be a positive integer');
+            process.exit(1);
+        }
+
+        const ingester = new ExamIngester({
+            dataDir: dataDir ?? DEFAULT_DATA_DIR,
+            manifestPath: option('manifest') ?? DEFAULT_MANIFEST_PATH,
+            dryRun: args.includes('--dry-run'),
+            resume: args.includes('--resume'),
+            concurrency,
+        });
+        await ingester.ingest();
+    } catch (error) {
+        console.error('❌ Error:', error);
+        process.exit(1);
+    }
+}
+
+// Run the script
+if (require.main === module) {
+    main();
+}
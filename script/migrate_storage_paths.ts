@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+/**
+ * Storage Path Migration Script
+ * Moves exam PDFs uploaded under the old exams/{grade}/{category}/... layout
+ * to documents/{id}.pdf and updates documents.storage_path to match
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import * as dotenv from 'dotenv';
+import { getSupabaseClient } from '../src/supabase/supabase-client';
+import { createStorage } from '../src/storage/storage.factory';
+import { documentKey } from '../src/storage/storage-keys';
+import { StorageService } from '../src/storage/storage.service';
+
+// Load environment variables
+dotenv.config();
+
+interface DocumentRecord {
+    id: string;
+    title: string;
+    storage_path: string | null;
+}
+
+class StoragePathMigrator {
+    private supabase: SupabaseClient;
+    private storage: StorageService;
+
+    constructor(private readonly dryRun: boolean) {
+        this.supabase = getSupabaseClient();
+        this.storage = createStorage();
+    }
+
+    async getDocumentsToMigrate(): Promise<DocumentRecord[]> {
+        /** Documents whose storage_path is not documents/{id}.pdf */
+        const { data, error } = await this.supabase
+            .from('documents')
+            .select('id, title, storage_path');
+
+        if (error) {
+            throw new Error(`Failed to fetch documents: ${error.message}`);
+        }
+
+        return (data || []).filter(
+            (document: DocumentRecord) => document.storage_path !== documentKey(document.id),
+        );
+    }
+
+    async migrateDocument(document: DocumentRecord): Promise<boolean> {
+        /** Copy the object to its canonical key, then repoint the row and drop the old object */
+        const targetKey = documentKey(document.id);
+        const sourceKey = document.storage_path;
+
+        if (this.dryRun) {
+            console.log(`🔎 ${sourceKey || '(none)'} → ${targetKey}`);
+            return true;
+        }
+
+        try {
+            if (!(await this.storage.objectExists(targetKey))) {
+                if (!sourceKey || !(await this.storage.objectExists(sourceKey))) {
+                    console.log(`⚠️  No object found for ${document.title} (${document.id})`);
+                    return false;
+                }
+                const body = await this.storage.getObject(sourceKey);
+                await this.storage.putObject(targetKey, body, { contentType: 'application/pdf' });
+            }
+
+            const { error } = await this.supabase
+                .from('documents')
+                .update({ storage_path: targetKey })
+                .eq('id', document.id);
+
+            if (error) {
+                throw error;
+            }
+
+            if (sourceKey && sourceKey !== targetKey) {
+                await this.storage.deleteObject(sourceKey);
+            }
+
+            console.log(`✅ Migrated ${document.title}: ${targetKey}`);
+            return true;
+        } catch (error) {
+            console.log(`❌ Migration failed for ${document.id}:`, error);
+            return false;
+        }
+    }
+
+    async migrateAll(): Promise<void> {
+        const documents = await this.getDocumentsToMigrate();
+        console.log(`📁 ${documents.length} documents to migrate in ${this.storage.describe()}`);
+
+        let successCount = 0;
+        for (const document of documents) {
+            if (await this.migrateDocument(document)) {
+                successCount++;
+            }
+        }
+
+        console.log(`\n📊 Migration Summary:`);
+        console.log(`✅ ${this.dryRun ? 'Would migrate' : 'Migrated'}: ${successCount}/${documents.length}`);
+    }
+}
+
+async function main(): Promise<void> {
+    /** Main function */
+    try {
+        const dryRun = process.argv.includes('--dry-run');
+        const migrator = new StoragePathMigrator(dryRun);
+        await migrator.migrateAll();
+    } catch (error) {
+        console.error('❌ Error:', error);
+        process.exit(1);
+    }
+}
+
+// Run the script
+if (require.main === module) {
+    main();
+}
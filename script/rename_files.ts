@@ -7,52 +7,19 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as readline from 'readline';
+import { SUBJECT_MAPPINGS } from '../src/documents/subject-aliases';
+import { DocType, ExamMetadata } from '../src/naming/naming-convention';
+import { formatExamFilename, validateExamMetadata } from '../src/naming/exam-filename';
 
 // Fixed values
 const GRADE_LEVEL = "고3";
 const EXAM_TYPE = "수능";
-const EXAM_YEAR = "2024";
-const EXAM_MONTH = "11";
+const EXAM_YEAR = 2024;
+const EXAM_MONTH = 11;
 const SOURCE = "평가원";
 
-// Subject mappings
-const SUBJECT_MAPPINGS: Record<string, { category: string; subject: string; selection: string | null }> = {
-    // 국어 category
-    "국어": { category: "국어", subject: "국어", selection: null },
-    
-    // 수학 category
-    "수학": { category: "수학", subject: "수학", selection: null },
-    
-    // 영어 category
-    "영어": { category: "영어", subject: "영어", selection: null },
-    
-    // 한국사 category
-    "한국사": { category: "한국사", subject: "한국사", selection: null },
-    
-    // 사회탐구 category
-    "생활과윤리": { category: "사회탐구", subject: "생활과 윤리", selection: null },
-    "윤리와사상": { category: "사회탐구", subject: "윤리와 사상", selection: null },
-    "한국지리": { category: "사회탐구", subject: "한국지리", selection: null },
-    "세계지리": { category: "사회탐구", subject: "세계지리", selection: null },
-    "동아시아사": { category: "사회탐구", subject: "동아시아사", selection: null },
-    "세계사": { category: "사회탐구", subject: "세계사", selection: null },
-    "경제": { category: "사회탐구", subject: "경제", selection: null },
-    "정치와법": { category: "사회탐구", subject: "정치와 법", selection: null },
-    "사회문화": { category: "사회탐구", subject: "사회·문화", selection: null },
-    
-    // 과학탐구 category
-    "물리학1": { category: "과학탐구", subject: "물리학 I", selection: null },
-    "물리학2": { category: "과학탐구", subject: "물리학 II", selection: null },
-    "화학1": { category: "과학탐구", subject: "화학 I", selection: null },
-    "화학2": { category: "과학탐구", subject: "화학 II", selection: null },
-    "생명과학1": { category: "과학탐구", subject: "생명과학 I", selection: null },
-    "생명과학2": { category: "과학탐구", subject: "생명과학 II", selection: null },
-    "지구과학1": { category: "과학탐구", subject: "지구과학 I", selection: null },
-    "지구과학2": { category: "과학탐구", subject: "지구과학 II", selection: null },
-};
-
 // Document type mappings
-const DOC_TYPE_MAPPINGS: Record<string, string> = {
+const DOC_TYPE_MAPPINGS: Record<string, DocType> = {
     "문제": "problem",
     "정답": "answer",
     "답지": "answer"
@@ -114,25 +81,25 @@ function generateNewFilename(oldFilename: string): string | null {
     }
     
     const subjectInfo = SUBJECT_MAPPINGS[subjectKey];
-    const docType = DOC_TYPE_MAPPINGS[docTypeKey];
-    
-    // Build new filename
-    const parts = [
-        GRADE_LEVEL,
-        subjectInfo.category,
-        subjectInfo.subject,
-        subjectInfo.selection || "",
-        EXAM_TYPE,
-        EXAM_YEAR,
-        EXAM_MONTH,
-        SOURCE,
-        docType
-    ];
-    
-    // Join with underscore (including empty parts)
-    const newFilename = parts.join("_") + ".pdf";
-    
-    return newFilename;
+    const metadata = {
+        grade_level: GRADE_LEVEL,
+        category: subjectInfo.category,
+        subject: subjectInfo.subject,
+        selection: subjectInfo.selection || "",
+        exam_type: EXAM_TYPE,
+        exam_year: EXAM_YEAR,
+        exam_month: EXAM_MONTH,
+        source: SOURCE,
+        doc_type: DOC_TYPE_MAPPINGS[docTypeKey]
+    } as ExamMetadata;
+
+    const errors = validateExamMetadata(metadata);
+    if (errors.length > 0) {
+        console.log(`Invalid metadata for ${oldFilename}: ${errors.join("; ")}`);
+        return null;
+    }
+
+    return formatExamFilename(metadata);
 }
 
 async function askForConfirmation(prompt: string): Promise<boolean> {
@@ -1,17 +1,19 @@
 #!/usr/bin/env node
 /**
  * Thumbnail Update Script
- * Regenerates PNG thumbnails from the first page of PDF files in S3 documents bucket
+ * Regenerates PNG thumbnails from the first page of PDF files in object storage
  * with proper aspect ratio preservation using pure Node.js libraries
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
-import { S3Client, GetObjectCommand, PutObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3';
 import { SupabaseClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
 import { getSupabaseClient } from '../src/supabase/supabase-client';
+import { createStorage } from '../src/storage/storage.factory';
+import { documentKey, thumbnailKey } from '../src/storage/storage-keys';
+import { StorageService } from '../src/storage/storage.service';
 
 // Load environment variables
 dotenv.config();
@@ -33,36 +35,20 @@ interface DocumentRecord {
 
 class ThumbnailUpdater {
     private supabase: SupabaseClient;
-    private s3Client: S3Client;
-    private s3Bucket: string;
-    private s3Region: string;
+    private storage: StorageService;
     private tempDir: string;
 
     constructor() {
         const supabaseUrl = process.env.SUPABASE_URL;
         const supabaseKey = process.env.SUPABASE_ANON_KEY;
-        const awsAccessKey = process.env.AWS_ACCESS_KEY_ID;
-        const awsSecretKey = process.env.AWS_SECRET_ACCESS_KEY;
-        this.s3Bucket = process.env.S3_BUCKET_NAME || '';
-        this.s3Region = process.env.AWS_REGION || 'us-east-1';
 
         if (!supabaseUrl || !supabaseKey) {
             throw new Error('Missing Supabase configuration');
         }
 
-        if (!awsAccessKey || !awsSecretKey || !this.s3Bucket) {
-            throw new Error('Missing AWS configuration');
-        }
-
         // Initialize clients
         this.supabase = getSupabaseClient();
-        this.s3Client = new S3Client({
-            region: this.s3Region,
-            credentials: {
-                accessKeyId: awsAccessKey,
-                secretAccessKey: awsSecretKey,
-            },
-        });
+        this.storage = createStorage();
 
         // Create temporary directory for processing
         this.tempDir = path.join(os.tmpdir(), 'pdf-thumbnails-update');
@@ -92,32 +78,14 @@ class ThumbnailUpdater {
     }
 
     /**
-     * Download PDF file from S3
+     * Download PDF file from storage
      */
-    async downloadPDFFromS3(s3Key: string, localPath: string): Promise<boolean> {
+    async downloadPDF(key: string, localPath: string): Promise<boolean> {
         try {
-            const command = new GetObjectCommand({
-                Bucket: this.s3Bucket,
-                Key: s3Key,
-            });
-
-            const response = await this.s3Client.send(command);
-            
-            if (!response.Body) {
-                throw new Error('No body in S3 response');
-            }
-
-            const fileStream = fs.createWriteStream(localPath);
-            const bodyStream = response.Body as any;
-            
-            return new Promise((resolve, reject) => {
-                bodyStream.pipe(fileStream);
-                bodyStream.on('error', reject);
-                fileStream.on('finish', () => resolve(true));
-                fileStream.on('error', reject);
-            });
+            fs.writeFileSync(localPath, await this.storage.getObject(key));
+            return true;
         } catch (error) {
-            console.error(`Error downloading PDF from S3: ${s3Key}`, error);
+            console.error(`Error downloading PDF: ${key}`, error);
             return false;
         }
     }
@@ -164,58 +132,40 @@ class ThumbnailUpdater {
     }
 
     /**
-     * Delete existing thumbnail from S3
+     * Delete existing thumbnail from storage
      */
-    async deleteThumbnailFromS3(s3Key: string): Promise<boolean> {
+    async deleteThumbnail(key: string): Promise<boolean> {
         try {
-            const command = new DeleteObjectCommand({
-                Bucket: this.s3Bucket,
-                Key: s3Key,
-            });
-
-            await this.s3Client.send(command);
+            await this.storage.deleteObject(key);
             return true;
         } catch (error) {
-            console.error(`Error deleting thumbnail from S3: ${s3Key}`, error);
+            console.error(`Error deleting thumbnail: ${key}`, error);
             return false;
         }
     }
 
     /**
-     * Upload thumbnail to S3
+     * Upload thumbnail to storage
      */
-    async uploadThumbnailToS3(localPath: string, s3Key: string): Promise<boolean> {
+    async uploadThumbnail(localPath: string, key: string): Promise<boolean> {
         try {
-            const fileContent = fs.readFileSync(localPath);
-            
-            const command = new PutObjectCommand({
-                Bucket: this.s3Bucket,
-                Key: s3Key,
-                Body: fileContent,
-                ContentType: 'image/png',
-                CacheControl: 'public, max-age=31536000', // 1 year cache
+            await this.storage.putObject(key, fs.readFileSync(localPath), {
+                contentType: 'image/png',
+                cacheControl: 'public, max-age=31536000', // 1 year cache
             });
-
-            await this.s3Client.send(command);
             return true;
         } catch (error) {
-            console.error(`Error uploading thumbnail to S3: ${s3Key}`, error);
+            console.error(`Error uploading thumbnail: ${key}`, error);
             return false;
         }
     }
 
     /**
-     * Check if thumbnail already exists in S3
+     * Check if thumbnail already exists in storage
      */
-    async thumbnailExists(s3Key: string): Promise<boolean> {
+    async thumbnailExists(key: string): Promise<boolean> {
         try {
-            const command = new GetObjectCommand({
-                Bucket: this.s3Bucket,
-                Key: s3Key,
-            });
-
-            await this.s3Client.send(command);
-            return true;
+            return await this.storage.objectExists(key);
         } catch (error) {
             return false;
         }
@@ -226,8 +176,8 @@ class ThumbnailUpdater {
      */
     async processDocument(document: DocumentRecord): Promise<boolean> {
         const documentId = document.id;
-        const pdfS3Key = `documents/${documentId}.pdf`;
-        const thumbnailS3Key = `thumbnails/${documentId}.png`;
+        const pdfKey = document.storage_path || documentKey(documentId);
+        const thumbnailStorageKey = thumbnailKey(documentId);
         
         console.log(`Processing document: ${document.title} (${documentId})`);
 
@@ -236,11 +186,11 @@ class ThumbnailUpdater {
         const tempThumbnailPath = path.join(this.tempDir, `${documentId}.png`);
 
         try {
-            // Download PDF from S3
-            console.log(`Downloading PDF: ${pdfS3Key}`);
-            const downloadSuccess = await this.downloadPDFFromS3(pdfS3Key, tempPdfPath);
+            // Download PDF from storage
+            console.log(`Downloading PDF: ${pdfKey}`);
+            const downloadSuccess = await this.downloadPDF(pdfKey, tempPdfPath);
             if (!downloadSuccess) {
-                console.error(`Failed to download PDF: ${pdfS3Key}`);
+                console.error(`Failed to download PDF: ${pdfKey}`);
                 return false;
             }
 
@@ -253,16 +203,16 @@ class ThumbnailUpdater {
             }
 
             // Delete existing thumbnail if it exists
-            if (await this.thumbnailExists(thumbnailS3Key)) {
-                console.log(`Deleting existing thumbnail: ${thumbnailS3Key}`);
-                await this.deleteThumbnailFromS3(thumbnailS3Key);
+            if (await this.thumbnailExists(thumbnailStorageKey)) {
+                console.log(`Deleting existing thumbnail: ${thumbnailStorageKey}`);
+                await this.deleteThumbnail(thumbnailStorageKey);
             }
 
-            // Upload new thumbnail to S3
-            console.log(`Uploading new thumbnail: ${thumbnailS3Key}`);
-            const uploadSuccess = await this.uploadThumbnailToS3(tempThumbnailPath, thumbnailS3Key);
+            // Upload new thumbnail to storage
+            console.log(`Uploading new thumbnail: ${thumbnailStorageKey}`);
+            const uploadSuccess = await this.uploadThumbnail(tempThumbnailPath, thumbnailStorageKey);
             if (!uploadSuccess) {
-                console.error(`Failed to upload thumbnail: ${thumbnailS3Key}`);
+                console.error(`Failed to upload thumbnail: ${thumbnailStorageKey}`);
                 return false;
             }
 
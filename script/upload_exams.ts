@@ -1,30 +1,26 @@
 #!/usr/bin/env node
 /**
  * Exam File Upload Script
- * Uploads exam files to Supabase database and AWS S3 bucket
+ * Uploads exam files to Supabase database and object storage. Every run adds
+ * new rows; ingest_exams.ts skips files that are already uploaded
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { SupabaseClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
 import { getSupabaseClient } from '../src/supabase/supabase-client';
+import { createStorage, getStorageDriver } from '../src/storage/storage.factory';
+import { documentKey } from '../src/storage/storage-keys';
+import { StorageService } from '../src/storage/storage.service';
+import { documentTitle, ExamMetadata as NamingMetadata } from '../src/naming/naming-convention';
+import { parseExamFilename } from '../src/naming/exam-filename';
 
 // Load environment variables
 dotenv.config();
 
-interface ExamMetadata {
-    grade_level: string;
-    category: string;
-    subject: string;
-    selection: string;
-    exam_type: string;
-    exam_year: number;
-    exam_month: number;
-    source: string;
-    doc_type: string;
+interface ExamMetadata extends NamingMetadata {
     filename: string;
 }
 
@@ -48,206 +44,57 @@ interface SupabaseRecord {
 
 class ExamFileUploader {
     private supabase: SupabaseClient;
-    private s3Client: S3Client;
-    private s3Bucket: string;
-    private s3Region: string;
-
-    // Valid values from naming convention
-    private readonly validGradeLevels = ['고1', '고2', '고3'];
-    private readonly validCategories = ['국어', '수학', '영어', '한국사', '사회탐구', '과학탐구', '직업탐구', '제2외국어'];
-    private readonly validExamTypes = ['수능', '학력평가', '모의고사'];
-    private readonly validSources = ['평가원', '교육청', '사설'];
-    private readonly validDocTypes = ['problem', 'answer', 'explanation'];
+    private storage: StorageService;
 
     constructor() {
         const supabaseUrl = process.env.SUPABASE_URL;
         const supabaseKey = process.env.SUPABASE_ANON_KEY;
-        const awsAccessKey = process.env.AWS_ACCESS_KEY_ID;
-        const awsSecretKey = process.env.AWS_SECRET_ACCESS_KEY;
-        this.s3Bucket = process.env.S3_BUCKET_NAME || '';
-        this.s3Region = process.env.AWS_REGION || 'us-east-1';
 
         if (!supabaseUrl || !supabaseKey) {
             throw new Error('Missing Supabase configuration');
         }
 
-        if (!awsAccessKey || !awsSecretKey || !this.s3Bucket) {
-            throw new Error('Missing AWS configuration');
-        }
-
         // Initialize clients
         this.supabase = getSupabaseClient();
-        this.s3Client = new S3Client({
-            region: this.s3Region,
-            credentials: {
-                accessKeyId: awsAccessKey,
-                secretAccessKey: awsSecretKey,
-            },
-        });
+        this.storage = createStorage();
     }
 
     parseFilename(filename: string): ExamMetadata | null {
         /** Parse filename according to naming convention */
-        if (!filename.endsWith('.pdf')) {
-            return null;
-        }
-
-        // Remove .pdf extension
-        const name = filename.slice(0, -4);
-        const parts = name.split('_');
-
-        // Expected format: grade_category_subject_selection_examType_year_month_source_docType
-        // For files with empty selection: grade_category_subject__examType_year_month_source_docType
-        if (parts.length < 8 || parts.length > 9) {
-            return null;
-        }
-
-        const gradeLevel = parts[0];
-        const category = parts[1];
-        const subject = parts[2];
-
-        let selection: string;
-        let examType: string;
-        let examYear: number;
-        let examMonth: number;
-        let source: string;
-        let docType: string;
-
-        // Check if we have 8 parts (no selection) or 9 parts (with selection)
-        if (parts.length === 8) {
-            // No selection field: grade_category_subject_examType_year_month_source_docType
-            selection = '';
-            examType = parts[3];
-            examYear = parseInt(parts[4]);
-            examMonth = parseInt(parts[5]);
-            source = parts[6];
-            docType = parts[7];
-        } else {
-            // With selection field: grade_category_subject_selection_examType_year_month_source_docType
-            // Check if parts[3] is empty (double underscore case)
-            if (parts[3] === '') {
-                selection = '';
-                examType = parts[4];
-                examYear = parseInt(parts[5]);
-                examMonth = parseInt(parts[6]);
-                source = parts[7];
-                docType = parts[8];
-            } else {
-                // Check if parts[3] is a valid selection or exam_type
-                if (this.validExamTypes.includes(parts[3])) {
-                    // parts[3] is exam_type, so no selection
-                    selection = '';
-                    examType = parts[3];
-                    examYear = parseInt(parts[4]);
-                    examMonth = parseInt(parts[5]);
-                    source = parts[6];
-                    docType = parts[7];
-                } else {
-                    // parts[3] is selection
-                    selection = parts[3];
-                    examType = parts[4];
-                    examYear = parseInt(parts[5]);
-                    examMonth = parseInt(parts[6]);
-                    source = parts[7];
-                    docType = parts[8];
-                }
-            }
-        }
-
-        // Validate components
-
-        
-        // Normalize strings to handle Unicode encoding issues
-        // Convert decomposed Hangul characters (NFD) to precomposed form (NFC)
-        const normalizedGradeLevel = gradeLevel.normalize('NFC');
-        const normalizedCategory = category.normalize('NFC');
-        const normalizedExamType = examType.normalize('NFC');
-        const normalizedSource = source.normalize('NFC');
-        const normalizedDocType = docType.normalize('NFC');
-        
-        // Normalize subject and selection as well
-        const normalizedSubject = subject.normalize('NFC');
-        const normalizedSelection = selection.normalize('NFC');
-        
-        // Ensure proper UTF-8 encoding for Korean characters
-        const ensureUTF8 = (str: string): string => {
-          // Convert to Buffer and back to ensure proper UTF-8 encoding
-          return Buffer.from(str, 'utf8').toString('utf8');
-        };
-        
-        const gradeLevelValid = this.validGradeLevels.includes(normalizedGradeLevel);
-        const categoryValid = this.validCategories.includes(normalizedCategory);
-        const examTypeValid = this.validExamTypes.includes(normalizedExamType);
-        const sourceValid = this.validSources.includes(normalizedSource);
-        const docTypeValid = this.validDocTypes.includes(normalizedDocType);
-        const examYearValid = !isNaN(examYear);
-        const examMonthValid = !isNaN(examMonth);
-
-        if (
-            !gradeLevelValid ||
-            !categoryValid ||
-            !examTypeValid ||
-            !sourceValid ||
-            !docTypeValid ||
-            !examYearValid ||
-            !examMonthValid
-        ) {
+        const { metadata, errors } = parseExamFilename(filename);
+        if (!metadata) {
+            console.log(`⚠️  ${filename}: ${errors.join('; ')}`);
             return null;
         }
-
-        return {
-            grade_level: ensureUTF8(normalizedGradeLevel),
-            category: ensureUTF8(normalizedCategory),
-            subject: ensureUTF8(normalizedSubject),
-            selection: ensureUTF8(normalizedSelection),
-            exam_type: ensureUTF8(normalizedExamType),
-            exam_year: examYear,
-            exam_month: examMonth,
-            source: ensureUTF8(normalizedSource),
-            doc_type: ensureUTF8(normalizedDocType),
-            filename,
-        };
+        return { ...metadata, filename };
     }
 
     generateTitle(metadata: ExamMetadata): string {
         /** Generate a human-readable title from metadata */
-        const selectionText = metadata.selection ? ` ${metadata.selection}` : '';
-        return `${metadata.grade_level} ${metadata.category} ${metadata.subject}${selectionText} ${metadata.exam_type} ${metadata.exam_year}년 ${metadata.exam_month}월 ${metadata.source}`;
-    }
-
-    generateStoragePath(metadata: ExamMetadata): string {
-        /** Generate storage path based on metadata */
-        const selectionPath = metadata.selection ? `/${metadata.selection}` : '';
-        return `exams/${metadata.grade_level}/${metadata.category}/${metadata.subject}${selectionPath}/${metadata.exam_year}/${metadata.exam_month}/${metadata.source}/${metadata.doc_type}.pdf`;
+        return documentTitle(metadata);
     }
 
-    async uploadToS3(filePath: string, s3Key: string): Promise<boolean> {
-        /** Upload file to S3 */
+    async uploadToStorage(filePath: string, key: string): Promise<boolean> {
+        /** Upload file to storage */
         try {
-            const fileContent = fs.readFileSync(filePath);
-            const command = new PutObjectCommand({
-                Bucket: this.s3Bucket,
-                Key: s3Key,
-                Body: fileContent,
-                ContentType: 'application/pdf',
+            await this.storage.putObject(key, fs.readFileSync(filePath), {
+                contentType: 'application/pdf',
             });
-
-            await this.s3Client.send(command);
-            console.log(`✅ Uploaded to S3: ${s3Key}`);
+            console.log(`✅ Uploaded to ${this.storage.describe(key)}`);
             return true;
         } catch (error) {
-            console.log(`❌ S3 upload failed for ${filePath}:`, error);
+            console.log(`❌ Storage upload failed for ${filePath}:`, error);
             return false;
         }
     }
 
-    async uploadToSupabase(metadata: ExamMetadata, storagePath: string): Promise<boolean> {
+    async uploadToSupabase(id: string, metadata: ExamMetadata, storagePath: string): Promise<boolean> {
         /** Upload metadata to Supabase */
         try {
             const title = this.generateTitle(metadata);
 
             const data: SupabaseRecord = {
-                id: crypto.randomUUID(), // Generate UUID for the documents table
+                id,
                 title: title,
                 subject: metadata.subject,
                 filename: metadata.filename,
@@ -290,17 +137,18 @@ class ExamFileUploader {
             return false;
         }
 
-        // Generate storage path
-        const storagePath = this.generateStoragePath(metadata);
+        // The storage key is derived from the document id, like thumbnails
+        const id = crypto.randomUUID();
+        const storagePath = documentKey(id);
 
-        // Upload to S3
-        const s3Success = await this.uploadToS3(filePath, storagePath);
-        if (!s3Success) {
+        // Upload to storage
+        const storageSuccess = await this.uploadToStorage(filePath, storagePath);
+        if (!storageSuccess) {
             return false;
         }
 
         // Upload to Supabase
-        const supabaseSuccess = await this.uploadToSupabase(metadata, storagePath);
+        const supabaseSuccess = await this.uploadToSupabase(id, metadata, storagePath);
         return supabaseSuccess;
     }
 
@@ -343,13 +191,10 @@ async function main(): Promise<void> {
         const uploader = new ExamFileUploader();
 
         // Check required environment variables
-        const requiredVars = [
-            'SUPABASE_URL',
-            'SUPABASE_ANON_KEY',
-            'AWS_ACCESS_KEY_ID',
-            'AWS_SECRET_ACCESS_KEY',
-            'S3_BUCKET_NAME',
-        ];
+        const requiredVars = ['SUPABASE_URL', 'SUPABASE_ANON_KEY'];
+        if (getStorageDriver() === 's3') {
+            requiredVars.push('AWS_ACCESS_KEY_ID', 'AWS_SECRET_ACCESS_KEY', 'S3_BUCKET_NAME');
+        }
 
         const missingVars = requiredVars.filter(varName => !process.env[varName]);
         if (missingVars.length > 0) {
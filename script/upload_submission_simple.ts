@@ -1,15 +1,18 @@
 #!/usr/bin/env node
 /**
  * Document Submission Upload Script
- * Uploads user submission files to Supabase database and AWS S3 bucket with flat UUID-based structure
+ * Grades user submissions against the document answer key and uploads them to Supabase database and object storage with flat UUID-based structure
  */
 
 import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
+import { createStorage, getStorageDriver } from '../src/storage/storage.factory';
+import { submissionKey } from '../src/storage/storage-keys';
+import { StorageService } from '../src/storage/storage.service';
+import { AnswerKey, GradingService, UserAnswers } from '../src/submissions/grading.service';
 
 // Load environment variables
 dotenv.config();
@@ -17,10 +20,7 @@ dotenv.config();
 interface SubmissionData {
     user_id: string;
     document_id: string;
-    user_answers: Record<string, any>;
-    score?: number;
-    incorrect_questions?: number[];
-    unanswered_questions?: number[];
+    user_answers: UserAnswers;
     filePath?: string; // Optional: if uploading a file
 }
 
@@ -29,7 +29,7 @@ interface SupabaseSubmissionRecord {
     user_id: string;
     document_id: string;
     storage_path: string;
-    user_answers: Record<string, any>;
+    user_answers: UserAnswers;
     score: number | null;
     incorrect_questions: number[];
     unanswered_questions: number[];
@@ -38,26 +38,17 @@ interface SupabaseSubmissionRecord {
 
 class DocumentSubmissionUploader {
     private supabase: SupabaseClient;
-    private s3Client: S3Client;
-    private s3Bucket: string;
-    private s3Region: string;
+    private storage: StorageService;
+    private grading = new GradingService();
 
     constructor() {
         const supabaseUrl = process.env.SUPABASE_URL;
         const supabaseKey = process.env.SUPABASE_ANON_KEY;
-        const awsAccessKey = process.env.AWS_ACCESS_KEY_ID;
-        const awsSecretKey = process.env.AWS_SECRET_ACCESS_KEY;
-        this.s3Bucket = process.env.S3_BUCKET_NAME || '';
-        this.s3Region = process.env.AWS_REGION || 'us-east-1';
 
         if (!supabaseUrl || !supabaseKey) {
             throw new Error('Missing Supabase configuration');
         }
 
-        if (!awsAccessKey || !awsSecretKey || !this.s3Bucket) {
-            throw new Error('Missing AWS configuration');
-        }
-
         // Initialize clients
         this.supabase = createClient(supabaseUrl, supabaseKey, {
           db: {
@@ -69,48 +60,55 @@ class DocumentSubmissionUploader {
             }
           }
         });
-        this.s3Client = new S3Client({
-            region: this.s3Region,
-            credentials: {
-                accessKeyId: awsAccessKey,
-                secretAccessKey: awsSecretKey,
-            },
-        });
+        this.storage = createStorage();
     }
 
     generateSubmissionStoragePath(submissionId: string): string {
         /** Generate storage path for submission using UUID */
-        return `document_submissions/${submissionId}.pdf`;
+        return submissionKey(submissionId);
     }
 
-    async uploadFileToS3(filePath: string, s3Key: string): Promise<boolean> {
-        /** Upload file to S3 */
+    async uploadFileToStorage(filePath: string, key: string): Promise<boolean> {
+        /** Upload file to storage */
         try {
-            const fileContent = fs.readFileSync(filePath);
-            const command = new PutObjectCommand({
-                Bucket: this.s3Bucket,
-                Key: s3Key,
-                Body: fileContent,
-                ContentType: 'application/pdf',
-                Metadata: {
+            await this.storage.putObject(key, fs.readFileSync(filePath), {
+                contentType: 'application/pdf',
+                metadata: {
                     'original-filename': Buffer.from(path.basename(filePath)).toString('base64'),
                     'upload-timestamp': new Date().toISOString(),
                     'type': 'submission',
                 },
             });
-
-            await this.s3Client.send(command);
-            console.log(`✅ Uploaded submission to S3: ${s3Key}`);
+            console.log(`✅ Uploaded submission to ${this.storage.describe(key)}`);
             return true;
         } catch (error) {
-            console.log(`❌ S3 upload failed for ${filePath}:`, error);
+            console.log(`❌ Storage upload failed for ${filePath}:`, error);
             return false;
         }
     }
 
+    async getAnswerKey(documentId: string): Promise<AnswerKey> {
+        /** Fetch the answer key of a document */
+        const { data, error } = await this.supabase
+            .from('documents')
+            .select('correct_answers, question_scores')
+            .eq('id', documentId)
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        return {
+            correct_answers: data.correct_answers || {},
+            question_scores: data.question_scores || {},
+        };
+    }
+
     async uploadSubmissionToSupabase(data: SubmissionData): Promise<string | null> {
-        /** Upload submission data to Supabase and return the submission ID */
+        /** Grade the answers, upload submission data to Supabase and return the submission ID */
         try {
+            const grading = this.grading.grade(await this.getAnswerKey(data.document_id), data.user_answers);
             const submissionId = crypto.randomUUID();
             const storagePath = data.filePath ? this.generateSubmissionStoragePath(submissionId) : '';
 
@@ -120,9 +118,9 @@ class DocumentSubmissionUploader {
                 document_id: data.document_id,
                 storage_path: storagePath,
                 user_answers: data.user_answers,
-                score: data.score || null,
-                incorrect_questions: data.incorrect_questions || [],
-                unanswered_questions: data.unanswered_questions || [],
+                score: grading.score,
+                incorrect_questions: grading.incorrect_questions,
+                unanswered_questions: grading.unanswered_questions,
                 created_at: new Date().toISOString(),
             };
 
@@ -134,7 +132,7 @@ class DocumentSubmissionUploader {
                 throw error;
             }
 
-            console.log(`✅ Uploaded submission to Supabase (ID: ${submissionId})`);
+            console.log(`✅ Uploaded submission to Supabase (ID: ${submissionId}, score: ${grading.score}/${grading.max_score})`);
             return submissionId;
         } catch (error) {
             console.log(`❌ Supabase submission upload failed:`, error);
@@ -165,9 +163,8 @@ class DocumentSubmissionUploader {
                 return false;
             }
 
-            // Upload file to S3
-            const s3Success = await this.uploadFileToS3(data.filePath, storagePath);
-            return s3Success;
+            // Upload file to storage
+            return this.uploadFileToStorage(data.filePath, storagePath);
         }
 
         return true;
@@ -191,7 +188,7 @@ class DocumentSubmissionUploader {
     async uploadMultipleSubmissions(submissions: SubmissionData[]): Promise<void> {
         /** Upload multiple submissions */
         console.log(`📝 Processing ${submissions.length} submissions`);
-        console.log(`📂 S3 Structure: s3://${this.s3Bucket}/document_submissions/{submission_uuid}.pdf`);
+        console.log(`📂 Storage Structure: ${this.storage.describe(submissionKey('{submission_uuid}'))}`);
 
         let successCount = 0;
         for (const submission of submissions) {
@@ -202,7 +199,7 @@ class DocumentSubmissionUploader {
 
         console.log(`\n📊 Upload Summary:`);
         console.log(`✅ Successfully uploaded: ${successCount}/${submissions.length} submissions`);
-        console.log(`📂 Files stored in: s3://${this.s3Bucket}/document_submissions/`);
+        console.log(`📂 Files stored in: ${this.storage.describe('document_submissions/')}`);
     }
 }
 
@@ -220,9 +217,6 @@ async function exampleUsage(): Promise<void> {
             '3': 'C',
             // ... more answers
         },
-        score: 85.5,
-        incorrect_questions: [2, 5, 8],
-        unanswered_questions: [10],
         filePath: '/path/to/submission.pdf', // Optional
     };
 
@@ -235,13 +229,10 @@ async function main(): Promise<void> {
         const uploader = new DocumentSubmissionUploader();
 
         // Check required environment variables
-        const requiredVars = [
-            'SUPABASE_URL',
-            'SUPABASE_ANON_KEY',
-            'AWS_ACCESS_KEY_ID',
-            'AWS_SECRET_ACCESS_KEY',
-            'S3_BUCKET_NAME',
-        ];
+        const requiredVars = ['SUPABASE_URL', 'SUPABASE_ANON_KEY'];
+        if (getStorageDriver() === 's3') {
+            requiredVars.push('AWS_ACCESS_KEY_ID', 'AWS_SECRET_ACCESS_KEY', 'S3_BUCKET_NAME');
+        }
 
         const missingVars = requiredVars.filter(varName => !process.env[varName]);
         if (missingVars.length > 0) {
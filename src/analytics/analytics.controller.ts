@@ -0,0 +1,32 @@
+import { Controller, Get, HttpStatus, Param } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { AnalyticsService } from './analytics.service';
+import { DocumentAnalyticsResponseDto } from './dto/document-analytics.dto';
+import { DocumentIdParamDto } from '../documents/dto/document-query.dto';
+import { ApiErrorResponses } from '../common/api-error-responses';
+
+@ApiTags('analytics')
+@ApiErrorResponses(
+  HttpStatus.BAD_REQUEST,
+  HttpStatus.NOT_FOUND,
+  HttpStatus.SERVICE_UNAVAILABLE,
+)
+@Controller('documents/:id/analytics')
+export class AnalyticsController {
+  constructor(private readonly analyticsService: AnalyticsService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Per-question correct rates, answer distribution and scores',
+  })
+  @ApiOkResponse({ type: DocumentAnalyticsResponseDto })
+  async getDocumentAnalytics(
+    @Param() { id }: DocumentIdParamDto,
+  ): Promise<DocumentAnalyticsResponseDto> {
+    const analytics = await this.analyticsService.getDocumentAnalytics(id);
+    return {
+      success: true,
+      data: analytics,
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import type {
+  GradedSubmission,
+  SubmissionCreatedListener,
+  SubmissionsService,
+} from '../submissions/submissions.service';
+import { AnalyticsService } from './analytics.service';
+
+describe('AnalyticsService', () => {
+  let listener: SubmissionCreatedListener;
+  const getAllForDocument = jest.fn().mockResolvedValue([]);
+  const submissionsService = {
+    onSubmissionCreated: (callback: SubmissionCreatedListener) => {
+      listener = callback;
+    },
+    getAnswerKey: () =>
+      Promise.resolve({
+        answerKey: { correct_answers: { '1': 1 }, question_scores: {} },
+      }),
+    getAllForDocument,
+  } as unknown as SubmissionsService;
+
+  const service = new AnalyticsService(submissionsService);
+  service.onModuleInit();
+
+  it('serves cached results until a submission to the document arrives', async () => {
+    await service.getDocumentAnalytics('doc');
+    await service.getDocumentAnalytics('doc');
+    expect(getAllForDocument).toHaveBeenCalledTimes(1);
+
+    await listener({ document_id: 'other' } as GradedSubmission);
+    await service.getDocumentAnalytics('doc');
+    expect(getAllForDocument).toHaveBeenCalledTimes(1);
+
+    await listener({ document_id: 'doc' } as GradedSubmission);
+    await service.getDocumentAnalytics('doc');
+    expect(getAllForDocument).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,86 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SubmissionsService } from '../submissions/submissions.service';
+import {
+  computeDocumentAnalytics,
+  DocumentAnalytics,
+} from './document-analytics';
+
+const DEFAULT_TTL_SECONDS = 600;
+
+interface CacheEntry {
+  analytics: DocumentAnalytics;
+  builtAt: number;
+}
+
+/**
+ * Per-document analytics, cached in memory. An entry is dropped when a new
+ * submission to the document is stored and otherwise recomputed once it is
+ * older than ANALYTICS_CACHE_TTL_SECONDS.
+ */
+@Injectable()
+export class AnalyticsService implements OnModuleInit {
+  private readonly cache = new Map<string, CacheEntry>();
+  private readonly building = new Map<string, Promise<DocumentAnalytics>>();
+  /** Bumped on invalidation so a computation already running is not cached */
+  private readonly versions = new Map<string, number>();
+
+  constructor(private readonly submissionsService: SubmissionsService) {}
+
+  onModuleInit() {
+    this.submissionsService.onSubmissionCreated((submission) =>
+      this.invalidate(submission.document_id),
+    );
+  }
+
+  private get ttlMs(): number {
+    const seconds = Number(process.env.ANALYTICS_CACHE_TTL_SECONDS);
+    return (
+      (Number.isFinite(seconds) && seconds >= 0
+        ? seconds
+        : DEFAULT_TTL_SECONDS) * 1000
+    );
+  }
+
+  private async compute(documentId: string): Promise<DocumentAnalytics> {
+    const version = this.versions.get(documentId) ?? 0;
+    const { answerKey } =
+      await this.submissionsService.getAnswerKey(documentId);
+    const submissions =
+      await this.submissionsService.getAllForDocument(documentId);
+    const analytics = computeDocumentAnalytics(
+      documentId,
+      answerKey,
+      submissions,
+    );
+    if ((this.versions.get(documentId) ?? 0) === version) {
+      this.cache.set(documentId, { analytics, builtAt: Date.now() });
+    }
+    return analytics;
+  }
+
+  /** Throws NotFoundError when the document does not exist */
+  async getDocumentAnalytics(documentId: string): Promise<DocumentAnalytics> {
+    const cached = this.cache.get(documentId);
+    if (cached && Date.now() - cached.builtAt <= this.ttlMs) {
+      return cached.analytics;
+    }
+
+    // Concurrent readers of one document share a single computation
+    let pending = this.building.get(documentId);
+    if (!pending) {
+      pending = this.compute(documentId).finally(() => {
+        if (this.building.get(documentId) === pending) {
+          this.building.delete(documentId);
+        }
+      });
+      this.building.set(documentId, pending);
+    }
+    return pending;
+  }
+
+  invalidate(documentId: string): void {
+    this.versions.set(documentId, (this.versions.get(documentId) ?? 0) + 1);
+    this.cache.delete(documentId);
+    this.building.delete(documentId);
+  }
+}
@@ -0,0 +1,70 @@
+import type { AnswerKey } from '../submissions/grading.service';
+import type { Submission } from '../submissions/submissions.service';
+import { computeDocumentAnalytics } from './document-analytics';
+
+const answerKey: AnswerKey = {
+  correct_answers: { '1': 3, '2': 5 },
+  question_scores: { '1': 4, '2': 6 },
+};
+
+function submission(
+  user_answers: Submission['user_answers'],
+  score: number,
+  incorrect: number[],
+  unanswered: number[],
+  duration_seconds?: number,
+): Submission {
+  return {
+    id: String(score),
+    user_id: 'user',
+    document_id: 'doc',
+    storage_path: null,
+    user_answers,
+    score,
+    incorrect_questions: incorrect,
+    unanswered_questions: unanswered,
+    duration_seconds,
+    created_at: '2024-11-14T00:00:00Z',
+  };
+}
+
+describe('computeDocumentAnalytics', () => {
+  const submissions = [
+    submission({ '1': '③', '2': 5 }, 10, [], [], 1200),
+    submission({ '1': 3, '2': 2 }, 4, [2], [], 1800),
+    submission({ '1': 1, '2': 2 }, 0, [1, 2], []),
+    submission({ '1': 3 }, 4, [], [2]),
+  ];
+  const analytics = computeDocumentAnalytics('doc', answerKey, submissions);
+
+  it('counts correct, incorrect and unanswered per question', () => {
+    expect(analytics.questions[1]).toMatchObject({
+      question: 2,
+      points: 6,
+      correct_count: 1,
+      incorrect_count: 2,
+      unanswered_count: 1,
+      correct_rate: 0.25,
+    });
+    expect(analytics.killer_questions).toEqual([2]);
+  });
+
+  it('lists the answers chosen, most frequent first', () => {
+    expect(analytics.questions[1].choices).toEqual([
+      { answer: '2', count: 2, rate: 0.5, is_correct: false },
+      { answer: '5', count: 1, rate: 0.25, is_correct: true },
+    ]);
+  });
+
+  it('summarizes scores and reported durations', () => {
+    expect(analytics).toMatchObject({
+      submission_count: 4,
+      max_score: 10,
+      average_score: 4.5,
+      average_duration_seconds: 1500,
+    });
+    expect(analytics.score_histogram.map((bucket) => bucket.count)).toEqual([
+      1, 0, 0, 0, 2, 0, 0, 0, 0, 1,
+    ]);
+  });
+});
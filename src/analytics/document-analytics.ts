@@ -0,0 +1,178 @@
+import { normalizeAnswer } from '../submissions/grading.service';
+import type { AnswerKey } from '../submissions/grading.service';
+import type { Submission } from '../submissions/submissions.service';
+
+/** How often one answer was given to a question */
+export interface ChoiceCount {
+  /** Normalized answer, as in QuestionResult.user_answer */
+  answer: string;
+  count: number;
+  /** Share of all submissions, 0 to 1 */
+  rate: number;
+  is_correct: boolean;
+}
+
+export interface QuestionAnalytics {
+  question: number;
+  points: number;
+  correct_answers: string[];
+  correct_count: number;
+  incorrect_count: number;
+  unanswered_count: number;
+  /** Correct answers over all submissions, or null without submissions */
+  correct_rate: number | null;
+  /** Answers given, most frequent first; the distractor analysis */
+  choices: ChoiceCount[];
+}
+
+export interface ScoreBucket {
+  /** Inclusive lower bound */
+  min: number;
+  /** Exclusive upper bound, except for the last bucket which includes it */
+  max: number;
+  count: number;
+}
+
+export interface DocumentAnalytics {
+  document_id: string;
+  submission_count: number;
+  max_score: number;
+  average_score: number | null;
+  /** Average over submissions that reported a duration, else null */
+  average_duration_seconds: number | null;
+  questions: QuestionAnalytics[];
+  /** Questions below KILLER_CORRECT_RATE, hardest first */
+  killer_questions: number[];
+  score_histogram: ScoreBucket[];
+  computed_at: string;
+}
+
+/** Correct rate under which a question counts as a killer (킬러) item */
+export const KILLER_CORRECT_RATE = 0.3;
+
+const HISTOGRAM_BUCKETS = 10;
+
+function round(value: number, digits = 3): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return round(
+    values.reduce((sum, value) => sum + value, 0) / values.length,
+    1,
+  );
+}
+
+function scoreHistogram(scores: number[], maxScore: number): ScoreBucket[] {
+  if (maxScore <= 0) return [];
+
+  const width = maxScore / HISTOGRAM_BUCKETS;
+  const buckets = Array.from({ length: HISTOGRAM_BUCKETS }, (_, index) => ({
+    min: round(index * width),
+    max: round((index + 1) * width),
+    count: 0,
+  }));
+  for (const score of scores) {
+    const index = Math.min(
+      Math.max(Math.floor(score / width), 0),
+      HISTOGRAM_BUCKETS - 1,
+    );
+    buckets[index].count++;
+  }
+  return buckets;
+}
+
+/**
+ * Aggregate every submission of a document. Correctness comes from the
+ * incorrect_questions and unanswered_questions stored at grading time, so
+ * a later answer-key fix only shows once those submissions are regraded.
+ */
+export function computeDocumentAnalytics(
+  documentId: string,
+  answerKey: AnswerKey,
+  submissions: Submission[],
+): DocumentAnalytics {
+  const questions = Object.keys(answerKey.correct_answers)
+    .map(Number)
+    .sort((a, b) => a - b);
+  const hasScores = Object.keys(answerKey.question_scores).length > 0;
+  const pointsOf = (question: number) =>
+    hasScores ? (answerKey.question_scores[String(question)] ?? 0) : 1;
+  const maxScore = questions.reduce(
+    (sum, question) => sum + pointsOf(question),
+    0,
+  );
+  const total = submissions.length;
+
+  const questionAnalytics = questions.map((question): QuestionAnalytics => {
+    const correctAnswers = [answerKey.correct_answers[String(question)]]
+      .flat()
+      .map(normalizeAnswer)
+      .filter((value): value is string => value !== null);
+
+    let incorrect = 0;
+    let unanswered = 0;
+    const counts = new Map<string, number>();
+    for (const submission of submissions) {
+      if (submission.unanswered_questions?.includes(question)) {
+        unanswered++;
+      } else if (submission.incorrect_questions?.includes(question)) {
+        incorrect++;
+      }
+
+      const answer = normalizeAnswer(
+        submission.user_answers?.[String(question)],
+      );
+      if (answer !== null) {
+        counts.set(answer, (counts.get(answer) ?? 0) + 1);
+      }
+    }
+    const correct = total - incorrect - unanswered;
+
+    return {
+      question,
+      points: pointsOf(question),
+      correct_answers: correctAnswers,
+      correct_count: correct,
+      incorrect_count: incorrect,
+      unanswered_count: unanswered,
+      correct_rate: total > 0 ? round(correct / total) : null,
+      choices: [...counts.entries()]
+        .map(([answer, count]) => ({
+          answer,
+          count,
+          rate: round(count / total),
+          is_correct: correctAnswers.includes(answer),
+        }))
+        .sort((a, b) => b.count - a.count || a.answer.localeCompare(b.answer)),
+    };
+  });
+
+  const scores = submissions
+    .map((submission) => submission.score)
+    .filter((score): score is number => typeof score === 'number');
+  const durations = submissions
+    .map((submission) => submission.duration_seconds)
+    .filter((seconds): seconds is number => typeof seconds === 'number');
+
+  return {
+    document_id: documentId,
+    submission_count: total,
+    max_score: maxScore,
+    average_score: average(scores),
+    average_duration_seconds: average(durations),
+    questions: questionAnalytics,
+    killer_questions: questionAnalytics
+      .filter(
+        (entry) =>
+          entry.correct_rate !== null &&
+          entry.correct_rate < KILLER_CORRECT_RATE,
+      )
+      .sort((a, b) => (a.correct_rate ?? 0) - (b.correct_rate ?? 0))
+      .map((entry) => entry.question),
+    score_histogram: scoreHistogram(scores, maxScore),
+    computed_at: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,106 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiSuccessDto } from '../../common/dto/api-response.dto';
+import type {
+  ChoiceCount,
+  DocumentAnalytics,
+  QuestionAnalytics,
+  ScoreBucket,
+} from '../document-analytics';
+
+export class ChoiceCountDto implements ChoiceCount {
+  @ApiProperty({ example: '3' })
+  answer: string;
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+
+  @ApiProperty({ description: 'Share of all submissions, 0 to 1' })
+  rate: number;
+
+  @ApiProperty()
+  is_correct: boolean;
+}
+
+export class QuestionAnalyticsDto implements QuestionAnalytics {
+  @ApiProperty({ type: 'integer' })
+  question: number;
+
+  @ApiProperty()
+  points: number;
+
+  @ApiProperty({ type: [String], example: ['3'] })
+  correct_answers: string[];
+
+  @ApiProperty({ type: 'integer' })
+  correct_count: number;
+
+  @ApiProperty({ type: 'integer' })
+  incorrect_count: number;
+
+  @ApiProperty({ type: 'integer' })
+  unanswered_count: number;
+
+  @ApiProperty({ type: Number, nullable: true, example: 0.42 })
+  correct_rate: number | null;
+
+  @ApiProperty({
+    type: [ChoiceCountDto],
+    description: 'Answers given, most frequent first',
+  })
+  choices: ChoiceCountDto[];
+}
+
+export class ScoreBucketDto implements ScoreBucket {
+  @ApiProperty({ description: 'Inclusive lower bound' })
+  min: number;
+
+  @ApiProperty({
+    description: 'Exclusive upper bound; the last bucket includes it',
+  })
+  max: number;
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+}
+
+export class DocumentAnalyticsDto implements DocumentAnalytics {
+  @ApiProperty({ format: 'uuid' })
+  document_id: string;
+
+  @ApiProperty({ type: 'integer' })
+  submission_count: number;
+
+  @ApiProperty()
+  max_score: number;
+
+  @ApiProperty({ type: Number, nullable: true })
+  average_score: number | null;
+
+  @ApiProperty({
+    type: Number,
+    nullable: true,
+    description: 'Over submissions that reported duration_seconds',
+  })
+  average_duration_seconds: number | null;
+
+  @ApiProperty({ type: [QuestionAnalyticsDto] })
+  questions: QuestionAnalyticsDto[];
+
+  @ApiProperty({
+    type: 'integer',
+    isArray: true,
+    description: 'Questions answered correctly by under 30%, hardest first',
+  })
+  killer_questions: number[];
+
+  @ApiProperty({ type: [ScoreBucketDto] })
+  score_histogram: ScoreBucketDto[];
+
+  @ApiProperty({ format: 'date-time' })
+  computed_at: string;
+}
+
+export class DocumentAnalyticsResponseDto extends ApiSuccessDto {
+  @ApiProperty()
+  data: DocumentAnalyticsDto;
+}
@@ -0,0 +1,95 @@
+import {
+  extractAnswerKey,
+  hasTextLayer,
+  PdfTextItem,
+} from './answer-key-extractor';
+
+/** One text item per cell, rows laid out top to bottom */
+function table(rows: string[][]): PdfTextItem[] {
+  return rows.flatMap((cells, row) =>
+    cells.map((text, column) => ({
+      page: 1,
+      x: 50 + column * 30,
+      y: 700 - row * 20,
+      text,
+    })),
+  );
+}
+
+const CHOICES = ['①', '②', '③', '④', '⑤'];
+
+/** 20-question 탐구 정답표 in two column groups, 50 points in total */
+function inquiryTable(): string[][] {
+  const rows = [
+    ['문항', '번호', '정답', '배점', '문항', '번호', '정답', '배점'],
+  ];
+  for (let question = 1; question <= 10; question++) {
+    rows.push([
+      String(question),
+      CHOICES[question % 5],
+      '2',
+      String(question + 10),
+      CHOICES[(question + 10) % 5],
+      '3',
+    ]);
+  }
+  return rows;
+}
+
+describe('extractAnswerKey', () => {
+  it('reads question, answer and points across the row', () => {
+    const { key, issues } = extractAnswerKey(table(inquiryTable()), {
+      category: '과학탐구',
+    });
+
+    expect(issues).toEqual([]);
+    expect(Object.keys(key.correct_answers)).toHaveLength(20);
+    expect(key.correct_answers['1']).toBe(2);
+    expect(key.correct_answers['14']).toBe(5);
+    expect(key.question_scores['14']).toBe(3);
+  });
+
+  it('reports PDFs without a text layer', () => {
+    expect(hasTextLayer(table([[' ', '']]))).toBe(false);
+    expect(extractAnswerKey([], { category: '과학탐구' }).issues).toEqual([
+      {
+        message:
+          'The PDF has no text layer (scanned or outlined text); enter the key by hand',
+      },
+    ]);
+  });
+
+  it('reads only the common part and the chosen elective', () => {
+    const { key } = extractAnswerKey(
+      table([
+        ['1', '②', '2', '22', '128', '4'],
+        ['확률과 통계'],
+        ['23', '③', '2'],
+        ['미적분'],
+        ['23', '⑤', '2'],
+      ]),
+      { category: '수학', selection: '미적분' },
+    );
+
+    expect(key.correct_answers).toEqual({ '1': 2, '22': 128, '23': 5 });
+  });
+
+  it('flags cells it cannot read with confidence', () => {
+    const rows = inquiryTable();
+    rows[3] = ['3', '4', '2', '13', '④', '3'];
+    rows.push(['13', '①', '3', '⑤']);
+
+    const { issues } = extractAnswerKey(table(rows), {
+      category: '과학탐구',
+    });
+
+    expect(issues).toEqual([
+      { message: 'Could not read: ⑤' },
+      {
+        question: 13,
+        message: 'Read twice with different values (4/3 and 1/3)',
+      },
+      { question: 3, message: 'Answer 4 was not printed as a circled choice' },
+    ]);
+  });
+});
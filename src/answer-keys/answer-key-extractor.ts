@@ -0,0 +1,244 @@
+import { normalizeAnswer } from '../submissions/grading.service';
+import type { AnswerKey } from '../submissions/grading.service';
+import { allowsShortAnswers, validateAnswerKey } from './answer-key.validator';
+
+/** A run of text on a PDF page; y grows upwards as in PDF coordinates */
+export interface PdfTextItem {
+  page: number;
+  x: number;
+  y: number;
+  text: string;
+}
+
+/** Something a person has to check before the key can be trusted */
+export interface ExtractionIssue {
+  question?: number;
+  message: string;
+}
+
+export interface AnswerKeyExtraction {
+  key: AnswerKey;
+  issues: ExtractionIssue[];
+}
+
+export interface ExtractAnswerKeyOptions {
+  /** Decides the expected point total and whether short answers are allowed */
+  category: string;
+  /**
+   * 선택과목 of the problem document. The 국어 and 수학 정답표 list every
+   * elective under its own heading; only the common part and this one are read.
+   */
+  selection?: string;
+}
+
+/** Elective headings printed above their part of the 정답표 */
+const ELECTIVE_HEADINGS = [
+  '화법과 작문',
+  '언어와 매체',
+  '확률과 통계',
+  '미적분',
+  '기하',
+];
+
+/** Point values used on CSAT-style papers */
+const USUAL_POINTS = [2, 3, 4];
+
+const MAX_QUESTION = 50;
+
+/** Items whose baselines are this close are on the same table row */
+const LINE_TOLERANCE = 2;
+
+const CIRCLED_CHOICE = /^[①-⑤]$/;
+
+interface Token {
+  text: string;
+  /** Elective heading the token appears under, if any */
+  section?: string;
+}
+
+interface Entry {
+  question: number;
+  answer: number;
+  points: number;
+  section?: string;
+  circled: boolean;
+}
+
+function toLines(items: PdfTextItem[]): PdfTextItem[][] {
+  const sorted = [...items]
+    .filter((item) => item.text.trim().length > 0)
+    .sort((a, b) => a.page - b.page || b.y - a.y || a.x - b.x);
+
+  const lines: PdfTextItem[][] = [];
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (
+      line &&
+      line[0].page === item.page &&
+      Math.abs(line[0].y - item.y) <= LINE_TOLERANCE
+    ) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+  return lines.map((line) => line.sort((a, b) => a.x - b.x));
+}
+
+function tokenize(items: PdfTextItem[]): Token[] {
+  const tokens: Token[] = [];
+  let section: string | undefined;
+
+  for (const line of toLines(items)) {
+    let text = line.map((item) => item.text).join(' ');
+    const heading = ELECTIVE_HEADINGS.find((name) =>
+      text.replace(/\s+/g, '').includes(name.replace(/\s+/g, '')),
+    );
+    if (heading) {
+      section = heading;
+      text = text.replace(heading, ' ');
+    }
+
+    // Circled choices are often set without a space after the number
+    for (const word of text.replace(/([①-⑤])/g, ' $1 ').split(/\s+/)) {
+      if (word.length > 0) tokens.push({ text: word, section });
+    }
+  }
+  return tokens;
+}
+
+function asInteger(text: string): number | null {
+  const normalized = normalizeAnswer(text);
+  if (normalized === null || !/^\d+$/.test(normalized)) return null;
+  return Number(normalized);
+}
+
+function readEntries(tokens: Token[]): {
+  entries: Entry[];
+  unread: string[];
+} {
+  const entries: Entry[] = [];
+  const unread: string[] = [];
+
+  for (let i = 0; i < tokens.length; i++) {
+    const question = asInteger(tokens[i].text);
+    const answer = tokens[i + 1] ? asInteger(tokens[i + 1].text) : null;
+    const points = tokens[i + 2] ? asInteger(tokens[i + 2].text) : null;
+
+    if (
+      question !== null &&
+      question >= 1 &&
+      question <= MAX_QUESTION &&
+      answer !== null &&
+      points !== null &&
+      !CIRCLED_CHOICE.test(tokens[i].text) &&
+      !CIRCLED_CHOICE.test(tokens[i + 2].text)
+    ) {
+      entries.push({
+        question,
+        answer,
+        points,
+        section: tokens[i].section,
+        circled: CIRCLED_CHOICE.test(tokens[i + 1].text),
+      });
+      i += 2;
+    } else if (
+      CIRCLED_CHOICE.test(tokens[i].text) ||
+      (question !== null && question >= 1 && question <= MAX_QUESTION)
+    ) {
+      // Headers and titles are expected; stray numbers and choices are not
+      unread.push(tokens[i].text);
+    }
+  }
+  return { entries, unread };
+}
+
+/**
+ * False for scanned or outlined PDFs, whose pages carry no text to read.
+ * The shipped 평가원 정답표 PDFs are scans, so their keys are entered by hand.
+ */
+export function hasTextLayer(items: PdfTextItem[]): boolean {
+  return items.some((item) => item.text.trim().length > 0);
+}
+
+/**
+ * Read a 평가원 정답표 (question number, answer, points, repeated across the
+ * row) from the text of an answer PDF. Never throws on odd input: anything
+ * it cannot read with confidence ends up in `issues`, and a key with issues
+ * should be reviewed before it is stored.
+ */
+export function extractAnswerKey(
+  items: PdfTextItem[],
+  options: ExtractAnswerKeyOptions,
+): AnswerKeyExtraction {
+  const key: AnswerKey = { correct_answers: {}, question_scores: {} };
+  if (!hasTextLayer(items)) {
+    return {
+      key,
+      issues: [
+        {
+          message:
+            'The PDF has no text layer (scanned or outlined text); enter the key by hand',
+        },
+      ],
+    };
+  }
+
+  const issues: ExtractionIssue[] = [];
+  const { entries, unread } = readEntries(tokenize(items));
+  if (unread.length > 0) {
+    issues.push({ message: `Could not read: ${unread.join(' ')}` });
+  }
+
+  const shortAnswers = allowsShortAnswers(options.category);
+  const found = new Map<number, Entry>();
+  for (const entry of entries) {
+    if (entry.section && entry.section !== options.selection) continue;
+
+    const previous = found.get(entry.question);
+    // An elective's own numbering replaces the common table's
+    if (previous && !previous.section && entry.section) {
+      found.set(entry.question, entry);
+      continue;
+    }
+    if (
+      previous &&
+      (previous.answer !== entry.answer || previous.points !== entry.points)
+    ) {
+      issues.push({
+        question: entry.question,
+        message: `Read twice with different values (${previous.answer}/${previous.points} and ${entry.answer}/${entry.points})`,
+      });
+      continue;
+    }
+    found.set(entry.question, entry);
+  }
+
+  for (const entry of [...found.values()].sort(
+    (a, b) => a.question - b.question,
+  )) {
+    key.correct_answers[String(entry.question)] = entry.answer;
+    key.question_scores[String(entry.question)] = entry.points;
+
+    if (!entry.circled && !shortAnswers) {
+      issues.push({
+        question: entry.question,
+        message: `Answer ${entry.answer} was not printed as a circled choice`,
+      });
+    }
+    if (!USUAL_POINTS.includes(entry.points)) {
+      issues.push({
+        question: entry.question,
+        message: `Unusual point value ${entry.points}`,
+      });
+    }
+  }
+
+  if (found.size === 0) {
+    issues.push({ message: 'No answer table found' });
+    return { key, issues };
+  }
+
+  issues.push(...validateAnswerKey(key, options.category));
+  return { key, issues };
+}
@@ -0,0 +1,59 @@
+import { AnswerKey } from '../submissions/grading.service';
+import { validateAnswerKey } from './answer-key.validator';
+
+/** 20 questions worth 2 or 3 points, 50 in total */
+function inquiryKey(): AnswerKey {
+  const key: AnswerKey = { correct_answers: {}, question_scores: {} };
+  for (let question = 1; question <= 20; question++) {
+    key.correct_answers[String(question)] = (question % 5) + 1;
+    key.question_scores[String(question)] = question <= 10 ? 2 : 3;
+  }
+  return key;
+}
+
+describe('validateAnswerKey', () => {
+  it('accepts a complete 탐구 key', () => {
+    expect(validateAnswerKey(inquiryKey(), '과학탐구')).toEqual([]);
+  });
+
+  it('reports gaps in question numbers', () => {
+    const key = inquiryKey();
+    delete key.correct_answers['7'];
+
+    expect(validateAnswerKey(key, '과학탐구')).toContainEqual({
+      message: 'Questions must be numbered 1 to 20 without gaps; missing 7',
+    });
+  });
+
+  it('allows numeric short answers only for 수학', () => {
+    const key = inquiryKey();
+    key.correct_answers['20'] = 128;
+
+    expect(validateAnswerKey(key, '과학탐구')).toEqual([
+      {
+        question: 20,
+        message: 'Answer 128 must be a choice from 1 to 5',
+      },
+    ]);
+    expect(
+      validateAnswerKey(key, '수학').filter((issue) => issue.question === 20),
+    ).toEqual([]);
+  });
+
+  it('checks the point total against the paper', () => {
+    expect(validateAnswerKey(inquiryKey(), '국어')).toEqual([
+      { message: 'Point values add up to 50, expected 100 for 국어' },
+    ]);
+  });
+
+  it('requires a point value for every question', () => {
+    const key = inquiryKey();
+    delete key.question_scores['3'];
+    key.question_scores['21'] = 2;
+
+    expect(validateAnswerKey(key, '과학탐구')).toEqual([
+      { question: 21, message: 'Point value for a question with no answer' },
+      { question: 3, message: 'Point value must be a positive number' },
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+import type { AnswerKey } from '../submissions/grading.service';
+
+/** Total points of one paper: 50 for 탐구, 한국사 and 제2외국어, 100 otherwise */
+const EXAM_TOTAL_POINTS: Record<string, number> = {
+  사회탐구: 50,
+  과학탐구: 50,
+  직업탐구: 50,
+  한국사: 50,
+  제2외국어: 50,
+};
+const DEFAULT_EXAM_TOTAL_POINTS = 100;
+
+/** Categories with short-answer (주관식) questions answered by a number */
+const SHORT_ANSWER_CATEGORIES = ['수학'];
+
+const MIN_CHOICE = 1;
+const MAX_CHOICE = 5;
+const MAX_SHORT_ANSWER = 999;
+
+export interface AnswerKeyIssue {
+  /** Question the issue is about, absent for key-wide issues */
+  question?: number;
+  message: string;
+}
+
+export function expectedTotalPoints(category: string): number {
+  return EXAM_TOTAL_POINTS[category] ?? DEFAULT_EXAM_TOTAL_POINTS;
+}
+
+export function allowsShortAnswers(category: string): boolean {
+  return SHORT_ANSWER_CATEGORIES.includes(category);
+}
+
+function questionNumbers(record: object): number[] {
+  return Object.keys(record)
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+function checkAnswer(
+  question: number,
+  answer: unknown,
+  allowShortAnswer: boolean,
+): AnswerKeyIssue[] {
+  const values = Array.isArray(answer) ? answer : [answer];
+  if (values.length === 0) {
+    return [{ question, message: 'No accepted answer' }];
+  }
+
+  const issues: AnswerKeyIssue[] = [];
+  for (const value of values) {
+    const isChoice =
+      Number.isInteger(value) &&
+      (value as number) >= MIN_CHOICE &&
+      (value as number) <= MAX_CHOICE;
+    const isShortAnswer =
+      allowShortAnswer &&
+      Number.isInteger(value) &&
+      (value as number) >= 0 &&
+      (value as number) <= MAX_SHORT_ANSWER;
+
+    if (!isChoice && !isShortAnswer) {
+      issues.push({
+        question,
+        message: allowShortAnswer
+          ? `Answer ${JSON.stringify(value)} must be a choice from ${MIN_CHOICE} to ${MAX_CHOICE} or an integer from 0 to ${MAX_SHORT_ANSWER}`
+          : `Answer ${JSON.stringify(value)} must be a choice from ${MIN_CHOICE} to ${MAX_CHOICE}`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Check an answer key before it is stored: questions numbered 1..N without
+ * gaps, a point value for every question and none for others, 5-choice
+ * answers (plus numeric short answers for 수학), and points adding up to the
+ * paper's total. Returns every problem found, or an empty list.
+ */
+export function validateAnswerKey(
+  key: AnswerKey,
+  category: string,
+): AnswerKeyIssue[] {
+  const issues: AnswerKeyIssue[] = [];
+  const answers = key.correct_answers ?? {};
+  const scores = key.question_scores ?? {};
+
+  const invalidNumbers = [
+    ...Object.keys(answers),
+    ...Object.keys(scores),
+  ].filter((question) => !/^[1-9]\d*$/.test(question));
+  if (invalidNumbers.length > 0) {
+    return [
+      {
+        message: `Question numbers must be positive integers, got ${[...new Set(invalidNumbers)].join(', ')}`,
+      },
+    ];
+  }
+
+  const questions = questionNumbers(answers);
+  if (questions.length === 0) {
+    return [{ message: 'The answer key has no questions' }];
+  }
+
+  const last = questions[questions.length - 1];
+  const present = new Set(questions);
+  const gaps: number[] = [];
+  for (let question = 1; question <= last; question++) {
+    if (!present.has(question)) gaps.push(question);
+  }
+  if (gaps.length > 0) {
+    issues.push({
+      message: `Questions must be numbered 1 to ${last} without gaps; missing ${gaps.join(', ')}`,
+    });
+  }
+
+  const allowShortAnswer = allowsShortAnswers(category);
+  for (const question of questions) {
+    issues.push(
+      ...checkAnswer(question, answers[String(question)], allowShortAnswer),
+    );
+  }
+
+  for (const question of questionNumbers(scores)) {
+    if (!present.has(question)) {
+      issues.push({
+        question,
+        message: 'Point value for a question with no answer',
+      });
+    }
+  }
+
+  let total = 0;
+  for (const question of questions) {
+    const points = scores[String(question)];
+    if (typeof points !== 'number' || !Number.isFinite(points) || points <= 0) {
+      issues.push({
+        question,
+        message: 'Point value must be a positive number',
+      });
+    } else {
+      total += points;
+    }
+  }
+
+  const expected = expectedTotalPoints(category);
+  if (issues.length === 0 && total !== expected) {
+    issues.push({
+      message: `Point values add up to ${total}, expected ${expected} for ${category}`,
+    });
+  }
+
+  return issues;
+}
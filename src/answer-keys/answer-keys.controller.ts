@@ -0,0 +1,119 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  Patch,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  AnswerKeysService,
+  DEFAULT_REVISION_SORT,
+  REVISION_SORT_FIELDS,
+} from './answer-keys.service';
+import { PatchAnswerKeyDto, PutAnswerKeyDto } from './dto/answer-key.dto';
+import {
+  AnswerKeyRevisionListResponseDto,
+  DocumentAnswerKeyResponseDto,
+} from './dto/answer-key-response.dto';
+import { DocumentIdParamDto } from '../documents/dto/document-query.dto';
+import { ApiErrorResponses } from '../common/api-error-responses';
+import { ListQueryDto } from '../common/dto/list-query.dto';
+import { parseListQuery } from '../common/pagination';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { ADMIN_ROLE, Roles, RolesGuard } from '../auth/roles.guard';
+
+/** Filling in and correcting answer keys; needs the admin role */
+@ApiTags('answer-keys')
+@ApiBearerAuth()
+@ApiErrorResponses(
+  HttpStatus.BAD_REQUEST,
+  HttpStatus.UNAUTHORIZED,
+  HttpStatus.FORBIDDEN,
+  HttpStatus.NOT_FOUND,
+  HttpStatus.SERVICE_UNAVAILABLE,
+)
+@Roles(ADMIN_ROLE)
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('documents/:id/answer-key')
+export class AnswerKeysController {
+  constructor(private readonly answerKeysService: AnswerKeysService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the answer key of a document' })
+  @ApiOkResponse({ type: DocumentAnswerKeyResponseDto })
+  async getAnswerKey(
+    @Param() { id }: DocumentIdParamDto,
+  ): Promise<DocumentAnswerKeyResponseDto> {
+    const answerKey = await this.answerKeysService.getAnswerKey(id);
+    return {
+      success: true,
+      data: answerKey,
+    };
+  }
+
+  @Put()
+  @ApiOperation({ summary: 'Replace the answer key of a document' })
+  @ApiOkResponse({ type: DocumentAnswerKeyResponseDto })
+  async replaceAnswerKey(
+    @Param() { id }: DocumentIdParamDto,
+    @Body() { note, ...key }: PutAnswerKeyDto,
+  ): Promise<DocumentAnswerKeyResponseDto> {
+    const answerKey = await this.answerKeysService.replaceAnswerKey(
+      id,
+      key,
+      note,
+    );
+    return {
+      success: true,
+      data: answerKey,
+    };
+  }
+
+  @Patch()
+  @ApiOperation({ summary: 'Change some questions of the answer key' })
+  @ApiOkResponse({ type: DocumentAnswerKeyResponseDto })
+  async patchAnswerKey(
+    @Param() { id }: DocumentIdParamDto,
+    @Body() { note, ...patch }: PatchAnswerKeyDto,
+  ): Promise<DocumentAnswerKeyResponseDto> {
+    const answerKey = await this.answerKeysService.patchAnswerKey(
+      id,
+      patch,
+      note,
+    );
+    return {
+      success: true,
+      data: answerKey,
+    };
+  }
+
+  @Get('revisions')
+  @ApiOperation({ summary: 'Change history of the answer key' })
+  @ApiOkResponse({ type: AnswerKeyRevisionListResponseDto })
+  async getRevisions(
+    @Param() { id }: DocumentIdParamDto,
+    @Query() listQuery: ListQueryDto,
+  ): Promise<AnswerKeyRevisionListResponseDto> {
+    const page = await this.answerKeysService.listRevisions(
+      id,
+      parseListQuery(listQuery, REVISION_SORT_FIELDS, DEFAULT_REVISION_SORT),
+    );
+    return {
+      success: true,
+      data: page.data,
+      count: page.data.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
+    };
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { AnswerKeysController } from './answer-keys.controller';
+import { AnswerKeysService } from './answer-keys.service';
+
+@Module({
+  controllers: [AnswerKeysController],
+  providers: [AnswerKeysService],
+  exports: [AnswerKeysService],
+})
+export class AnswerKeysModule {}
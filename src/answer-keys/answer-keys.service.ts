@@ -0,0 +1,219 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { SupabaseService } from '../supabase/supabase.service';
+import { fromPostgrestError } from '../supabase/postgrest-error';
+import { ValidationError } from '../common/errors';
+import {
+  ListOptions,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../common/pagination';
+import type { AnswerKey, AnswerValue } from '../submissions/grading.service';
+import { expectedTotalPoints, validateAnswerKey } from './answer-key.validator';
+
+/** A document's answer key with the figures admins check it against */
+export interface DocumentAnswerKey extends AnswerKey {
+  document_id: string;
+  category: string;
+  question_count: number;
+  total_points: number;
+  expected_total_points: number;
+}
+
+/** Questions to set; a null value removes the question */
+export interface AnswerKeyPatch {
+  correct_answers?: Record<string, AnswerValue | AnswerValue[] | null>;
+  question_scores?: Record<string, number | null>;
+}
+
+/** A row of answer_key_revisions: the key before and after one edit */
+export interface AnswerKeyRevision {
+  id: string;
+  document_id: string;
+  correct_answers: AnswerKey['correct_answers'];
+  question_scores: AnswerKey['question_scores'];
+  previous_correct_answers: AnswerKey['correct_answers'];
+  previous_question_scores: AnswerKey['question_scores'];
+  note: string | null;
+  created_at: string;
+}
+
+export const REVISION_SORT_FIELDS = ['created_at'] as const;
+
+export type RevisionSortField = (typeof REVISION_SORT_FIELDS)[number];
+
+export const DEFAULT_REVISION_SORT = {
+  sort: 'created_at' as RevisionSortField,
+  order: 'desc' as const,
+};
+
+type AnswerKeyRow = AnswerKey & { id: string; category: string };
+
+function applyPatch<T>(
+  current: Record<string, T>,
+  patch: Record<string, T | null> = {},
+): Record<string, T> {
+  const next = { ...current };
+  for (const [question, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete next[question];
+    } else {
+      next[question] = value;
+    }
+  }
+  return next;
+}
+
+@Injectable()
+export class AnswerKeysService {
+  constructor(private readonly supabaseService: SupabaseService) {}
+
+  private async fetchRow(documentId: string): Promise<AnswerKeyRow> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('documents')
+      .select('id, category, correct_answers, question_scores')
+      .eq('id', documentId)
+      .is('deleted_at', null)
+      .single<AnswerKeyRow>();
+
+    if (error) {
+      throw fromPostgrestError(
+        error,
+        'Failed to fetch answer key',
+        `Document ${documentId} not found`,
+      );
+    }
+
+    return {
+      ...data,
+      correct_answers: data.correct_answers ?? {},
+      question_scores: data.question_scores ?? {},
+    };
+  }
+
+  private toDocumentAnswerKey(row: AnswerKeyRow): DocumentAnswerKey {
+    return {
+      document_id: row.id,
+      category: row.category,
+      correct_answers: row.correct_answers,
+      question_scores: row.question_scores,
+      question_count: Object.keys(row.correct_answers).length,
+      total_points: Object.values(row.question_scores).reduce(
+        (sum, points) => sum + points,
+        0,
+      ),
+      expected_total_points: expectedTotalPoints(row.category),
+    };
+  }
+
+  async getAnswerKey(documentId: string): Promise<DocumentAnswerKey> {
+    return this.toDocumentAnswerKey(await this.fetchRow(documentId));
+  }
+
+  /**
+   * Validate and store a key, then record the edit in answer_key_revisions.
+   * The two writes are not atomic; a failed revision insert is reported as
+   * an error even though the key itself was saved.
+   */
+  private async saveAnswerKey(
+    current: AnswerKeyRow,
+    next: AnswerKey,
+    note?: string,
+  ): Promise<DocumentAnswerKey> {
+    const issues = validateAnswerKey(next, current.category);
+    if (issues.length > 0) {
+      throw new ValidationError('Invalid answer key', { issues });
+    }
+
+    const supabase = this.supabaseService.getAdminClient();
+    const { error } = await supabase
+      .from('documents')
+      .update({
+        correct_answers: next.correct_answers,
+        question_scores: next.question_scores,
+      })
+      .eq('id', current.id);
+
+    if (error) {
+      throw fromPostgrestError(error, 'Failed to save answer key');
+    }
+
+    const revision: AnswerKeyRevision = {
+      id: randomUUID(),
+      document_id: current.id,
+      correct_answers: next.correct_answers,
+      question_scores: next.question_scores,
+      previous_correct_answers: current.correct_answers,
+      previous_question_scores: current.question_scores,
+      note: note ?? null,
+      created_at: new Date().toISOString(),
+    };
+    const { error: revisionError } = await supabase
+      .from('answer_key_revisions')
+      .insert(revision);
+
+    if (revisionError) {
+      throw fromPostgrestError(
+        revisionError,
+        'Answer key saved but its revision was not recorded',
+      );
+    }
+
+    return this.toDocumentAnswerKey({ ...current, ...next });
+  }
+
+  /** Replace the whole key */
+  async replaceAnswerKey(
+    documentId: string,
+    key: AnswerKey,
+    note?: string,
+  ): Promise<DocumentAnswerKey> {
+    const current = await this.fetchRow(documentId);
+    return this.saveAnswerKey(current, key, note);
+  }
+
+  /** Change some questions; the resulting key is validated as a whole */
+  async patchAnswerKey(
+    documentId: string,
+    patch: AnswerKeyPatch,
+    note?: string,
+  ): Promise<DocumentAnswerKey> {
+    const current = await this.fetchRow(documentId);
+    return this.saveAnswerKey(
+      current,
+      {
+        correct_answers: applyPatch(
+          current.correct_answers,
+          patch.correct_answers,
+        ),
+        question_scores: applyPatch(
+          current.question_scores,
+          patch.question_scores,
+        ),
+      },
+      note,
+    );
+  }
+
+  async listRevisions(
+    documentId: string,
+    options: ListOptions<RevisionSortField>,
+  ): Promise<PaginatedResult<AnswerKeyRevision>> {
+    const { data, error, count } = await this.supabaseService
+      .getAdminClient()
+      .from('answer_key_revisions')
+      .select('*', { count: 'exact' })
+      .eq('document_id', documentId)
+      .order(options.sort, { ascending: options.order === 'asc' })
+      .order('id', { ascending: true })
+      .range(options.offset, options.offset + options.limit - 1)
+      .overrideTypes<AnswerKeyRevision[], { merge: false }>();
+
+    if (error) {
+      throw fromPostgrestError(error, 'Failed to fetch answer key revisions');
+    }
+
+    return toPaginatedResult(data ?? [], count ?? 0, options);
+  }
+}
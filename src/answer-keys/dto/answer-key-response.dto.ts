@@ -0,0 +1,87 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiSuccessDto } from '../../common/dto/api-response.dto';
+import type { AnswerKey } from '../../submissions/grading.service';
+import type {
+  AnswerKeyRevision,
+  DocumentAnswerKey,
+} from '../answer-keys.service';
+
+const ANSWERS_SCHEMA = {
+  type: 'object',
+  additionalProperties: true,
+  example: { '1': 3, '2': 5 },
+} as const;
+
+const SCORES_SCHEMA = {
+  type: 'object',
+  additionalProperties: { type: 'number' },
+  example: { '1': 2, '2': 3 },
+} as const;
+
+export class DocumentAnswerKeyDto implements DocumentAnswerKey {
+  @ApiProperty({ format: 'uuid' })
+  document_id: string;
+
+  @ApiProperty({ example: '과학탐구' })
+  category: string;
+
+  @ApiProperty(ANSWERS_SCHEMA)
+  correct_answers: AnswerKey['correct_answers'];
+
+  @ApiProperty(SCORES_SCHEMA)
+  question_scores: AnswerKey['question_scores'];
+
+  @ApiProperty({ type: 'integer' })
+  question_count: number;
+
+  @ApiProperty()
+  total_points: number;
+
+  @ApiProperty({ description: 'Total the point values must add up to' })
+  expected_total_points: number;
+}
+
+export class DocumentAnswerKeyResponseDto extends ApiSuccessDto {
+  @ApiProperty()
+  data: DocumentAnswerKeyDto;
+}
+
+export class AnswerKeyRevisionDto implements AnswerKeyRevision {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @ApiProperty({ format: 'uuid' })
+  document_id: string;
+
+  @ApiProperty(ANSWERS_SCHEMA)
+  correct_answers: AnswerKey['correct_answers'];
+
+  @ApiProperty(SCORES_SCHEMA)
+  question_scores: AnswerKey['question_scores'];
+
+  @ApiProperty(ANSWERS_SCHEMA)
+  previous_correct_answers: AnswerKey['correct_answers'];
+
+  @ApiProperty(SCORES_SCHEMA)
+  previous_question_scores: AnswerKey['question_scores'];
+
+  @ApiProperty({ type: String, nullable: true })
+  note: string | null;
+
+  @ApiProperty({ format: 'date-time' })
+  created_at: string;
+}
+
+export class AnswerKeyRevisionListResponseDto extends ApiSuccessDto {
+  @ApiProperty({ type: [AnswerKeyRevisionDto] })
+  data: AnswerKeyRevisionDto[];
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+
+  @ApiProperty({ type: 'integer' })
+  total: number;
+
+  @ApiProperty({ type: String, nullable: true })
+  nextCursor: string | null;
+}
@@ -0,0 +1,72 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsObject, IsOptional, IsString, MaxLength } from 'class-validator';
+import type { AnswerKey } from '../../submissions/grading.service';
+import type { AnswerKeyPatch } from '../answer-keys.service';
+
+const ANSWER_SCHEMA = {
+  oneOf: [
+    { type: 'integer' },
+    { type: 'array', items: { type: 'integer' }, minItems: 1 },
+  ],
+};
+
+export class PutAnswerKeyDto implements AnswerKey {
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: ANSWER_SCHEMA,
+    description:
+      'Answer per question number, 1 to N without gaps. Choices are 1–5; 수학 also accepts short answers from 0 to 999. A list accepts any of its answers.',
+    example: { '1': 3, '2': 5, '3': [1, 2] },
+  })
+  @IsObject()
+  correct_answers: AnswerKey['correct_answers'];
+
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: { type: 'number' },
+    description:
+      'Points per question; they must add up to 50 for 탐구, 한국사 and 제2외국어 and 100 otherwise',
+    example: { '1': 2, '2': 3, '3': 3 },
+  })
+  @IsObject()
+  question_scores: AnswerKey['question_scores'];
+
+  @ApiPropertyOptional({
+    maxLength: 500,
+    description: 'Reason for the edit, kept in the revision history',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
+
+export class PatchAnswerKeyDto implements AnswerKeyPatch {
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: { ...ANSWER_SCHEMA, nullable: true },
+    description: 'Answers to set; null removes the question',
+    example: { '12': 4 },
+  })
+  @IsOptional()
+  @IsObject()
+  correct_answers?: AnswerKeyPatch['correct_answers'];
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: { type: 'number', nullable: true },
+    description: 'Point values to set; null removes the value',
+  })
+  @IsOptional()
+  @IsObject()
+  question_scores?: AnswerKeyPatch['question_scores'];
+
+  @ApiPropertyOptional({
+    maxLength: 500,
+    description: 'Reason for the edit, kept in the revision history',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
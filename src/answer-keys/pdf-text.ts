@@ -0,0 +1,33 @@
+import type { PdfTextItem } from './answer-key-extractor';
+
+/**
+ * Positioned text of every page of a PDF. pdfjs-dist only ships ES modules,
+ * so it is loaded on first use rather than at startup.
+ */
+export async function readPdfTextItems(data: Buffer): Promise<PdfTextItem[]> {
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  const pdf = await getDocument({
+    data: new Uint8Array(data),
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const items: PdfTextItem[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      for (const item of content.items) {
+        if (!('str' in item)) continue;
+        items.push({
+          page: pageNumber,
+          x: item.transform[4] as number,
+          y: item.transform[5] as number,
+          text: item.str,
+        });
+      }
+    }
+    return items;
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -1,12 +1,43 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
+import { APP_FILTER, APP_PIPE } from '@nestjs/core';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { DocumentsModule } from './documents/documents.module';
 import { SupabaseModule } from './supabase/supabase.module';
+import { ExamSetsModule } from './exam-sets/exam-sets.module';
+import { StorageModule } from './storage/storage.module';
+import { SubmissionsModule } from './submissions/submissions.module';
+import { AnswerKeysModule } from './answer-keys/answer-keys.module';
+import { ScoreConversionModule } from './score-conversion/score-conversion.module';
+import { AnalyticsModule } from './analytics/analytics.module';
+import { WrongNotesModule } from './wrong-notes/wrong-notes.module';
+import { TaxonomyModule } from './taxonomy/taxonomy.module';
+import { ApiExceptionFilter } from './common/api-exception.filter';
+import { requestIdMiddleware } from './common/request-id.middleware';
+import { createValidationPipe } from './common/validation';
 
 @Module({
-  imports: [SupabaseModule, DocumentsModule],
+  imports: [
+    SupabaseModule,
+    StorageModule,
+    DocumentsModule,
+    ExamSetsModule,
+    SubmissionsModule,
+    AnswerKeysModule,
+    ScoreConversionModule,
+    AnalyticsModule,
+    WrongNotesModule,
+    TaxonomyModule,
+  ],
   controllers: [AppController],
-  providers: [AppService],
+  providers: [
+    AppService,
+    { provide: APP_FILTER, useClass: ApiExceptionFilter },
+    { provide: APP_PIPE, useFactory: createValidationPipe },
+  ],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(requestIdMiddleware).forRoutes('*');
+  }
+}
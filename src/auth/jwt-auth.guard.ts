@@ -0,0 +1,34 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import type { Request } from 'express';
+import { UnauthorizedError } from '../common/errors';
+import { AuthUser, verifySupabaseJwt } from './supabase-jwt';
+
+/** Request after JwtAuthGuard let it through */
+export interface AuthenticatedRequest extends Request {
+  user: AuthUser;
+}
+
+/**
+ * Lets a request through when it carries `Authorization: Bearer <token>`
+ * with a Supabase access token signed with SUPABASE_JWT_SECRET, and puts
+ * the token's user on `request.user`. User routes are closed entirely
+ * while SUPABASE_JWT_SECRET is unset.
+ */
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const secret = process.env.SUPABASE_JWT_SECRET;
+    if (!secret) {
+      throw new UnauthorizedError('Authentication is not configured');
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const [scheme, token] = (request.header('authorization') ?? '').split(' ');
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      throw new UnauthorizedError('Missing bearer token');
+    }
+
+    request.user = verifySupabaseJwt(token, secret);
+    return true;
+  }
+}
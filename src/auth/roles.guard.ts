@@ -0,0 +1,47 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  SetMetadata,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ForbiddenError, UnauthorizedError } from '../common/errors';
+import type { AuthenticatedRequest } from './jwt-auth.guard';
+
+export const ADMIN_ROLE = 'admin';
+
+const ROLES_KEY = 'roles';
+
+/** App roles a route accepts; any one of them is enough */
+export const Roles = (...roles: string[]) => SetMetadata(ROLES_KEY, roles);
+
+/**
+ * Lets a request through when the user JwtAuthGuard verified has one of the
+ * route's @Roles. Must run after JwtAuthGuard:
+ * `@UseGuards(JwtAuthGuard, RolesGuard)`.
+ */
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<string[] | undefined>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!required || required.length === 0) {
+      return true;
+    }
+
+    const { user } = context
+      .switchToHttp()
+      .getRequest<Partial<AuthenticatedRequest>>();
+    if (!user) {
+      throw new UnauthorizedError('Missing bearer token');
+    }
+    if (!required.some((role) => user.roles.includes(role))) {
+      throw new ForbiddenError(`Requires the ${required.join(' or ')} role`);
+    }
+    return true;
+  }
+}
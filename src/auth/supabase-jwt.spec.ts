@@ -0,0 +1,61 @@
+import { createHmac } from 'crypto';
+import { UnauthorizedError } from '../common/errors';
+import { verifySupabaseJwt } from './supabase-jwt';
+
+const SECRET = 'test-jwt-secret';
+const NOW = Date.UTC(2024, 10, 14, 9, 0, 0);
+
+function sign(
+  payload: Record<string, unknown>,
+  { secret = SECRET, alg = 'HS256' } = {},
+): string {
+  const encode = (value: unknown) =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  const body = `${encode({ alg, typ: 'JWT' })}.${encode(payload)}`;
+  const signature = createHmac('sha256', secret)
+    .update(body)
+    .digest('base64url');
+  return `${body}.${signature}`;
+}
+
+const userClaims = {
+  sub: '6f1c2d9e-3b4a-4c5d-8e7f-001122334455',
+  aud: 'authenticated',
+  role: 'authenticated',
+  email: 'student@example.com',
+  exp: NOW / 1000 + 3600,
+};
+
+describe('verifySupabaseJwt', () => {
+  it("returns the token's user", () => {
+    expect(verifySupabaseJwt(sign(userClaims), SECRET, NOW)).toEqual({
+      id: userClaims.sub,
+      email: 'student@example.com',
+      role: 'authenticated',
+      roles: [],
+    });
+  });
+
+  it('reads app roles from app_metadata', () => {
+    const token = sign({
+      ...userClaims,
+      app_metadata: { provider: 'email', roles: ['admin', 'teacher'] },
+    });
+    expect(verifySupabaseJwt(token, SECRET, NOW).roles).toEqual([
+      'admin',
+      'teacher',
+    ]);
+  });
+
+  it.each([
+    ['a wrong secret', sign(userClaims, { secret: 'other' })],
+    ['another algorithm', sign(userClaims, { alg: 'none' })],
+    ['an expired token', sign({ ...userClaims, exp: NOW / 1000 - 1 })],
+    ['the anon key', sign({ role: 'anon', exp: NOW / 1000 + 60 })],
+    ['a malformed token', 'not-a-jwt'],
+  ])('rejects %s', (_case, token) => {
+    expect(() => verifySupabaseJwt(token, SECRET, NOW)).toThrow(
+      UnauthorizedError,
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { UnauthorizedError } from '../common/errors';
+
+/** The signed-in user a request acts for */
+export interface AuthUser {
+  /** Supabase auth user id (`sub`) */
+  id: string;
+  email: string | null;
+  role: string;
+  /** App roles from `app_metadata.role(s)`, which only the service key can set */
+  roles: string[];
+}
+
+/** Audience Supabase gives tokens of signed-in users */
+export const SUPABASE_AUDIENCE = 'authenticated';
+
+interface JwtPayload {
+  sub?: unknown;
+  aud?: unknown;
+  exp?: unknown;
+  nbf?: unknown;
+  email?: unknown;
+  role?: unknown;
+  app_metadata?: { role?: unknown; roles?: unknown } | null;
+}
+
+function rolesOf(payload: JwtPayload): string[] {
+  const { role, roles } = payload.app_metadata ?? {};
+  return [role, roles]
+    .flat()
+    .filter((value): value is string => typeof value === 'string');
+}
+
+function decodeSegment(segment: string): unknown {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new UnauthorizedError('Malformed access token');
+  }
+}
+
+/**
+ * Verify a Supabase access token signed with the project's JWT secret
+ * (HS256) and return its user. Only tokens of signed-in users pass: the
+ * anon and service keys are JWTs too but carry no `sub`.
+ */
+export function verifySupabaseJwt(
+  token: string,
+  secret: string,
+  now = Date.now(),
+): AuthUser {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new UnauthorizedError('Malformed access token');
+  }
+  const [encodedHeader, encodedPayload, signature] = segments;
+
+  const header = decodeSegment(encodedHeader) as { alg?: unknown } | null;
+  if (header?.alg !== 'HS256') {
+    throw new UnauthorizedError('Unsupported access token algorithm');
+  }
+
+  const expected = createHmac('sha256', secret)
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest();
+  const provided = Buffer.from(signature, 'base64url');
+  if (
+    provided.length !== expected.length ||
+    !timingSafeEqual(provided, expected)
+  ) {
+    throw new UnauthorizedError('Invalid access token signature');
+  }
+
+  const payload = decodeSegment(encodedPayload) as JwtPayload | null;
+  const seconds = now / 1000;
+  if (typeof payload?.exp !== 'number' || payload.exp <= seconds) {
+    throw new UnauthorizedError('Access token has expired');
+  }
+  if (typeof payload.nbf === 'number' && payload.nbf > seconds) {
+    throw new UnauthorizedError('Access token is not valid yet');
+  }
+  const audiences = [payload.aud].flat();
+  if (
+    typeof payload.sub !== 'string' ||
+    !audiences.includes(SUPABASE_AUDIENCE)
+  ) {
+    throw new UnauthorizedError('Access token does not belong to a user');
+  }
+
+  return {
+    id: payload.sub,
+    email: typeof payload.email === 'string' ? payload.email : null,
+    role: typeof payload.role === 'string' ? payload.role : SUPABASE_AUDIENCE,
+    roles: rolesOf(payload),
+  };
+}
@@ -0,0 +1,27 @@
+import { applyDecorators, HttpStatus } from '@nestjs/common';
+import { ApiResponse } from '@nestjs/swagger';
+import { ApiErrorBodyDto } from './dto/api-response.dto';
+
+const DESCRIPTIONS: Partial<Record<HttpStatus, string>> = {
+  [HttpStatus.BAD_REQUEST]: 'Invalid parameters',
+  [HttpStatus.UNAUTHORIZED]: 'Missing, invalid or expired access token',
+  [HttpStatus.FORBIDDEN]: 'Access to the resource is not allowed',
+  [HttpStatus.NOT_FOUND]: 'The resource does not exist',
+  [HttpStatus.SERVICE_UNAVAILABLE]:
+    'Supabase or S3 failed or could not be reached; safe to retry',
+};
+
+/** Document error responses, which all share the ApiErrorBodyDto shape */
+export function ApiErrorResponses(
+  ...statuses: HttpStatus[]
+): ClassDecorator & MethodDecorator {
+  return applyDecorators(
+    ...statuses.map((status) =>
+      ApiResponse({
+        status,
+        description: DESCRIPTIONS[status],
+        type: ApiErrorBodyDto,
+      }),
+    ),
+  );
+}
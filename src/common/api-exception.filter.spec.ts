@@ -0,0 +1,70 @@
+import { ArgumentsHost, Logger, NotFoundException } from '@nestjs/common';
+import { ApiErrorBody, ApiExceptionFilter } from './api-exception.filter';
+import { NotFoundError, UpstreamUnavailableError } from './errors';
+
+describe('ApiExceptionFilter', () => {
+  const filter = new ApiExceptionFilter();
+  let res: {
+    locals: Record<string, unknown>;
+    headersSent: boolean;
+    status: jest.Mock;
+    json: jest.Mock<void, [ApiErrorBody]>;
+  };
+  let host: ArgumentsHost;
+  const body = () => res.json.mock.calls[0][0];
+
+  beforeEach(() => {
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    res = {
+      locals: { requestId: 'req-1' },
+      headersSent: false,
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn<void, [ApiErrorBody]>(),
+    };
+    host = {
+      switchToHttp: () => ({
+        getRequest: () => ({ method: 'GET', originalUrl: '/documents/x' }),
+        getResponse: () => res,
+      }),
+    } as ArgumentsHost;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps domain errors to their status and code', () => {
+    filter.catch(new NotFoundError('Document x not found'), host);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(res.json).toHaveBeenCalledWith({
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Document x not found' },
+      requestId: 'req-1',
+    });
+  });
+
+  it('reports upstream failures as 503', () => {
+    filter.catch(new UpstreamUnavailableError('fetch failed'), host);
+
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(body().error.code).toBe('UPSTREAM_UNAVAILABLE');
+  });
+
+  it('keeps the status of Nest HTTP exceptions', () => {
+    filter.catch(new NotFoundException('Cannot GET /nope'), host);
+
+    expect(res.status).toHaveBeenCalledWith(404);
+    expect(body().error.code).toBe('NOT_FOUND');
+  });
+
+  it('hides the message of unexpected errors', () => {
+    filter.catch(new TypeError('secret is undefined'), host);
+
+    expect(res.status).toHaveBeenCalledWith(500);
+    expect(body().error).toEqual({
+      code: 'INTERNAL_ERROR',
+      message: 'Unexpected server error',
+    });
+  });
+});
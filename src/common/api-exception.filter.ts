@@ -0,0 +1,94 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { DomainError, ErrorCode } from './errors';
+import { getRequestId } from './request-id.middleware';
+
+export interface ApiErrorBody {
+  success: false;
+  error: {
+    /** An ErrorCode, or the status name for other HTTP exceptions */
+    code: string;
+    message: string;
+    details?: unknown;
+  };
+  requestId: string;
+}
+
+const HTTP_STATUS_CODES: Partial<Record<number, ErrorCode>> = {
+  [HttpStatus.BAD_REQUEST]: 'VALIDATION_FAILED',
+  [HttpStatus.UNAUTHORIZED]: 'UNAUTHORIZED',
+  [HttpStatus.NOT_FOUND]: 'NOT_FOUND',
+  [HttpStatus.SERVICE_UNAVAILABLE]: 'UPSTREAM_UNAVAILABLE',
+};
+
+/**
+ * Maps every uncaught error to an HTTP status and a consistent error body.
+ * DomainErrors carry their own status; Nest HttpExceptions (unknown routes,
+ * pipes) keep theirs; anything else is an unexpected 500.
+ */
+@Catch()
+export class ApiExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ApiExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const http = host.switchToHttp();
+    const req = http.getRequest<Request>();
+    const res = http.getResponse<Response>();
+    const requestId = getRequestId(res);
+
+    const { status, error } = this.describe(exception);
+    if (status >= 500) {
+      this.logger.error(
+        `${req.method} ${req.originalUrl} failed [${requestId}]: ${error.message}`,
+        exception instanceof Error ? exception.stack : undefined,
+      );
+    }
+
+    if (res.headersSent) return;
+
+    const body: ApiErrorBody = { success: false, error, requestId };
+    res.status(status).json(body);
+  }
+
+  private describe(exception: unknown): {
+    status: number;
+    error: ApiErrorBody['error'];
+  } {
+    if (exception instanceof DomainError) {
+      return {
+        status: exception.status,
+        error: {
+          code: exception.code,
+          message: exception.message,
+          details: exception.details,
+        },
+      };
+    }
+
+    if (exception instanceof HttpException) {
+      const status = exception.getStatus();
+      return {
+        status,
+        error: {
+          code: HTTP_STATUS_CODES[status] ?? HttpStatus[status] ?? 'HTTP_ERROR',
+          message: exception.message,
+        },
+      };
+    }
+
+    return {
+      status: HttpStatus.INTERNAL_SERVER_ERROR,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Unexpected server error',
+      },
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import type { ApiErrorBody } from '../api-exception.filter';
+import { ErrorCode } from '../errors';
+
+const ERROR_CODES: ErrorCode[] = [
+  'NOT_FOUND',
+  'FORBIDDEN',
+  'VALIDATION_FAILED',
+  'UPSTREAM_UNAVAILABLE',
+  'INTERNAL_ERROR',
+];
+
+/** Envelope field shared by every success body */
+export class ApiSuccessDto {
+  @ApiProperty({ example: true })
+  success: boolean;
+}
+
+export class ApiErrorDto {
+  @ApiProperty({ enum: ERROR_CODES, example: 'NOT_FOUND' })
+  code: string;
+
+  @ApiProperty({
+    example: 'Document 123e4567-e89b-12d3-a456-426614174000 not found',
+  })
+  message: string;
+
+  @ApiPropertyOptional({
+    type: 'object',
+    additionalProperties: true,
+    description:
+      'Extra context. Parameter validation errors list each invalid parameter in `fields`',
+    example: {
+      fields: [{ field: 'exam_months', value: [13], messages: ['...'] }],
+    },
+  })
+  details?: unknown;
+}
+
+/** Body of every error response, as written by ApiExceptionFilter */
+export class ApiErrorBodyDto implements ApiErrorBody {
+  @ApiProperty({ example: false })
+  success: false;
+
+  @ApiProperty()
+  error: ApiErrorDto;
+
+  @ApiProperty({ description: 'Also sent as the X-Request-Id header' })
+  requestId: string;
+}
@@ -0,0 +1,66 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { DEFAULT_PAGE_SIZE, ListQuery, MAX_PAGE_SIZE } from '../pagination';
+
+/**
+ * Pagination parameters shared by list endpoints. Whether `sort` names a
+ * sortable field is checked by parseListQuery, which knows the resource.
+ */
+export class ListQueryDto implements ListQuery {
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+    default: DEFAULT_PAGE_SIZE,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'nextCursor from the previous page',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    description: '1-based page number, an alternative to cursor',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number;
+
+  @ApiPropertyOptional({ type: 'integer', minimum: 1, maximum: MAX_PAGE_SIZE })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  pageSize?: number;
+
+  @ApiPropertyOptional({
+    description: 'Sort field, optionally suffixed with :asc or :desc',
+    example: 'exam_year:desc',
+  })
+  @IsOptional()
+  @Matches(/^\w+(:(asc|desc))?$/, {
+    message: 'sort must look like field or field:asc|desc',
+  })
+  sort?: string;
+}
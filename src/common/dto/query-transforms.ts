@@ -0,0 +1,55 @@
+import { Transform } from 'class-transformer';
+
+function splitList(value: unknown): string[] {
+  return [value]
+    .flat()
+    .flatMap((item) =>
+      typeof item === 'string' || typeof item === 'number'
+        ? String(item).split(',')
+        : [],
+    )
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Read a multi-value query parameter given as `a,b` or repeated (`?x=a&x=b`)
+ * into a trimmed, NFC-normalized list
+ */
+export function ToList(): PropertyDecorator {
+  return Transform(({ value }: { value: unknown }) =>
+    value === undefined
+      ? undefined
+      : splitList(value).map((item) => item.normalize('NFC')),
+  );
+}
+
+/**
+ * Like ToList, converting integer items to numbers. Other items are kept as
+ * strings so validation errors echo what the client sent.
+ */
+export function ToNumberList(): PropertyDecorator {
+  return Transform(({ value }: { value: unknown }) =>
+    value === undefined
+      ? undefined
+      : splitList(value).map((item) =>
+          /^-?\d+$/.test(item) ? Number(item) : item,
+        ),
+  );
+}
+
+/** Trim and NFC-normalize a single string parameter */
+export function ToNormalizedString(): PropertyDecorator {
+  return Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.trim().normalize('NFC') : value,
+  );
+}
+
+/** Accept `true`/`false` (and `1`/`0`) for boolean flags */
+export function ToBoolean(): PropertyDecorator {
+  return Transform(({ value }: { value: unknown }) => {
+    if (value === 'true' || value === '1' || value === true) return true;
+    if (value === 'false' || value === '0' || value === false) return false;
+    return value;
+  });
+}
@@ -0,0 +1,56 @@
+export type ErrorCode =
+  | 'NOT_FOUND'
+  | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'VALIDATION_FAILED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Base class for errors services throw on purpose. ApiExceptionFilter turns
+ * them into an HTTP status and a `{ success: false, error }` body, so
+ * controllers never need to catch them.
+ */
+export abstract class DomainError extends Error {
+  abstract readonly code: ErrorCode;
+  abstract readonly status: number;
+
+  constructor(
+    message: string,
+    /** Extra machine-readable context, returned to clients as `error.details` */
+    readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** The requested resource does not exist (404) */
+export class NotFoundError extends DomainError {
+  readonly code = 'NOT_FOUND';
+  readonly status = 404;
+}
+
+/** The request carries no valid access token (401) */
+export class UnauthorizedError extends DomainError {
+  readonly code = 'UNAUTHORIZED';
+  readonly status = 401;
+}
+
+/** The caller may not access the resource (403) */
+export class ForbiddenError extends DomainError {
+  readonly code = 'FORBIDDEN';
+  readonly status = 403;
+}
+
+/** The request is malformed, e.g. a bad id, cursor or filter value (400) */
+export class ValidationError extends DomainError {
+  readonly code = 'VALIDATION_FAILED';
+  readonly status = 400;
+}
+
+/** Supabase or S3 failed or could not be reached (503) */
+export class UpstreamUnavailableError extends DomainError {
+  readonly code = 'UPSTREAM_UNAVAILABLE';
+  readonly status = 503;
+}
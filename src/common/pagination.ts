@@ -0,0 +1,127 @@
+import { ValidationError } from './errors';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface ListOptions<TSortField extends string = string> {
+  limit: number;
+  offset: number;
+  sort: TSortField;
+  order: SortOrder;
+}
+
+export interface PaginatedResult<T> {
+  data: T[];
+  total: number;
+  nextCursor: string | null;
+}
+
+/**
+ * Pagination parameters as they arrive on the query string, or already
+ * converted by ListQueryDto.
+ * Either `limit`/`cursor` or `page`/`pageSize` may be used; `sort` takes the
+ * form `field` or `field:asc|desc`.
+ */
+export interface ListQuery {
+  limit?: string | number;
+  cursor?: string;
+  page?: string | number;
+  pageSize?: string | number;
+  sort?: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+/**
+ * Cursors are opaque to clients but are simply the offset of the next row,
+ * so they stay valid for Supabase `range()` queries.
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ o: offset }), 'utf8').toString(
+    'base64url',
+  );
+}
+
+export function decodeCursor(cursor: string): number {
+  try {
+    const decoded = JSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+    ) as { o?: unknown };
+    if (
+      typeof decoded.o === 'number' &&
+      Number.isInteger(decoded.o) &&
+      decoded.o >= 0
+    ) {
+      return decoded.o;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new ValidationError(`Invalid cursor: ${cursor}`);
+}
+
+function parsePositiveInt(value: string | number, name: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new ValidationError(`Invalid ${name}: ${value}`);
+  }
+  return parsed;
+}
+
+export function parseListQuery<TSortField extends string>(
+  query: ListQuery,
+  sortFields: readonly TSortField[],
+  defaults: { sort: TSortField; order: SortOrder },
+): ListOptions<TSortField> {
+  const rawSize = query.pageSize ?? query.limit;
+  const limit = rawSize
+    ? Math.min(parsePositiveInt(rawSize, 'limit'), MAX_PAGE_SIZE)
+    : DEFAULT_PAGE_SIZE;
+
+  let offset = 0;
+  if (query.cursor) {
+    offset = decodeCursor(query.cursor);
+  } else if (query.page) {
+    offset = (parsePositiveInt(query.page, 'page') - 1) * limit;
+  }
+
+  let sort = defaults.sort;
+  let order = defaults.order;
+  if (query.sort) {
+    const [field, direction] = query.sort.split(':').map((part) => part.trim());
+    if (!sortFields.includes(field as TSortField)) {
+      throw new ValidationError(
+        `Invalid sort field: ${field}. Expected one of ${sortFields.join(', ')}`,
+      );
+    }
+    sort = field as TSortField;
+    if (direction) {
+      if (direction !== 'asc' && direction !== 'desc') {
+        throw new ValidationError(`Invalid sort direction: ${direction}`);
+      }
+      order = direction;
+    }
+  }
+
+  return { limit, offset, sort, order };
+}
+
+/**
+ * Builds the response page once the rows for `[offset, offset + limit)` and
+ * the exact total have been fetched.
+ */
+export function toPaginatedResult<T>(
+  rows: T[],
+  total: number,
+  options: Pick<ListOptions, 'limit' | 'offset'>,
+): PaginatedResult<T> {
+  const nextOffset = options.offset + rows.length;
+  return {
+    data: rows,
+    total,
+    nextCursor:
+      rows.length === options.limit && nextOffset < total
+        ? encodeCursor(nextOffset)
+        : null,
+  };
+}
@@ -0,0 +1,27 @@
+import { randomUUID } from 'crypto';
+import type { NextFunction, Request, Response } from 'express';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+/**
+ * Tag every request with an id, reusing the client's `X-Request-Id` when it
+ * sends one. The id is echoed in the response header and in error bodies so
+ * a failed call can be matched with the server logs.
+ */
+export function requestIdMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+): void {
+  const incoming = req.header(REQUEST_ID_HEADER);
+  const requestId =
+    incoming && /^[\w.-]{1,128}$/.test(incoming) ? incoming : randomUUID();
+
+  res.locals.requestId = requestId;
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+  next();
+}
+
+export function getRequestId(res: Response): string {
+  return (res.locals.requestId as string | undefined) ?? randomUUID();
+}
@@ -0,0 +1,48 @@
+import { ValidationPipe } from '@nestjs/common';
+import type { ValidationError as ClassValidatorError } from 'class-validator';
+import { ValidationError } from './errors';
+
+export interface FieldError {
+  field: string;
+  value: unknown;
+  messages: string[];
+}
+
+/** Flatten class-validator errors, naming nested fields with dot paths */
+export function toFieldErrors(
+  errors: ClassValidatorError[],
+  parent = '',
+): FieldError[] {
+  return errors.flatMap((error) => {
+    const field = parent ? `${parent}.${error.property}` : error.property;
+    const own: FieldError[] = error.constraints
+      ? [
+          {
+            field,
+            value: error.value,
+            messages: Object.values(error.constraints),
+          },
+        ]
+      : [];
+    return [...own, ...toFieldErrors(error.children ?? [], field)];
+  });
+}
+
+/**
+ * Global pipe for DTO classes. Unknown query parameters are stripped rather
+ * than rejected, and failures surface as a ValidationError (400) whose
+ * details list every invalid field.
+ */
+export function createValidationPipe(): ValidationPipe {
+  return new ValidationPipe({
+    transform: true,
+    whitelist: true,
+    exceptionFactory: (errors) => {
+      const fields = toFieldErrors(errors);
+      return new ValidationError(
+        `Invalid ${fields.map((error) => error.field).join(', ')}`,
+        { fields },
+      );
+    },
+  });
+}
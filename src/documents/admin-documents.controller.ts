@@ -0,0 +1,153 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiCreatedResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+  getSchemaPath,
+} from '@nestjs/swagger';
+import { DocumentsAdminService } from './documents-admin.service';
+import type { UploadedPdf } from './documents-admin.service';
+import { DocumentIdParamDto } from './dto/document-query.dto';
+import {
+  CreateDocumentDto,
+  UpdateDocumentDto,
+  UploadDocumentsDto,
+} from './dto/admin-document.dto';
+import {
+  DocumentResponseDto,
+  UploadDocumentsResponseDto,
+} from './dto/document-response.dto';
+import { ApiErrorResponses } from '../common/api-error-responses';
+import { ValidationError } from '../common/errors';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { ADMIN_ROLE, Roles, RolesGuard } from '../auth/roles.guard';
+
+export const MAX_UPLOAD_FILES = 50;
+export const MAX_UPLOAD_FILE_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Multer decodes multipart filenames as latin1, while clients send UTF-8,
+ * so `고3_...pdf` arrives as mojibake unless it is re-decoded.
+ */
+function decodeFilename(name: string): string {
+  const isLatin1 = [...name].every((char) => char.charCodeAt(0) <= 0xff);
+  return isLatin1 ? Buffer.from(name, 'latin1').toString('utf8') : name;
+}
+
+/** Adding, correcting and deleting documents; needs the admin role */
+@ApiTags('admin')
+@ApiBearerAuth()
+@ApiErrorResponses(
+  HttpStatus.BAD_REQUEST,
+  HttpStatus.UNAUTHORIZED,
+  HttpStatus.FORBIDDEN,
+  HttpStatus.SERVICE_UNAVAILABLE,
+)
+@Roles(ADMIN_ROLE)
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Controller('admin/documents')
+export class AdminDocumentsController {
+  constructor(private readonly documentsAdminService: DocumentsAdminService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Add a document whose PDF is already stored' })
+  @ApiCreatedResponse({ type: DocumentResponseDto })
+  async createDocument(
+    @Body() body: CreateDocumentDto,
+  ): Promise<DocumentResponseDto> {
+    const document = await this.documentsAdminService.createDocument(body);
+    return { success: true, data: document };
+  }
+
+  @Post('upload')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FilesInterceptor('files', MAX_UPLOAD_FILES, {
+      limits: { fileSize: MAX_UPLOAD_FILE_BYTES },
+    }),
+  )
+  @ApiOperation({ summary: 'Upload PDFs named by the naming convention' })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      allOf: [
+        { $ref: getSchemaPath(UploadDocumentsDto) },
+        {
+          type: 'object',
+          required: ['files'],
+          properties: {
+            files: {
+              type: 'array',
+              items: { type: 'string', format: 'binary' },
+              maxItems: MAX_UPLOAD_FILES,
+            },
+          },
+        },
+      ],
+    },
+  })
+  @ApiOkResponse({ type: UploadDocumentsResponseDto })
+  async uploadDocuments(
+    @UploadedFiles() files: UploadedPdf[] | undefined,
+    @Body() body: UploadDocumentsDto,
+  ): Promise<UploadDocumentsResponseDto> {
+    if (!files || files.length === 0) {
+      throw new ValidationError('Send at least one PDF in the files field');
+    }
+
+    const results = await this.documentsAdminService.uploadDocuments(
+      files.map((file) => ({
+        originalname: decodeFilename(file.originalname),
+        buffer: file.buffer,
+      })),
+      body,
+    );
+    const created = results.filter((result) => result.status === 'created');
+    return {
+      success: true,
+      data: results,
+      created: created.length,
+      failed: results.length - created.length,
+    };
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Correct the metadata of a document' })
+  @ApiOkResponse({ type: DocumentResponseDto })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND)
+  async updateDocument(
+    @Param() { id }: DocumentIdParamDto,
+    @Body() body: UpdateDocumentDto,
+  ): Promise<DocumentResponseDto> {
+    const document = await this.documentsAdminService.updateDocument(id, body);
+    return { success: true, data: document };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Soft delete a document and move its files' })
+  @ApiOkResponse({ type: DocumentResponseDto })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND)
+  async deleteDocument(
+    @Param() { id }: DocumentIdParamDto,
+  ): Promise<DocumentResponseDto> {
+    const document = await this.documentsAdminService.deleteDocument(id);
+    return { success: true, data: document };
+  }
+}
@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { Document, DocumentsService } from './documents.service';
+import {
+  IndexedText,
+  SEARCH_FIELDS,
+  SearchField,
+  indexText,
+} from './search-query';
+
+export interface IndexedDocument {
+  document: Document;
+  fields: Partial<Record<SearchField, IndexedText>>;
+}
+
+const DEFAULT_TTL_SECONDS = 300;
+
+export function indexDocument(document: Document): IndexedDocument {
+  const fields: Partial<Record<SearchField, IndexedText>> = {};
+  for (const field of SEARCH_FIELDS) {
+    const value = document[field];
+    if (value) {
+      fields[field] = indexText(value);
+    }
+  }
+  return { document, fields };
+}
+
+/**
+ * In-memory index of document metadata with compact, jamo and chosung keys
+ * precomputed per field. It is rebuilt lazily once it is older than
+ * SEARCH_INDEX_TTL_SECONDS, or on the next read after invalidate().
+ */
+@Injectable()
+export class DocumentSearchIndex {
+  private entries: IndexedDocument[] = [];
+  private builtAt = 0;
+  private building: Promise<IndexedDocument[]> | null = null;
+
+  constructor(private readonly documentsService: DocumentsService) {}
+
+  private get ttlMs(): number {
+    const seconds = Number(process.env.SEARCH_INDEX_TTL_SECONDS);
+    return (
+      (Number.isFinite(seconds) && seconds >= 0
+        ? seconds
+        : DEFAULT_TTL_SECONDS) * 1000
+    );
+  }
+
+  private isStale(): boolean {
+    return this.builtAt === 0 || Date.now() - this.builtAt > this.ttlMs;
+  }
+
+  private async rebuild(): Promise<IndexedDocument[]> {
+    const documents = await this.documentsService.getAllDocuments();
+    this.entries = documents.map(indexDocument);
+    this.builtAt = Date.now();
+    return this.entries;
+  }
+
+  async getEntries(): Promise<IndexedDocument[]> {
+    if (!this.isStale()) {
+      return this.entries;
+    }
+
+    // Concurrent readers share a single rebuild
+    if (!this.building) {
+      this.building = this.rebuild().finally(() => {
+        this.building = null;
+      });
+    }
+    return this.building;
+  }
+
+  /** Mark the index stale so the next read reloads documents */
+  invalidate(): void {
+    this.builtAt = 0;
+  }
+}
@@ -0,0 +1,156 @@
+import { Injectable } from '@nestjs/common';
+import { Document, DocumentsService } from './documents.service';
+import {
+  DocumentSearchIndex,
+  IndexedDocument,
+  indexDocument,
+} from './document-search-index';
+import {
+  HighlightRange,
+  SEARCH_FIELD_WEIGHTS,
+  SEARCH_FIELDS,
+  SearchField,
+  SearchTerm,
+  findHighlightRanges,
+  matchStrength,
+  mergeRanges,
+  needsJamoMatching,
+  parseSearchQuery,
+} from './search-query';
+
+export interface SearchHighlight {
+  field: SearchField;
+  value: string;
+  ranges: HighlightRange[];
+}
+
+export interface SearchResult {
+  document: Document;
+  score: number;
+  matchedTerms: number;
+  highlights: SearchHighlight[];
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  total: number;
+  tokens: string[];
+}
+
+/** Upper bound on rows pulled from Supabase for in-memory ranking */
+const MAX_CANDIDATES = 500;
+
+@Injectable()
+export class DocumentSearchService {
+  constructor(
+    private readonly documentsService: DocumentsService,
+    private readonly searchIndex: DocumentSearchIndex,
+  ) {}
+
+  /**
+   * PostgREST `or` conditions that match a single term in any field
+   */
+  private conditionsForTerm(term: SearchTerm): string[] {
+    if (term.year !== undefined) return [`exam_year.eq.${term.year}`];
+    if (term.month !== undefined) return [`exam_month.eq.${term.month}`];
+    if (term.gradeLevel) return [`grade_level.eq.${term.gradeLevel}`];
+
+    return SEARCH_FIELDS.flatMap((field) =>
+      term.variants.map((variant) => `${field}.ilike.*${variant}*`),
+    );
+  }
+
+  private termMatchesStructured(document: Document, term: SearchTerm): boolean {
+    if (term.year !== undefined) return document.exam_year === term.year;
+    if (term.month !== undefined) return document.exam_month === term.month;
+    if (term.gradeLevel) return document.grade_level === term.gradeLevel;
+    return false;
+  }
+
+  private rank(
+    { document, fields }: IndexedDocument,
+    terms: SearchTerm[],
+  ): SearchResult {
+    let score = 0;
+    let matchedTerms = 0;
+    const ranges = new Map<SearchField, HighlightRange[]>();
+
+    for (const term of terms) {
+      let best = 0;
+
+      if (this.termMatchesStructured(document, term)) {
+        best = SEARCH_FIELD_WEIGHTS.exam_type;
+      }
+
+      for (const field of SEARCH_FIELDS) {
+        const indexed = fields[field];
+        const strength = matchStrength(indexed, term);
+        if (!indexed || strength === 0) continue;
+
+        best = Math.max(best, SEARCH_FIELD_WEIGHTS[field] * strength);
+        ranges.set(field, [
+          ...(ranges.get(field) ?? []),
+          ...findHighlightRanges(indexed.value, term),
+        ]);
+      }
+
+      if (best > 0) {
+        score += best;
+        matchedTerms++;
+      }
+    }
+
+    const highlights = SEARCH_FIELDS.filter((field) => ranges.has(field)).map(
+      (field) => ({
+        field,
+        value: fields[field]!.value,
+        ranges: mergeRanges(ranges.get(field)!),
+      }),
+    );
+
+    return { document, score, matchedTerms, highlights };
+  }
+
+  /**
+   * Search document metadata. Every term must match in Supabase when
+   * possible; chosung/jamo queries, and queries the database cannot answer
+   * (e.g. a syllable still being typed), are ranked over the in-memory index
+   * instead, where documents matching any term are returned.
+   */
+  async search(query: string, limit: number): Promise<SearchResponse> {
+    const terms = parseSearchQuery(this.documentsService.normalizeInput(query));
+    if (terms.length === 0) {
+      return { results: [], total: 0, tokens: [] };
+    }
+
+    let candidates: IndexedDocument[] = [];
+    if (!needsJamoMatching(terms)) {
+      const documents = await this.documentsService.findDocumentsMatching(
+        terms.map((term) => this.conditionsForTerm(term)),
+        MAX_CANDIDATES,
+      );
+      candidates = documents.map(indexDocument);
+    }
+
+    if (candidates.length === 0) {
+      candidates = await this.searchIndex.getEntries();
+    }
+
+    const ranked = candidates
+      .map((candidate) => this.rank(candidate, terms))
+      .filter((result) => result.matchedTerms > 0)
+      .sort(
+        (a, b) =>
+          b.matchedTerms - a.matchedTerms ||
+          b.score - a.score ||
+          b.document.exam_year - a.document.exam_year ||
+          b.document.exam_month - a.document.exam_month,
+      );
+
+    return {
+      results: ranked.slice(0, limit),
+      total: ranked.length,
+      tokens: terms.map((term) => term.token),
+    };
+  }
+}
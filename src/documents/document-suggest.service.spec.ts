@@ -0,0 +1,69 @@
+import { DocumentSuggestService } from './document-suggest.service';
+import { DocumentSearchIndex, indexDocument } from './document-search-index';
+import { Document, DocumentsService } from './documents.service';
+
+function makeDocument(overrides: Partial<Document>): Document {
+  return {
+    id: 'id',
+    title: '고3 과학탐구 물리학 I 수능 2024년 11월 평가원',
+    subject: '물리학 I',
+    category: '과학탐구',
+    exam_year: 2024,
+    exam_month: 11,
+    exam_type: '수능',
+    selection: '',
+    grade_level: '고3',
+    filename: '고3_과학탐구_물리학 I__수능_2024_11_평가원_problem.pdf',
+    storage_path: 'documents/id.pdf',
+    created_at: '2024-11-14T00:00:00Z',
+    source: '평가원',
+    ...overrides,
+  };
+}
+
+describe('DocumentSuggestService', () => {
+  let service: DocumentSuggestService;
+
+  beforeEach(() => {
+    const entries = [
+      makeDocument({ id: '1' }),
+      makeDocument({ id: '2', filename: '..._answer.pdf' }),
+      makeDocument({
+        id: '3',
+        title: '고3 사회탐구 사회·문화 수능 2024년 11월 평가원',
+        subject: '사회·문화',
+        category: '사회탐구',
+      }),
+    ].map(indexDocument);
+    const searchIndex = {
+      getEntries: () => Promise.resolve(entries),
+    } as unknown as DocumentSearchIndex;
+
+    service = new DocumentSuggestService(
+      new DocumentsService({} as never),
+      searchIndex,
+    );
+  });
+
+  it('suggests subjects from a partially typed syllable', async () => {
+    const [first] = await service.suggest('물ㄹ', 5);
+    expect(first).toMatchObject({
+      type: 'subject',
+      label: '물리학 I',
+      filters: { subjects: ['물리학 I'] },
+      count: 2,
+    });
+  });
+
+  it('suggests subjects from initial consonants and abbreviations', async () => {
+    expect((await service.suggest('ㅅㅎㅁㅎ', 5))[0].label).toBe('사회·문화');
+    expect((await service.suggest('사문', 5))[0].label).toBe('사회·문화');
+  });
+
+  it('matches exam sessions from any word', async () => {
+    const suggestions = await service.suggest('수능', 5);
+    expect(suggestions).toContainEqual(
+      expect.objectContaining({ type: 'session', label: '2024년 11월 수능' }),
+    );
+  });
+});
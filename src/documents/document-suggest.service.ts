@@ -0,0 +1,184 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Document,
+  DocumentFilters,
+  DocumentsService,
+} from './documents.service';
+import { DocumentSearchIndex, IndexedDocument } from './document-search-index';
+import { decomposeHangul, isChosungOnly, toChosung } from './hangul';
+import { compactText } from './search-query';
+import {
+  SELECTION_ABBREVIATIONS,
+  SUBJECT_ABBREVIATIONS,
+} from './subject-aliases';
+
+export type SuggestionType = 'subject' | 'selection' | 'session' | 'title';
+
+export interface Suggestion {
+  type: SuggestionType;
+  label: string;
+  /** Filters to apply when the suggestion is picked */
+  filters: DocumentFilters;
+  /** Number of documents behind the suggestion */
+  count: number;
+}
+
+interface PrefixEntry {
+  key: string;
+  suggestion: Suggestion;
+}
+
+const TYPE_PRIORITY: Record<SuggestionType, number> = {
+  subject: 0,
+  selection: 1,
+  session: 2,
+  title: 3,
+};
+
+/**
+ * Autocomplete over subjects, selections, exam sessions and exam titles.
+ * Suggestions are kept in a sorted prefix index of jamo and chosung keys,
+ * rebuilt whenever the underlying DocumentSearchIndex reloads.
+ */
+@Injectable()
+export class DocumentSuggestService {
+  private prefixIndex: PrefixEntry[] = [];
+  private builtFrom: IndexedDocument[] | null = null;
+
+  constructor(
+    private readonly documentsService: DocumentsService,
+    private readonly searchIndex: DocumentSearchIndex,
+  ) {}
+
+  private collectSuggestions(documents: Document[]): Suggestion[] {
+    const suggestions = new Map<string, Suggestion>();
+    const add = (
+      type: SuggestionType,
+      label: string | null | undefined,
+      filters: DocumentFilters,
+    ) => {
+      if (!label) return;
+      const key = `${type}:${label}`;
+      const existing = suggestions.get(key);
+      if (existing) {
+        existing.count++;
+      } else {
+        suggestions.set(key, { type, label, filters, count: 1 });
+      }
+    };
+
+    for (const doc of documents) {
+      add('subject', doc.subject, { subjects: [doc.subject] });
+      add('selection', doc.selection, { selections: [doc.selection] });
+      add(
+        'session',
+        `${doc.exam_year}년 ${doc.exam_month}월 ${doc.exam_type}`,
+        {
+          exam_years: [doc.exam_year],
+          exam_months: [doc.exam_month],
+          exam_types: [doc.exam_type],
+        },
+      );
+      add('title', doc.title, {
+        grade_levels: [doc.grade_level],
+        categories: [doc.category],
+        subjects: [doc.subject],
+        ...(doc.selection ? { selections: [doc.selection] } : {}),
+        exam_types: [doc.exam_type],
+        exam_years: [doc.exam_year],
+        exam_months: [doc.exam_month],
+        ...(doc.source ? { sources: [doc.source] } : {}),
+      });
+    }
+
+    return [...suggestions.values()];
+  }
+
+  /**
+   * Every word start of the label is indexed, so "수능" finds
+   * "2024년 11월 수능", along with abbreviations such as "생윤".
+   */
+  private keysFor(suggestion: Suggestion): string[] {
+    const words = suggestion.label.split(/\s+/);
+    const phrases = words.map((_, index) => words.slice(index).join(' '));
+
+    const aliases =
+      suggestion.type === 'subject'
+        ? SUBJECT_ABBREVIATIONS
+        : suggestion.type === 'selection'
+          ? SELECTION_ABBREVIATIONS
+          : {};
+    for (const [alias, canonical] of Object.entries(aliases)) {
+      if (canonical === suggestion.label) phrases.push(alias);
+    }
+
+    const keys = new Set<string>();
+    for (const phrase of phrases) {
+      const compact = compactText(phrase);
+      if (!compact) continue;
+      keys.add(decomposeHangul(compact));
+      keys.add(toChosung(compact));
+    }
+    return [...keys];
+  }
+
+  private rebuild(entries: IndexedDocument[]): void {
+    const suggestions = this.collectSuggestions(
+      entries.map((entry) => entry.document),
+    );
+
+    this.prefixIndex = suggestions
+      .flatMap((suggestion) =>
+        this.keysFor(suggestion).map((key) => ({ key, suggestion })),
+      )
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+    this.builtFrom = entries;
+  }
+
+  /** Index of the first entry whose key is >= `key` */
+  private lowerBound(key: string): number {
+    let low = 0;
+    let high = this.prefixIndex.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.prefixIndex[mid].key < key) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  async suggest(prefix: string, limit: number): Promise<Suggestion[]> {
+    const compact = compactText(this.documentsService.normalizeInput(prefix));
+    if (!compact) return [];
+
+    const entries = await this.searchIndex.getEntries();
+    if (entries !== this.builtFrom) {
+      this.rebuild(entries);
+    }
+
+    const key = isChosungOnly(compact) ? compact : decomposeHangul(compact);
+    const matches = new Set<Suggestion>();
+    for (
+      let index = this.lowerBound(key);
+      index < this.prefixIndex.length &&
+      this.prefixIndex[index].key.startsWith(key);
+      index++
+    ) {
+      matches.add(this.prefixIndex[index].suggestion);
+    }
+
+    return [...matches]
+      .sort(
+        (a, b) =>
+          Number(compactText(b.label) === compact) -
+            Number(compactText(a.label) === compact) ||
+          TYPE_PRIORITY[a.type] - TYPE_PRIORITY[b.type] ||
+          b.count - a.count ||
+          a.label.localeCompare(b.label),
+      )
+      .slice(0, limit);
+  }
+}
@@ -0,0 +1,291 @@
+import type { SupabaseService } from '../supabase/supabase.service';
+import type { StorageService } from '../storage/storage.service';
+import type { Document, DocumentsService } from './documents.service';
+import type { DocumentSearchIndex } from './document-search-index';
+import { documentTitle, ExamMetadata } from '../naming/naming-convention';
+import { DocumentsAdminService } from './documents-admin.service';
+
+const ID = '123e4567-e89b-12d3-a456-426614174000';
+
+/** StorageService over a Map, enough for moving objects around */
+function memoryStorage(keys: string[]) {
+  const objects = new Map(keys.map((key) => [key, Buffer.from(key)]));
+  const storage = {
+    objectExists: (key: string) => Promise.resolve(objects.has(key)),
+    getObject: (key: string) => Promise.resolve(objects.get(key)),
+    putObject: (key: string, body: Buffer) => {
+      objects.set(key, body);
+      return Promise.resolve();
+    },
+    deleteObject: (key: string) => {
+      objects.delete(key);
+      return Promise.resolve();
+    },
+  } as unknown as StorageService;
+  return { storage, objects };
+}
+
+function stubSupabase(error: { message: string } | null) {
+  const insert = jest.fn();
+  const update = jest.fn();
+  const builder = {
+    from: () => builder,
+    insert: (values: unknown) => {
+      insert(values);
+      return Promise.resolve({ error });
+    },
+    update: (values: unknown) => {
+      update(values);
+      return builder;
+    },
+    eq: () => Promise.resolve({ error }),
+  };
+  return {
+    supabase: { getAdminClient: () => builder } as unknown as SupabaseService,
+    insert,
+    update,
+  };
+}
+
+describe('DocumentsAdminService.createDocument', () => {
+  const PHYSICS = '고3_과학탐구_물리학 I__수능_2024_11_평가원_problem.pdf';
+  const metadata: ExamMetadata = {
+    grade_level: '고3',
+    category: '과학탐구',
+    subject: '물리학 I',
+    selection: '',
+    exam_type: '수능',
+    exam_year: 2024,
+    exam_month: 11,
+    source: '평가원',
+    doc_type: 'problem',
+  };
+  const documentsService = {
+    getDocumentById: (id: string) =>
+      Promise.resolve({ id, ...metadata, filename: PHYSICS }),
+  } as unknown as DocumentsService;
+  const searchIndex = {
+    invalidate: jest.fn(),
+  } as unknown as DocumentSearchIndex;
+
+  it('inserts the metadata columns and encodes doc_type in the filename', async () => {
+    const { storage } = memoryStorage([`documents/${ID}.pdf`]);
+    const { supabase, insert } = stubSupabase(null);
+    const service = new DocumentsAdminService(
+      supabase,
+      documentsService,
+      storage,
+      searchIndex,
+    );
+
+    const document = await service.createDocument({
+      ...metadata,
+      storage_path: `documents/${ID}.pdf`,
+    });
+
+    expect(document.filename).toBe(PHYSICS);
+    expect(insert).toHaveBeenCalledWith({
+      id: document.id,
+      grade_level: '고3',
+      category: '과학탐구',
+      subject: '물리학 I',
+      selection: '',
+      exam_type: '수능',
+      exam_year: 2024,
+      exam_month: 11,
+      source: '평가원',
+      title: documentTitle(metadata),
+      filename: PHYSICS,
+      storage_path: `documents/${ID}.pdf`,
+      content_hash: null,
+      correct_answers: {},
+      question_scores: {},
+      created_at: expect.any(String) as string,
+    });
+  });
+
+  it('updates only existing columns when doc_type changes', async () => {
+    const { storage } = memoryStorage([]);
+    const { supabase, update } = stubSupabase(null);
+    const service = new DocumentsAdminService(
+      supabase,
+      documentsService,
+      storage,
+      searchIndex,
+    );
+
+    await service.updateDocument(ID, { doc_type: 'answer', exam_year: 2023 });
+
+    expect(update).toHaveBeenCalledWith({
+      exam_year: 2023,
+      title: documentTitle({
+        ...metadata,
+        doc_type: 'answer',
+        exam_year: 2023,
+      }),
+      filename: '고3_과학탐구_물리학 I__수능_2023_11_평가원_answer.pdf',
+    });
+  });
+
+  it('keeps the filename of legacy rows on title-only edits', async () => {
+    const legacy = {
+      getDocumentById: (id: string) =>
+        Promise.resolve({
+          id,
+          ...metadata,
+          selection: null,
+          doc_type: null,
+          filename: 'legacy-scan.pdf',
+        }),
+    } as unknown as DocumentsService;
+    const { storage } = memoryStorage([]);
+    const { supabase, update } = stubSupabase(null);
+    const service = new DocumentsAdminService(
+      supabase,
+      legacy,
+      storage,
+      searchIndex,
+    );
+
+    await service.updateDocument(ID, { title: '2024 수능 물리학 I' });
+
+    expect(update).toHaveBeenCalledWith({ title: '2024 수능 물리학 I' });
+  });
+});
+
+describe('DocumentsAdminService.deleteDocument', () => {
+  const documentsService = {
+    getDocumentById: () =>
+      Promise.resolve({ id: ID, storage_path: `documents/${ID}.pdf` }),
+  } as unknown as DocumentsService;
+  const invalidate = jest.fn();
+  const searchIndex = { invalidate } as unknown as DocumentSearchIndex;
+
+  it('moves the PDF and thumbnail under deleted/ and marks the row', async () => {
+    const { storage, objects } = memoryStorage([
+      `documents/${ID}.pdf`,
+      `thumbnails/${ID}.png`,
+    ]);
+    const { supabase, update } = stubSupabase(null);
+    const service = new DocumentsAdminService(
+      supabase,
+      documentsService,
+      storage,
+      searchIndex,
+    );
+
+    const deleted: Document = await service.deleteDocument(ID);
+
+    expect([...objects.keys()].sort()).toEqual([
+      `deleted/documents/${ID}.pdf`,
+      `deleted/thumbnails/${ID}.png`,
+    ]);
+    expect(deleted.storage_path).toBe(`deleted/documents/${ID}.pdf`);
+    expect(update).toHaveBeenCalledWith({
+      deleted_at: deleted.deleted_at,
+      storage_path: `deleted/documents/${ID}.pdf`,
+    });
+    expect(invalidate).toHaveBeenCalled();
+  });
+
+  it('moves the files back when the row cannot be updated', async () => {
+    const { storage, objects } = memoryStorage([`documents/${ID}.pdf`]);
+    const { supabase } = stubSupabase({ message: 'permission denied' });
+    const service = new DocumentsAdminService(
+      supabase,
+      documentsService,
+      storage,
+      searchIndex,
+    );
+
+    await expect(service.deleteDocument(ID)).rejects.toThrow();
+    expect([...objects.keys()]).toEqual([`documents/${ID}.pdf`]);
+  });
+});
+
+describe('DocumentsAdminService.uploadDocuments', () => {
+  const { storage, objects } = memoryStorage([]);
+  const service = new DocumentsAdminService(
+    {} as SupabaseService,
+    {} as DocumentsService,
+    storage,
+    {} as DocumentSearchIndex,
+  );
+  const pdf = Buffer.from('%PDF-1.7\n');
+
+  it('rejects files that are not PDFs or whose metadata is incomplete', async () => {
+    const results = await service.uploadDocuments([
+      {
+        originalname: '고3_과학탐구_물리학 I__수능_2024_11_평가원_problem.pdf',
+        buffer: Buffer.from('<html>'),
+      },
+      {
+        originalname: '고3_과학탐구_물리학 I__수능_2024_11_학원_problem.pdf',
+        buffer: pdf,
+      },
+    ]);
+
+    expect(results).toEqual([
+      expect.objectContaining({
+        status: 'failed',
+        errors: ['not a PDF file (missing %PDF- header)'],
+      }),
+      expect.objectContaining({
+        status: 'failed',
+        errors: ["unknown source '학원'"],
+      }),
+    ]);
+    expect(objects.size).toBe(0);
+  });
+
+  it('lets overrides replace invalid filename components', async () => {
+    const { storage } = memoryStorage([]);
+    const { supabase, insert } = stubSupabase(null);
+    const documentsService = {
+      getDocumentById: (id: string) => Promise.resolve({ id }),
+    } as unknown as DocumentsService;
+    const uploader = new DocumentsAdminService(
+      supabase,
+      documentsService,
+      storage,
+      { invalidate: jest.fn() } as unknown as DocumentSearchIndex,
+    );
+
+    const [result] = await uploader.uploadDocuments(
+      [
+        {
+          originalname: '고3_과학탐구_물리학 I__수능_2024_11_학원_problem.pdf',
+          buffer: pdf,
+        },
+      ],
+      { source: '평가원' },
+    );
+
+    expect(result).toMatchObject({ status: 'created', errors: [] });
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        source: '평가원',
+        exam_year: 2024,
+        filename: '고3_과학탐구_물리학 I__수능_2024_11_평가원_problem.pdf',
+      }),
+    );
+  });
+
+  it('checks the filename metadata together with the overrides', async () => {
+    const results = await service.uploadDocuments(
+      [
+        {
+          originalname:
+            '고3_과학탐구_물리학 I__수능_2024_11_평가원_problem.pdf',
+          buffer: pdf,
+        },
+      ],
+      { category: '사회탐구' },
+    );
+
+    expect(results[0].errors).toEqual([
+      'subject 물리학 I not allowed in category 사회탐구',
+    ]);
+    expect(objects.size).toBe(0);
+  });
+});
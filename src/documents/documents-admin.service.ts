@@ -0,0 +1,339 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { SupabaseService } from '../supabase/supabase.service';
+import { fromPostgrestError } from '../supabase/postgrest-error';
+import { DomainError, ValidationError } from '../common/errors';
+import { StorageService } from '../storage/storage.service';
+import { deletedKey, documentKey, thumbnailKey } from '../storage/storage-keys';
+import { documentTitle, ExamMetadata } from '../naming/naming-convention';
+import {
+  checkExamMetadata,
+  ExamMetadataValues,
+  formatExamFilename,
+  parseExamFilename,
+  validateExamMetadata,
+} from '../naming/exam-filename';
+import { contentHash } from '../ingestion/ingestion-plan';
+import { Document, DocumentsService } from './documents.service';
+import { DocumentSearchIndex } from './document-search-index';
+
+/** Metadata of a new document whose PDF is already in storage */
+export interface CreateDocumentInput extends ExamMetadata {
+  /** Storage key of the uploaded PDF */
+  storage_path: string;
+  /** Defaults to the title generated from the metadata */
+  title?: string;
+}
+
+/** Metadata changes; the filename and title follow unless title is given */
+export type UpdateDocumentInput = Partial<ExamMetadata> & { title?: string };
+
+/** A PDF received by POST /admin/documents/upload */
+export interface UploadedPdf {
+  /** Client filename, already decoded to UTF-8 */
+  originalname: string;
+  buffer: Buffer;
+}
+
+export interface UploadResult {
+  filename: string;
+  status: 'created' | 'failed';
+  document: Document | null;
+  /** Filename parse errors and other reasons the file was not stored */
+  errors: string[];
+}
+
+/** Every PDF starts with this header */
+const PDF_SIGNATURE = Buffer.from('%PDF-');
+
+/**
+ * Columns of a documents row that hold ExamMetadata. There is no doc_type
+ * column; the type is only encoded in the filename.
+ */
+const METADATA_COLUMNS = [
+  'grade_level',
+  'category',
+  'subject',
+  'selection',
+  'exam_type',
+  'exam_year',
+  'exam_month',
+  'source',
+] as const;
+
+const METADATA_FIELDS = [...METADATA_COLUMNS, 'doc_type'] as const;
+
+/** The given metadata fields that are stored in their own column */
+function metadataColumns(
+  metadata: Partial<ExamMetadata>,
+): Partial<ExamMetadata> {
+  return Object.fromEntries(
+    METADATA_COLUMNS.filter((field) => metadata[field] !== undefined).map(
+      (field) => [field, metadata[field]],
+    ),
+  );
+}
+
+/**
+ * Admin writes to the documents table. Reads keep going through
+ * DocumentsService, which hides soft-deleted rows; every write marks the
+ * search index stale.
+ */
+@Injectable()
+export class DocumentsAdminService {
+  private readonly logger = new Logger(DocumentsAdminService.name);
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly documentsService: DocumentsService,
+    private readonly storageService: StorageService,
+    private readonly searchIndex: DocumentSearchIndex,
+  ) {}
+
+  private metadataOf(document: Document): ExamMetadata {
+    return Object.fromEntries(
+      METADATA_FIELDS.map((field) => [field, document[field] ?? '']),
+    ) as unknown as ExamMetadata;
+  }
+
+  private async insertDocument(
+    id: string,
+    metadata: ExamMetadata,
+    storagePath: string,
+    options: { title?: string; contentHash?: string } = {},
+  ): Promise<Document> {
+    const { error } = await this.supabaseService
+      .getAdminClient()
+      .from('documents')
+      .insert({
+        id,
+        ...metadataColumns(metadata),
+        title: options.title ?? documentTitle(metadata),
+        filename: formatExamFilename(metadata),
+        storage_path: storagePath,
+        content_hash: options.contentHash ?? null,
+        correct_answers: {},
+        question_scores: {},
+        created_at: new Date().toISOString(),
+      });
+
+    if (error) {
+      throw fromPostgrestError(error, 'Failed to create document');
+    }
+
+    this.searchIndex.invalidate();
+    return this.documentsService.getDocumentById(id);
+  }
+
+  /** Throws ValidationError listing every naming-convention problem */
+  private assertValidMetadata(metadata: ExamMetadata): void {
+    const issues = validateExamMetadata(metadata);
+    if (issues.length > 0) {
+      throw new ValidationError('Invalid document metadata', { issues });
+    }
+  }
+
+  async createDocument(input: CreateDocumentInput): Promise<Document> {
+    const { storage_path, title, ...metadata } = input;
+    this.assertValidMetadata(metadata);
+    if (!(await this.storageService.objectExists(input.storage_path))) {
+      throw new ValidationError(
+        `No object at storage_path ${input.storage_path}`,
+      );
+    }
+
+    return this.insertDocument(randomUUID(), metadata, storage_path, {
+      title,
+    });
+  }
+
+  /**
+   * Store one PDF and add its documents row. Metadata comes from the
+   * filename components with `overrides` replacing them, so an override
+   * fixes a bad component; the merged values are what gets checked.
+   */
+  private async uploadDocument(
+    file: UploadedPdf,
+    overrides: Partial<ExamMetadata>,
+  ): Promise<UploadResult> {
+    const filename = file.originalname.normalize('NFC');
+    const failed = (errors: string[]): UploadResult => ({
+      filename,
+      status: 'failed',
+      document: null,
+      errors,
+    });
+
+    if (!file.buffer.subarray(0, PDF_SIGNATURE.length).equals(PDF_SIGNATURE)) {
+      return failed(['not a PDF file (missing %PDF- header)']);
+    }
+
+    const parsed = parseExamFilename(filename);
+    const values = { ...parsed.values, ...overrides };
+    const missing = METADATA_FIELDS.filter(
+      (field) => values[field] === undefined,
+    );
+    if (missing.length > 0) {
+      // The filename did not split into components and its error says why
+      return failed(parsed.errors);
+    }
+    // Overrides may also pair a subject with the wrong category
+    const { metadata, errors } = checkExamMetadata(
+      values as ExamMetadataValues,
+    );
+    if (!metadata) {
+      return failed(errors);
+    }
+
+    const id = randomUUID();
+    const key = documentKey(id);
+    try {
+      await this.storageService.putObject(key, file.buffer, {
+        contentType: 'application/pdf',
+      });
+      try {
+        const document = await this.insertDocument(id, metadata, key, {
+          contentHash: contentHash(file.buffer),
+        });
+        return { filename, status: 'created', document, errors: [] };
+      } catch (error) {
+        await this.storageService.deleteObject(key).catch(() => undefined);
+        throw error;
+      }
+    } catch (error) {
+      if (!(error instanceof DomainError)) {
+        this.logger.error(
+          `Failed to upload ${filename}`,
+          error instanceof Error ? error.stack : String(error),
+        );
+      }
+      return failed([error instanceof Error ? error.message : String(error)]);
+    }
+  }
+
+  /** Upload PDFs one after another; one file failing does not stop the rest */
+  async uploadDocuments(
+    files: UploadedPdf[],
+    overrides: Partial<ExamMetadata> = {},
+  ): Promise<UploadResult[]> {
+    const defined = Object.fromEntries(
+      Object.entries(overrides).filter(([, value]) => value !== undefined),
+    ) as Partial<ExamMetadata>;
+
+    const results: UploadResult[] = [];
+    for (const file of files) {
+      results.push(await this.uploadDocument(file, defined));
+    }
+    return results;
+  }
+
+  /**
+   * Throws NotFoundError for missing and soft-deleted documents, and
+   * ValidationError when the changed metadata breaks the naming convention
+   */
+  async updateDocument(
+    id: string,
+    changes: UpdateDocumentInput,
+  ): Promise<Document> {
+    const current = await this.documentsService.getDocumentById(id);
+    const { title, ...metadataChanges } = changes;
+    const metadataChanged = METADATA_FIELDS.some(
+      (field) => metadataChanges[field] !== undefined,
+    );
+    // Title-only edits keep working on rows that predate the checks, and
+    // keep their filename, the only place doc_type is stored
+    let row: Record<string, unknown> = { title };
+    if (metadataChanged) {
+      const metadata = { ...this.metadataOf(current), ...metadataChanges };
+      this.assertValidMetadata(metadata);
+      row = {
+        ...metadataColumns(metadataChanges),
+        title: title ?? documentTitle(metadata),
+        filename: formatExamFilename(metadata),
+      };
+    } else if (title === undefined) {
+      return current;
+    }
+
+    const { error } = await this.supabaseService
+      .getAdminClient()
+      .from('documents')
+      .update(row)
+      .eq('id', id);
+
+    if (error) {
+      throw fromPostgrestError(
+        error,
+        'Failed to update document',
+        `Document ${id} not found`,
+      );
+    }
+
+    this.searchIndex.invalidate();
+    return this.documentsService.getDocumentById(id);
+  }
+
+  /** Copy an object to `to` and remove it from `from`; false when absent */
+  private async moveObject(from: string, to: string): Promise<boolean> {
+    if (!(await this.storageService.objectExists(from))) {
+      return false;
+    }
+    await this.storageService.putObject(
+      to,
+      await this.storageService.getObject(from),
+      { contentType: from.endsWith('.pdf') ? 'application/pdf' : 'image/png' },
+    );
+    await this.storageService.deleteObject(from);
+    return true;
+  }
+
+  /** Move objects back from `deleted/` after a delete failed half way */
+  private async restoreObjects(id: string, keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await this.moveObject(deletedKey(key), key).catch((error: unknown) =>
+        this.logger.error(
+          `Failed to restore ${key} after a failed delete of ${id}`,
+          error instanceof Error ? error.stack : String(error),
+        ),
+      );
+    }
+  }
+
+  /**
+   * Soft delete: the row stays with `deleted_at` set, and its PDF and
+   * thumbnail move under `deleted/` so signed URLs stop working but the
+   * files can be restored. Objects are moved back if the delete fails.
+   */
+  async deleteDocument(id: string): Promise<Document> {
+    const document = await this.documentsService.getDocumentById(id);
+    const pdfKey = document.storage_path || documentKey(id);
+
+    const moved: string[] = [];
+    try {
+      for (const key of [pdfKey, thumbnailKey(id)]) {
+        if (await this.moveObject(key, deletedKey(key))) {
+          moved.push(key);
+        }
+      }
+    } catch (error) {
+      await this.restoreObjects(id, moved);
+      throw error;
+    }
+
+    const deletedAt = new Date().toISOString();
+    const storagePath = moved.includes(pdfKey) ? deletedKey(pdfKey) : pdfKey;
+    const { error } = await this.supabaseService
+      .getAdminClient()
+      .from('documents')
+      .update({ deleted_at: deletedAt, storage_path: storagePath })
+      .eq('id', id);
+
+    if (error) {
+      await this.restoreObjects(id, moved);
+      throw fromPostgrestError(error, 'Failed to delete document');
+    }
+
+    this.searchIndex.invalidate();
+    return { ...document, storage_path: storagePath, deleted_at: deletedAt };
+  }
+}
@@ -1,223 +1,333 @@
-import { Controller, Get, Param, Query } from '@nestjs/common';
-import { DocumentsService, Document, DocumentFilters } from './documents.service';
+import { Controller, Get, HttpStatus, Param, Query, Res } from '@nestjs/common';
+import {
+  ApiExcludeEndpoint,
+  ApiFoundResponse,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { Response } from 'express';
+import {
+  DocumentsService,
+  DocumentListOptions,
+  DOCUMENT_SORT_FIELDS,
+  DEFAULT_DOCUMENT_SORT,
+} from './documents.service';
+import { DocumentSearchService } from './document-search.service';
+import { DocumentSuggestService } from './document-suggest.service';
+import {
+  DocumentFilterQueryDto,
+  FilteredDocumentsQueryDto,
+  toDocumentFilters,
+} from './dto/document-filter-query.dto';
+import {
+  CategoryParamDto,
+  DocumentIdParamDto,
+  SearchQueryDto,
+  SignedUrlQueryDto,
+  SubjectParamDto,
+  SuggestQueryDto,
+} from './dto/document-query.dto';
+import {
+  AvailableFiltersResponseDto,
+  DocumentListResponseDto,
+  DocumentResponseDto,
+  SearchResponseDto,
+  StringListResponseDto,
+  SuggestResponseDto,
+} from './dto/document-response.dto';
+import { SignedUrl, StorageService } from '../storage/storage.service';
+import { SignedUrlResponseDto } from '../storage/dto/signed-url.dto';
+import { documentKey, thumbnailKey } from '../storage/storage-keys';
+import { NotFoundError } from '../common/errors';
+import { ApiErrorResponses } from '../common/api-error-responses';
+import { ListQueryDto } from '../common/dto/list-query.dto';
+import { parseListQuery } from '../common/pagination';
 
+/** Row of GET /documents/debug/categories, for spotting stray whitespace */
+interface CategoryDebugEntry {
+  id: string;
+  category: string;
+  exam_type: string;
+  categoryLength: number;
+}
+
+@ApiTags('documents')
+@ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.SERVICE_UNAVAILABLE)
 @Controller('documents')
 export class DocumentsController {
-  constructor(private readonly documentsService: DocumentsService) {}
+  constructor(
+    private readonly documentsService: DocumentsService,
+    private readonly documentSearchService: DocumentSearchService,
+    private readonly documentSuggestService: DocumentSuggestService,
+    private readonly storageService: StorageService,
+  ) {}
+
+  private parseListOptions(query: ListQueryDto): DocumentListOptions {
+    return parseListQuery(query, DOCUMENT_SORT_FIELDS, DEFAULT_DOCUMENT_SORT);
+  }
 
   @Get()
-  async getAllDocuments(): Promise<{ success: boolean; data: Document[]; count: number }> {
-    try {
-      const documents = await this.documentsService.getAllDocuments();
-      return {
-        success: true,
-        data: documents,
-        count: documents.length,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        data: [],
-        count: 0,
-      };
-    }
+  @ApiOperation({ summary: 'List documents' })
+  @ApiOkResponse({ type: DocumentListResponseDto })
+  async getAllDocuments(
+    @Query() listQuery: ListQueryDto,
+  ): Promise<DocumentListResponseDto> {
+    const page = await this.documentsService.listDocuments(
+      this.parseListOptions(listQuery),
+    );
+    return {
+      success: true,
+      data: page.data,
+      count: page.data.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
+    };
   }
 
   @Get('filtered')
+  @ApiOperation({ summary: 'List documents matching filters' })
+  @ApiOkResponse({ type: DocumentListResponseDto })
   async getDocumentsWithFilters(
-    @Query('grade_levels') gradeLevels?: string,
-    @Query('categories') categories?: string,
-    @Query('exam_years') examYears?: string,
-    @Query('exam_months') examMonths?: string,
-  ): Promise<{ success: boolean; data: Document[]; count: number }> {
-    try {
-      const filters: DocumentFilters = {};
-
-      // Parse query parameters
-      if (gradeLevels) {
-        filters.grade_levels = gradeLevels.split(',').map(level => level.trim());
-      }
-
-      if (categories) {
-        filters.categories = categories.split(',').map(category => category.trim());
-      }
-
-      if (examYears) {
-        filters.exam_years = examYears.split(',').map(year => parseInt(year.trim(), 10));
-      }
-
-      if (examMonths) {
-        filters.exam_months = examMonths.split(',').map(month => parseInt(month.trim(), 10));
-      }
-
-      const documents = await this.documentsService.getDocumentsWithFilters(filters);
-      return {
-        success: true,
-        data: documents,
-        count: documents.length,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        data: [],
-        count: 0,
-      };
-    }
+    @Query() query: FilteredDocumentsQueryDto,
+  ): Promise<DocumentListResponseDto> {
+    const page = await this.documentsService.getDocumentsWithFilters(
+      toDocumentFilters(query),
+      this.parseListOptions(query),
+    );
+    return {
+      success: true,
+      data: page.data,
+      count: page.data.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
+    };
   }
 
-  @Get('filters/available')
-  async getAvailableFilterValues(): Promise<{
-    success: boolean;
-    data: {
-      gradeLevels: string[];
-      categories: string[];
-      examYears: number[];
-      examMonths: number[];
+  @Get('search')
+  @ApiOperation({ summary: 'Search documents by free text' })
+  @ApiOkResponse({ type: SearchResponseDto })
+  async searchDocuments(
+    @Query() query: SearchQueryDto,
+  ): Promise<SearchResponseDto> {
+    const response = await this.documentSearchService.search(
+      query.q,
+      query.limit,
+    );
+    return {
+      success: true,
+      data: response.results,
+      count: response.results.length,
+      total: response.total,
+      tokens: response.tokens,
     };
-  }> {
-    try {
-      const filterValues = await this.documentsService.getAvailableFilterValues();
-      return {
-        success: true,
-        data: {
-          gradeLevels: filterValues.grade_levels,
-          categories: filterValues.categories,
-          examYears: filterValues.exam_years,
-          examMonths: filterValues.exam_months,
-        },
-      };
-    } catch (error) {
-      return {
-        success: false,
-        data: {
-          gradeLevels: [],
-          categories: [],
-          examYears: [],
-          examMonths: [],
+  }
+
+  @Get('suggest')
+  @ApiOperation({ summary: 'Autocomplete suggestions for the search box' })
+  @ApiOkResponse({ type: SuggestResponseDto })
+  async suggest(@Query() query: SuggestQueryDto): Promise<SuggestResponseDto> {
+    const suggestions = await this.documentSuggestService.suggest(
+      query.prefix,
+      query.limit,
+    );
+    return {
+      success: true,
+      data: suggestions,
+    };
+  }
+
+  @Get('filters/available')
+  @ApiOperation({ summary: 'Available filter values with facet counts' })
+  @ApiOkResponse({ type: AvailableFiltersResponseDto })
+  async getAvailableFilterValues(
+    @Query() query: DocumentFilterQueryDto,
+  ): Promise<AvailableFiltersResponseDto> {
+    const filterValues = await this.documentsService.getAvailableFilterValues(
+      toDocumentFilters(query),
+    );
+    const { facets } = filterValues;
+    return {
+      success: true,
+      data: {
+        gradeLevels: filterValues.grade_levels,
+        categories: filterValues.categories,
+        subjects: filterValues.subjects,
+        selections: filterValues.selections,
+        examTypes: filterValues.exam_types,
+        sources: filterValues.sources,
+        docTypes: filterValues.doc_types,
+        examYears: filterValues.exam_years,
+        examMonths: filterValues.exam_months,
+        facets: {
+          gradeLevels: facets.grade_levels,
+          categories: facets.categories,
+          subjects: facets.subjects,
+          selections: facets.selections,
+          examTypes: facets.exam_types,
+          sources: facets.sources,
+          docTypes: facets.doc_types,
+          examYears: facets.exam_years,
+          examMonths: facets.exam_months,
         },
-      };
-    }
+      },
+    };
   }
 
   @Get('categories/list')
-  async getAvailableCategories(): Promise<{ success: boolean; data: string[] }> {
-    try {
-      const documents = await this.documentsService.getAllDocuments();
-      // Use exam_type for categories since that contains "수능", "모의고사", etc.
-      const categories = [...new Set(documents.map(doc => doc.exam_type))];
-      return {
-        success: true,
-        data: categories,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        data: [],
-      };
-    }
+  @ApiOperation({ summary: 'Exam types present in the documents' })
+  @ApiOkResponse({ type: StringListResponseDto })
+  async getAvailableCategories(): Promise<StringListResponseDto> {
+    const documents = await this.documentsService.getAllDocuments();
+    // Use exam_type for categories since that contains "수능", "모의고사", etc.
+    const categories = [...new Set(documents.map((doc) => doc.exam_type))];
+    return {
+      success: true,
+      data: categories,
+    };
   }
 
   @Get('subjects/list')
-  async getAvailableSubjects(): Promise<{ success: boolean; data: string[] }> {
-    try {
-      const documents = await this.documentsService.getAllDocuments();
-      const subjects = [...new Set(documents.map(doc => doc.subject))];
-      return {
-        success: true,
-        data: subjects,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        data: [],
-      };
-    }
+  @ApiOperation({ summary: 'Subjects present in the documents' })
+  @ApiOkResponse({ type: StringListResponseDto })
+  async getAvailableSubjects(): Promise<StringListResponseDto> {
+    const documents = await this.documentsService.getAllDocuments();
+    const subjects = [...new Set(documents.map((doc) => doc.subject))];
+    return {
+      success: true,
+      data: subjects,
+    };
   }
 
   @Get('debug/categories')
-  async debugCategories(): Promise<{ success: boolean; data: any }> {
-    try {
-      const documents = await this.documentsService.getAllDocuments();
-      const categories = documents.map(doc => ({ 
-        id: doc.id, 
-        category: doc.category, 
-        exam_type: doc.exam_type,
-        categoryLength: doc.category.length 
-      }));
-      return {
-        success: true,
-        data: categories,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        data: { error: error.message },
-      };
-    }
+  @ApiExcludeEndpoint()
+  async debugCategories(): Promise<{
+    success: boolean;
+    data: CategoryDebugEntry[];
+  }> {
+    const documents = await this.documentsService.getAllDocuments();
+    const categories = documents.map((doc) => ({
+      id: doc.id,
+      category: doc.category,
+      exam_type: doc.exam_type,
+      categoryLength: doc.category.length,
+    }));
+    return {
+      success: true,
+      data: categories,
+    };
   }
 
   @Get('category/:category')
+  @ApiOperation({ summary: 'List documents in a category' })
+  @ApiOkResponse({ type: DocumentListResponseDto })
   async getDocumentsByCategory(
-    @Param('category') category: string,
-  ): Promise<{ success: boolean; data: Document[]; count: number; debug?: string }> {
-    try {
-      console.log('Searching for category:', category);
-      const documents = await this.documentsService.getDocumentsByCategory(category);
-      console.log('Found documents:', documents.length);
-      return {
-        success: true,
-        data: documents,
-        count: documents.length,
-        debug: `Searched for category: ${category}, found: ${documents.length} documents`
-      };
-    } catch (error) {
-      console.error('Error in getDocumentsByCategory:', error);
-      return {
-        success: false,
-        data: [],
-        count: 0,
-        debug: `Error: ${error.message}`
-      };
-    }
+    @Param() { category }: CategoryParamDto,
+    @Query() listQuery: ListQueryDto,
+  ): Promise<DocumentListResponseDto> {
+    const page = await this.documentsService.getDocumentsByCategory(
+      category,
+      this.parseListOptions(listQuery),
+    );
+    return {
+      success: true,
+      data: page.data,
+      count: page.data.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
+    };
   }
 
   @Get('subject/:subject')
+  @ApiOperation({ summary: 'List documents of a subject' })
+  @ApiOkResponse({ type: DocumentListResponseDto })
   async getDocumentsBySubject(
-    @Param('subject') subject: string,
-  ): Promise<{ success: boolean; data: Document[]; count: number }> {
-    try {
-      const documents = await this.documentsService.getDocumentsBySubject(subject);
-      return {
-        success: true,
-        data: documents,
-        count: documents.length,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        data: [],
-        count: 0,
-      };
-    }
+    @Param() { subject }: SubjectParamDto,
+    @Query() listQuery: ListQueryDto,
+  ): Promise<DocumentListResponseDto> {
+    const page = await this.documentsService.getDocumentsBySubject(
+      subject,
+      this.parseListOptions(listQuery),
+    );
+    return {
+      success: true,
+      data: page.data,
+      count: page.data.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
+    };
   }
 
   @Get(':id')
+  @ApiOperation({ summary: 'Get a document' })
+  @ApiOkResponse({ type: DocumentResponseDto })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND)
   async getDocumentById(
-    @Param('id') id: string,
-  ): Promise<{ success: boolean; data: Document | null }> {
-    try {
-      const document = await this.documentsService.getDocumentById(id);
-      return {
-        success: true,
-        data: document,
-      };
-    } catch (error) {
-      return {
-        success: false,
-        data: null,
-      };
+    @Param() { id }: DocumentIdParamDto,
+  ): Promise<DocumentResponseDto> {
+    const document = await this.documentsService.getDocumentById(id);
+    return {
+      success: true,
+      data: document,
+    };
+  }
+
+  /**
+   * Send a signed URL either as JSON or, with `?redirect=true`, as a 302
+   */
+  private sendSignedUrl(
+    res: Response,
+    signed: SignedUrl,
+    redirect?: boolean,
+  ): void {
+    if (redirect) {
+      res.redirect(302, signed.url);
+    } else {
+      res.json({ success: true, data: signed });
     }
   }
 
+  @Get(':id/download')
+  @ApiOperation({ summary: 'Signed download URL of the document PDF' })
+  @ApiOkResponse({ type: SignedUrlResponseDto })
+  @ApiFoundResponse({ description: 'Redirect to the signed URL' })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND)
+  async getDownloadUrl(
+    @Param() { id }: DocumentIdParamDto,
+    @Query() { redirect, expires_in }: SignedUrlQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const document = await this.documentsService.getDocumentById(id);
+    const signed = await this.storageService.getSignedDownloadUrl(
+      document.storage_path || documentKey(document.id),
+      {
+        expiresIn: expires_in,
+        filename: document.filename,
+        contentType: 'application/pdf',
+      },
+    );
+    this.sendSignedUrl(res, signed, redirect);
+  }
 
-} 
\ No newline at end of file
+  @Get(':id/thumbnail')
+  @ApiOperation({ summary: 'Signed URL of the document thumbnail' })
+  @ApiOkResponse({ type: SignedUrlResponseDto })
+  @ApiFoundResponse({ description: 'Redirect to the signed URL' })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND)
+  async getThumbnailUrl(
+    @Param() { id }: DocumentIdParamDto,
+    @Query() { redirect, expires_in }: SignedUrlQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const document = await this.documentsService.getDocumentById(id);
+    const key = thumbnailKey(document.id);
+    if (!(await this.storageService.objectExists(key))) {
+      throw new NotFoundError(`No thumbnail generated for document ${id}`);
+    }
+    const signed = await this.storageService.getSignedDownloadUrl(key, {
+      expiresIn: expires_in,
+      contentType: 'image/png',
+    });
+    this.sendSignedUrl(res, signed, redirect);
+  }
+}
@@ -1,9 +1,21 @@
 import { Module } from '@nestjs/common';
 import { DocumentsController } from './documents.controller';
+import { AdminDocumentsController } from './admin-documents.controller';
 import { DocumentsService } from './documents.service';
+import { DocumentsAdminService } from './documents-admin.service';
+import { DocumentSearchService } from './document-search.service';
+import { DocumentSearchIndex } from './document-search-index';
+import { DocumentSuggestService } from './document-suggest.service';
 
 @Module({
-  controllers: [DocumentsController],
-  providers: [DocumentsService],
+  controllers: [DocumentsController, AdminDocumentsController],
+  providers: [
+    DocumentsService,
+    DocumentsAdminService,
+    DocumentSearchService,
+    DocumentSearchIndex,
+    DocumentSuggestService,
+  ],
+  exports: [DocumentsService],
 })
-export class DocumentsModule {} 
\ No newline at end of file
+export class DocumentsModule {}
@@ -1,5 +1,15 @@
 import { Injectable } from '@nestjs/common';
+import type { PostgrestFilterBuilder } from '@supabase/postgrest-js';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { SupabaseService } from '../supabase/supabase.service';
+import {
+  ListOptions,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../common/pagination';
+import { ValidationError } from '../common/errors';
+import { fromPostgrestError } from '../supabase/postgrest-error';
+import { DOC_TYPES, DocType } from '../naming/naming-convention';
 
 export interface Document {
   id: string;
@@ -15,15 +25,105 @@ export interface Document {
   storage_path: string;
   created_at: string;
   source?: string;
+  doc_type?: DocType | null;
+  /** SHA-256 of the PDF; lets ingestion skip files it already added */
+  content_hash?: string | null;
+  /** Set by DELETE /admin/documents/:id; deleted documents are never listed */
+  deleted_at?: string | null;
 }
 
+export { DOC_TYPES } from '../naming/naming-convention';
+export type { DocType } from '../naming/naming-convention';
+
 export interface DocumentFilters {
   grade_levels?: string[];
   categories?: string[];
+  subjects?: string[];
+  selections?: string[];
+  exam_types?: string[];
+  sources?: string[];
+  doc_types?: string[];
   exam_years?: number[];
   exam_months?: number[];
+  exam_year_from?: number;
+  exam_year_to?: number;
+}
+
+/**
+ * A filter builder over the documents table with any selected columns.
+ * Schema and row types are those of the untyped Supabase client.
+ */
+type DocumentsQuery<Result, Relation, Relationships> =
+  ReturnType<
+    ReturnType<SupabaseClient['from']>['select']
+  > extends PostgrestFilterBuilder<infer Schema, infer Row, unknown[], string>
+    ? PostgrestFilterBuilder<Schema, Row, Result, Relation, Relationships>
+    : never;
+
+export interface FacetCount<T extends string | number = string> {
+  value: T;
+  count: number;
+}
+
+export interface DocumentFacets {
+  grade_levels: FacetCount[];
+  categories: FacetCount[];
+  subjects: FacetCount[];
+  selections: FacetCount[];
+  exam_types: FacetCount[];
+  sources: FacetCount[];
+  doc_types: FacetCount[];
+  exam_years: FacetCount<number>[];
+  exam_months: FacetCount<number>[];
 }
 
+export interface AvailableFilterValues {
+  grade_levels: string[];
+  categories: string[];
+  subjects: string[];
+  selections: string[];
+  exam_types: string[];
+  sources: string[];
+  doc_types: string[];
+  exam_years: number[];
+  exam_months: number[];
+  facets: DocumentFacets;
+}
+
+/**
+ * Facets that can be counted with a single grouped query, keyed by the
+ * DocumentFilters field they correspond to.
+ */
+const COLUMN_FACETS = [
+  ['grade_levels', 'grade_level'],
+  ['categories', 'category'],
+  ['subjects', 'subject'],
+  ['selections', 'selection'],
+  ['exam_types', 'exam_type'],
+  ['sources', 'source'],
+  ['exam_years', 'exam_year'],
+  ['exam_months', 'exam_month'],
+] as const;
+
+export const DOCUMENT_SORT_FIELDS = [
+  'created_at',
+  'exam_year',
+  'exam_month',
+  'subject',
+] as const;
+
+export type DocumentSortField = (typeof DOCUMENT_SORT_FIELDS)[number];
+
+export type DocumentListOptions = ListOptions<DocumentSortField>;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const DEFAULT_DOCUMENT_SORT = {
+  sort: 'created_at' as DocumentSortField,
+  order: 'desc' as const,
+};
+
 @Injectable()
 export class DocumentsService {
   constructor(private readonly supabaseService: SupabaseService) {}
@@ -34,7 +134,7 @@ export class DocumentsService {
    */
   private normalizeKoreanText(text: string): string {
     if (!text) return text;
-    
+
     // Normalize to NFC (precomposed form)
     // This converts characters like 국어 to 국어
     return text.normalize('NFC');
@@ -46,166 +146,365 @@ export class DocumentsService {
    */
   public normalizeInput(text: string): string {
     if (!text) return text;
-    
+
     // Trim whitespace and normalize to NFC
     return text.trim().normalize('NFC');
   }
 
+  /**
+   * The documents table has no doc_type column; the type is the last
+   * component of the naming-convention filename (e.g. `..._평가원_answer.pdf`).
+   */
+  private docTypeFromFilename(filename: string): DocType | null {
+    const match = /_([a-z]+)\.pdf$/.exec(filename || '');
+    const docType = match?.[1] as DocType | undefined;
+    return docType && DOC_TYPES.includes(docType) ? docType : null;
+  }
 
+  private withDocType(document: Document): Document {
+    return {
+      ...document,
+      doc_type: this.docTypeFromFilename(document.filename),
+    };
+  }
 
-  async getAllDocuments(): Promise<Document[]> {
-    try {
-      const supabase = this.supabaseService.getClient();
-      const { data, error } = await supabase
-        .from('documents')
-        .select('*')
-        .order('created_at', { ascending: false });
+  /**
+   * Apply DocumentFilters to any documents query. String values are NFC
+   * normalized so decomposed Hangul from clients still matches, and an
+   * empty string value also matches NULL.
+   */
+  private applyFilters<Result, Relation, Relationships>(
+    query: DocumentsQuery<Result, Relation, Relationships>,
+    filters: DocumentFilters,
+  ): DocumentsQuery<Result, Relation, Relationships> {
+    const stringFilters: [keyof DocumentFilters, string][] = [
+      ['grade_levels', 'grade_level'],
+      ['categories', 'category'],
+      ['subjects', 'subject'],
+      ['selections', 'selection'],
+      ['exam_types', 'exam_type'],
+      ['sources', 'source'],
+    ];
 
-      if (error) {
-        throw new Error(`Failed to fetch documents: ${error.message}`);
+    for (const [key, column] of stringFilters) {
+      const values = filters[key] as string[] | undefined;
+      if (!values || values.length === 0) continue;
+
+      const normalized = values.map((value) => this.normalizeKoreanText(value));
+      if (normalized.includes('')) {
+        // An empty value asks for rows without one, which older rows store
+        // as NULL rather than ''
+        const quoted = normalized.map(
+          (value) => `"${value.replace(/["\\]/g, '\\$&')}"`,
+        );
+        query = query.or(
+          `${column}.is.null,${column}.in.(${quoted.join(',')})`,
+        );
+      } else {
+        query = query.in(column, normalized);
       }
+    }
 
-      return data || [];
-    } catch (error) {
-      throw new Error(`Error fetching documents: ${error.message}`);
+    if (filters.exam_years && filters.exam_years.length > 0) {
+      query = query.in('exam_year', filters.exam_years);
     }
-  }
 
-  async getDocumentsWithFilters(filters: DocumentFilters): Promise<Document[]> {
-    try {
-      const supabase = this.supabaseService.getClient();
-      let query = supabase.from('documents').select('*');
+    if (filters.exam_months && filters.exam_months.length > 0) {
+      query = query.in('exam_month', filters.exam_months);
+    }
 
-      // Apply filters if they exist
-      if (filters.grade_levels && filters.grade_levels.length > 0) {
-        // Normalize the filter values to ensure proper matching
-        const normalizedGradeLevels = filters.grade_levels.map(level => 
-          this.normalizeKoreanText(level)
-        );
-        query = query.in('grade_level', normalizedGradeLevels);
-      }
+    if (filters.exam_year_from !== undefined) {
+      query = query.gte('exam_year', filters.exam_year_from);
+    }
 
-      if (filters.categories && filters.categories.length > 0) {
-        // Normalize the filter values to ensure proper matching
-        const normalizedCategories = filters.categories.map(category => 
-          this.normalizeKoreanText(category)
-        );
-        query = query.in('category', normalizedCategories);
-      }
+    if (filters.exam_year_to !== undefined) {
+      query = query.lte('exam_year', filters.exam_year_to);
+    }
 
-      if (filters.exam_years && filters.exam_years.length > 0) {
-        query = query.in('exam_year', filters.exam_years);
+    if (filters.doc_types && filters.doc_types.length > 0) {
+      const invalid = filters.doc_types.filter(
+        (docType) => !DOC_TYPES.includes(docType as DocType),
+      );
+      if (invalid.length > 0) {
+        throw new ValidationError(`Invalid doc_types: ${invalid.join(', ')}`, {
+          allowed: DOC_TYPES,
+        });
       }
+      query = query.or(
+        filters.doc_types
+          .map((docType) => `filename.like.*_${docType}.pdf`)
+          .join(','),
+      );
+    }
 
-      if (filters.exam_months && filters.exam_months.length > 0) {
-        query = query.in('exam_month', filters.exam_months);
-      }
+    return query;
+  }
 
-      const { data, error } = await query.order('created_at', { ascending: false });
+  private baseQuery() {
+    return this.supabaseService
+      .getClient()
+      .from('documents')
+      .select('*', { count: 'exact' })
+      .is('deleted_at', null);
+  }
 
-      if (error) {
-        throw new Error(`Failed to fetch documents with filters: ${error.message}`);
-      }
+  /**
+   * Apply ordering and a Supabase range() window to a documents query.
+   * `id` is used as a tie-breaker so pages stay stable between requests.
+   */
+  private async paginate(
+    query: ReturnType<DocumentsService['baseQuery']>,
+    options: DocumentListOptions,
+  ): Promise<PaginatedResult<Document>> {
+    const { data, error, count } = await query
+      .order(options.sort, { ascending: options.order === 'asc' })
+      .order('id', { ascending: true })
+      .range(options.offset, options.offset + options.limit - 1);
 
-      return data || [];
-    } catch (error) {
-      throw new Error(`Error fetching documents with filters: ${error.message}`);
+    if (error) {
+      throw fromPostgrestError(error, 'Failed to fetch documents');
     }
+
+    return toPaginatedResult(
+      (data || []).map((row: Document) => this.withDocType(row)),
+      count ?? 0,
+      options,
+    );
   }
 
-  async getAvailableFilterValues(): Promise<{
-    grade_levels: string[];
-    categories: string[];
-    exam_years: number[];
-    exam_months: number[];
-  }> {
-    try {
-      const documents = await this.getAllDocuments();
-      
-      // Normalize the values to fix encoding issues
-      const grade_levels = [...new Set(documents.map(doc => 
-        this.normalizeKoreanText(doc.grade_level)
-      ))].sort();
-      
-      // Use exam_type for categories since that contains "수능", "모의고사", etc.
-      const categories = [...new Set(documents.map(doc => 
-        this.normalizeKoreanText(doc.category)
-      ))].sort();
-      
-      const exam_years = [...new Set(documents.map(doc => doc.exam_year))].sort((a, b) => b - a);
-      const exam_months = [...new Set(documents.map(doc => doc.exam_month))].sort((a, b) => a - b);
-
-      return {
-        grade_levels,
-        categories,
-        exam_years,
-        exam_months,
-      };
-    } catch (error) {
-      throw new Error(`Error fetching available filter values: ${error.message}`);
-    }
+  async listDocuments(
+    options: DocumentListOptions,
+  ): Promise<PaginatedResult<Document>> {
+    return this.paginate(this.baseQuery(), options);
   }
 
-  async getDocumentsByCategory(category: string): Promise<Document[]> {
-    try {
-      const supabase = this.supabaseService.getClient();
-      // Normalize the category parameter to ensure proper matching
-      const normalizedCategory = this.normalizeKoreanText(category);
-      
-      const { data, error } = await supabase
-        .from('documents')
-        .select('*')
-        .eq('category', normalizedCategory)
-        .order('created_at', { ascending: false });
+  /**
+   * Fetch documents matching PostgREST `or` condition groups. Groups are
+   * combined with AND, conditions within a group with OR.
+   */
+  async findDocumentsMatching(
+    conditionGroups: string[][],
+    limit: number,
+  ): Promise<Document[]> {
+    let query = this.supabaseService
+      .getClient()
+      .from('documents')
+      .select('*')
+      .is('deleted_at', null);
 
-      if (error) {
-        throw new Error(`Failed to fetch documents by category: ${error.message}`);
+    for (const conditions of conditionGroups) {
+      if (conditions.length > 0) {
+        query = query.or(conditions.join(','));
       }
+    }
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw fromPostgrestError(error, 'Failed to search documents');
+    }
 
-      return data || [];
-    } catch (error) {
-      throw new Error(`Error fetching documents by category: ${error.message}`);
+    return (data || []).map((row: Document) => this.withDocType(row));
+  }
+
+  async getAllDocuments(filters: DocumentFilters = {}): Promise<Document[]> {
+    const supabase = this.supabaseService.getClient();
+    const { data, error } = await this.applyFilters(
+      supabase.from('documents').select('*').is('deleted_at', null),
+      filters,
+    ).order('created_at', { ascending: false });
+
+    if (error) {
+      throw fromPostgrestError(error, 'Failed to fetch documents');
     }
+
+    return (data || []).map((row: Document) => this.withDocType(row));
+  }
+
+  async getDocumentsWithFilters(
+    filters: DocumentFilters,
+    options: DocumentListOptions,
+  ): Promise<PaginatedResult<Document>> {
+    return this.paginate(this.applyFilters(this.baseQuery(), filters), options);
   }
 
-  async getDocumentsBySubject(subject: string): Promise<Document[]> {
-    try {
-      const supabase = this.supabaseService.getClient();
-      // Normalize the subject parameter to ensure proper matching
-      const normalizedSubject = this.normalizeKoreanText(subject);
-      
-      const { data, error } = await supabase
+  /**
+   * Count documents per distinct value of `column` with a grouped
+   * (aggregate) query. Requires PostgREST aggregates to be enabled
+   * (`pgrst.db_aggregates_enabled`).
+   */
+  private async countByColumn(
+    column: string,
+    filters: DocumentFilters,
+  ): Promise<FacetCount<string | number>[]> {
+    const query = this.applyFilters(
+      this.supabaseService
+        .getClient()
         .from('documents')
-        .select('*')
-        .eq('subject', normalizedSubject)
-        .order('created_at', { ascending: false });
+        .select(`${column}, count()`)
+        .is('deleted_at', null),
+      filters,
+    );
+    const { data, error } = await query;
 
-      if (error) {
-        throw new Error(`Failed to fetch documents by subject: ${error.message}`);
-      }
+    if (error) {
+      throw fromPostgrestError(error, `Failed to count documents by ${column}`);
+    }
 
-      return data || [];
-    } catch (error) {
-      throw new Error(`Error fetching documents by subject: ${error.message}`);
+    // Rows stored with decomposed Hangul group separately, so merge them
+    const counts = new Map<string | number, number>();
+    for (const row of (data || []) as unknown as Record<string, unknown>[]) {
+      const raw = row[column];
+      if (raw === null || raw === undefined || raw === '') continue;
+      const value =
+        typeof raw === 'string'
+          ? this.normalizeKoreanText(raw)
+          : (raw as number);
+      counts.set(value, (counts.get(value) ?? 0) + Number(row.count));
     }
+
+    return [...counts.entries()].map(([value, count]) => ({ value, count }));
   }
 
-  async getDocumentById(id: string): Promise<Document | null> {
-    try {
-      const supabase = this.supabaseService.getClient();
-      const { data, error } = await supabase
-        .from('documents')
-        .select('*')
-        .eq('id', id)
-        .single();
+  private async countByDocType(
+    filters: DocumentFilters,
+  ): Promise<FacetCount[]> {
+    const counts = await Promise.all(
+      DOC_TYPES.map(async (docType) => {
+        const { count, error } = await this.applyFilters(
+          this.supabaseService
+            .getClient()
+            .from('documents')
+            .select('id', { count: 'exact', head: true })
+            .is('deleted_at', null),
+          { ...filters, doc_types: [docType] },
+        );
 
-      if (error) {
-        throw new Error(`Failed to fetch document: ${error.message}`);
-      }
+        if (error) {
+          throw fromPostgrestError(
+            error,
+            `Failed to count ${docType} documents`,
+          );
+        }
+
+        return { value: docType as string, count: count ?? 0 };
+      }),
+    );
+
+    return counts.filter((facet) => facet.count > 0);
+  }
 
-      return data;
-    } catch (error) {
-      throw new Error(`Error fetching document: ${error.message}`);
+  /**
+   * For every facet, count the documents that would match if that value
+   * were added to the current selection. Each facet is counted with its own
+   * filter removed so sibling values stay visible.
+   */
+  async getFacetCounts(filters: DocumentFilters = {}): Promise<DocumentFacets> {
+    const [columnCounts, docTypes] = await Promise.all([
+      Promise.all(
+        COLUMN_FACETS.map(([key, column]) =>
+          this.countByColumn(column, { ...filters, [key]: undefined }),
+        ),
+      ),
+      this.countByDocType(filters),
+    ]);
+
+    const facet = (key: (typeof COLUMN_FACETS)[number][0]) =>
+      columnCounts[COLUMN_FACETS.findIndex(([name]) => name === key)];
+    const byValue = (a: FacetCount<string>, b: FacetCount<string>) =>
+      a.value.localeCompare(b.value);
+
+    return {
+      grade_levels: (facet('grade_levels') as FacetCount[]).sort(byValue),
+      categories: (facet('categories') as FacetCount[]).sort(byValue),
+      subjects: (facet('subjects') as FacetCount[]).sort(byValue),
+      selections: (facet('selections') as FacetCount[]).sort(byValue),
+      exam_types: (facet('exam_types') as FacetCount[]).sort(byValue),
+      sources: (facet('sources') as FacetCount[]).sort(byValue),
+      doc_types: docTypes,
+      exam_years: (facet('exam_years') as FacetCount<number>[]).sort(
+        (a, b) => b.value - a.value,
+      ),
+      exam_months: (facet('exam_months') as FacetCount<number>[]).sort(
+        (a, b) => a.value - b.value,
+      ),
+    };
+  }
+
+  async getAvailableFilterValues(
+    filters: DocumentFilters = {},
+  ): Promise<AvailableFilterValues> {
+    const facets = await this.getFacetCounts(filters);
+    const values = <T extends string | number>(counts: FacetCount<T>[]) =>
+      counts.map((facet) => facet.value);
+
+    return {
+      grade_levels: values(facets.grade_levels),
+      categories: values(facets.categories),
+      subjects: values(facets.subjects),
+      selections: values(facets.selections),
+      exam_types: values(facets.exam_types),
+      sources: values(facets.sources),
+      doc_types: values(facets.doc_types),
+      exam_years: values(facets.exam_years),
+      exam_months: values(facets.exam_months),
+      facets,
+    };
+  }
+
+  async getDocumentsByCategory(
+    category: string,
+    options: DocumentListOptions,
+  ): Promise<PaginatedResult<Document>> {
+    // Normalize the category parameter to ensure proper matching
+    const normalizedCategory = this.normalizeKoreanText(category);
+
+    return this.paginate(
+      this.baseQuery().eq('category', normalizedCategory),
+      options,
+    );
+  }
+
+  async getDocumentsBySubject(
+    subject: string,
+    options: DocumentListOptions,
+  ): Promise<PaginatedResult<Document>> {
+    // Normalize the subject parameter to ensure proper matching
+    const normalizedSubject = this.normalizeKoreanText(subject);
+
+    return this.paginate(
+      this.baseQuery().eq('subject', normalizedSubject),
+      options,
+    );
+  }
+
+  /**
+   * Throws NotFoundError when no document has this id, and ValidationError
+   * when the id is not a UUID
+   */
+  async getDocumentById(id: string): Promise<Document> {
+    if (!UUID_PATTERN.test(id)) {
+      throw new ValidationError(`Invalid document id: ${id}`);
     }
+
+    const supabase = this.supabaseService.getClient();
+    const { data, error } = await supabase
+      .from('documents')
+      .select('*')
+      .eq('id', id)
+      .is('deleted_at', null)
+      .single<Document>();
+
+    if (error) {
+      throw fromPostgrestError(
+        error,
+        'Failed to fetch document',
+        `Document ${id} not found`,
+      );
+    }
+
+    return this.withDocType(data);
   }
-} 
\ No newline at end of file
+}
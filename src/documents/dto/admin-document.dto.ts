@@ -0,0 +1,158 @@
+import {
+  ApiProperty,
+  ApiPropertyOptional,
+  OmitType,
+  PartialType,
+} from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ToNormalizedString } from '../../common/dto/query-transforms';
+import {
+  CATEGORIES,
+  DOC_TYPES,
+  EXAM_TYPES,
+  GRADE_LEVELS,
+  MIN_EXAM_YEAR,
+  SOURCES,
+  maxExamYear,
+} from '../../naming/naming-convention';
+import type {
+  Category,
+  DocType,
+  ExamType,
+  GradeLevel,
+  Source,
+} from '../../naming/naming-convention';
+import type { CreateDocumentInput } from '../documents-admin.service';
+
+/**
+ * Body of POST /admin/documents. Values are NFC normalized and checked
+ * against the naming convention; the filename is generated from them.
+ */
+export class CreateDocumentDto implements CreateDocumentInput {
+  @ApiProperty({ enum: GRADE_LEVELS })
+  @ToNormalizedString()
+  @IsIn(GRADE_LEVELS)
+  grade_level: GradeLevel;
+
+  @ApiProperty({ enum: CATEGORIES })
+  @ToNormalizedString()
+  @IsIn(CATEGORIES)
+  category: Category;
+
+  @ApiProperty({ maxLength: 50, example: '물리학 I' })
+  @ToNormalizedString()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  subject: string;
+
+  @ApiProperty({
+    maxLength: 50,
+    example: '',
+    description: "선택과목 such as 미적분, or '' when there is none",
+  })
+  @ToNormalizedString()
+  @IsString()
+  @MaxLength(50)
+  selection: string;
+
+  @ApiProperty({ enum: EXAM_TYPES })
+  @ToNormalizedString()
+  @IsIn(EXAM_TYPES)
+  exam_type: ExamType;
+
+  @ApiProperty({
+    type: 'integer',
+    minimum: MIN_EXAM_YEAR,
+    maximum: maxExamYear(),
+    example: 2024,
+  })
+  @IsInt()
+  @Min(MIN_EXAM_YEAR)
+  @Max(maxExamYear())
+  exam_year: number;
+
+  @ApiProperty({ type: 'integer', minimum: 1, maximum: 12, example: 11 })
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  exam_month: number;
+
+  @ApiProperty({ enum: SOURCES })
+  @ToNormalizedString()
+  @IsIn(SOURCES)
+  source: Source;
+
+  @ApiProperty({ enum: DOC_TYPES })
+  @IsIn(DOC_TYPES)
+  doc_type: DocType;
+
+  @ApiProperty({
+    maxLength: 300,
+    example: 'documents/123e4567-e89b-12d3-a456-426614174000.pdf',
+    description: 'Storage key of the PDF, which must already exist',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(300)
+  storage_path: string;
+
+  @ApiPropertyOptional({
+    maxLength: 200,
+    description: 'Defaults to a title generated from the metadata',
+  })
+  @IsOptional()
+  @ToNormalizedString()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  title?: string;
+}
+
+/** Body of PATCH /admin/documents/:id; omitted fields keep their value */
+export class UpdateDocumentDto extends PartialType(
+  OmitType(CreateDocumentDto, ['storage_path'] as const),
+) {}
+
+/**
+ * Form fields of POST /admin/documents/upload. Each one given applies to
+ * every file and takes precedence over what the filename says.
+ */
+export class UploadDocumentsDto extends PartialType(
+  OmitType(CreateDocumentDto, [
+    'storage_path',
+    'title',
+    'exam_year',
+    'exam_month',
+  ] as const),
+) {
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: MIN_EXAM_YEAR,
+    maximum: maxExamYear(),
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(MIN_EXAM_YEAR)
+  @Max(maxExamYear())
+  exam_year?: number;
+
+  @ApiPropertyOptional({ type: 'integer', minimum: 1, maximum: 12 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  exam_month?: number;
+}
@@ -0,0 +1,52 @@
+import { ValidationError } from '../../common/errors';
+import { FieldError, createValidationPipe } from '../../common/validation';
+import {
+  FilteredDocumentsQueryDto,
+  toDocumentFilters,
+} from './document-filter-query.dto';
+
+describe('FilteredDocumentsQueryDto', () => {
+  const pipe = createValidationPipe();
+  const validate = (query: Record<string, string>) =>
+    pipe.transform(query, {
+      type: 'query',
+      metatype: FilteredDocumentsQueryDto,
+    }) as Promise<FilteredDocumentsQueryDto>;
+
+  it('splits, normalizes and converts filter values', async () => {
+    const query = await validate({
+      grade_levels: '고2, 고3'.normalize('NFD'),
+      exam_years: '2023,2024',
+      limit: '20',
+      unknown: 'ignored',
+    });
+
+    expect(toDocumentFilters(query)).toMatchObject({
+      grade_levels: ['고2', '고3'],
+      exam_years: [2023, 2024],
+    });
+    expect(query.limit).toBe(20);
+    expect(query).not.toHaveProperty('unknown');
+  });
+
+  it('lists every invalid field', async () => {
+    const error = await validate({
+      grade_levels: '고4',
+      exam_years: 'abc',
+      exam_months: '13',
+      limit: '0',
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    const { fields } = (error as ValidationError).details as {
+      fields: FieldError[];
+    };
+    expect(fields.map((field) => field.field)).toEqual([
+      'grade_levels',
+      'exam_years',
+      'exam_months',
+      'limit',
+    ]);
+    expect(fields[1].value).toEqual(['abc']);
+  });
+});
@@ -0,0 +1,157 @@
+import { ApiPropertyOptional, IntersectionType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ListQueryDto } from '../../common/dto/list-query.dto';
+import { ToList, ToNumberList } from '../../common/dto/query-transforms';
+import {
+  CATEGORIES,
+  Category,
+  DOC_TYPES,
+  DocType,
+  EXAM_TYPES,
+  ExamType,
+  GRADE_LEVELS,
+  GradeLevel,
+  MIN_EXAM_YEAR,
+  SOURCES,
+  Source,
+  maxExamYear,
+} from '../../naming/naming-convention';
+import type { DocumentFilters } from '../documents.service';
+
+/**
+ * Document filters as query parameters. Multi-value filters are
+ * comma-separated, e.g. `?grade_levels=고2,고3`, or repeated, and values are NFC
+ * normalized before they are checked against the naming convention.
+ */
+export class DocumentFilterQueryDto {
+  @ApiPropertyOptional({ enum: GRADE_LEVELS, isArray: true })
+  @IsOptional()
+  @ToList()
+  @IsIn(GRADE_LEVELS, { each: true })
+  grade_levels?: GradeLevel[];
+
+  @ApiPropertyOptional({ enum: CATEGORIES, isArray: true })
+  @IsOptional()
+  @ToList()
+  @IsIn(CATEGORIES, { each: true })
+  categories?: Category[];
+
+  @ApiPropertyOptional({ type: [String], example: ['물리학 I', '화학 I'] })
+  @IsOptional()
+  @ToList()
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  subjects?: string[];
+
+  @ApiPropertyOptional({ type: [String], example: ['미적분', '기하'] })
+  @IsOptional()
+  @ToList()
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  selections?: string[];
+
+  @ApiPropertyOptional({ enum: EXAM_TYPES, isArray: true })
+  @IsOptional()
+  @ToList()
+  @IsIn(EXAM_TYPES, { each: true })
+  exam_types?: ExamType[];
+
+  @ApiPropertyOptional({ enum: SOURCES, isArray: true })
+  @IsOptional()
+  @ToList()
+  @IsIn(SOURCES, { each: true })
+  sources?: Source[];
+
+  @ApiPropertyOptional({ enum: DOC_TYPES, isArray: true })
+  @IsOptional()
+  @ToList()
+  @IsIn(DOC_TYPES, { each: true })
+  doc_types?: DocType[];
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    isArray: true,
+    minimum: MIN_EXAM_YEAR,
+    maximum: maxExamYear(),
+    example: [2024],
+  })
+  @IsOptional()
+  @ToNumberList()
+  @IsInt({ each: true })
+  @Min(MIN_EXAM_YEAR, { each: true })
+  @Max(maxExamYear(), { each: true })
+  exam_years?: number[];
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    isArray: true,
+    minimum: 1,
+    maximum: 12,
+  })
+  @IsOptional()
+  @ToNumberList()
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(12, { each: true })
+  exam_months?: number[];
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    description: 'Inclusive lower bound of exam_year',
+    minimum: MIN_EXAM_YEAR,
+    maximum: maxExamYear(),
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(MIN_EXAM_YEAR)
+  @Max(maxExamYear())
+  exam_year_from?: number;
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    description: 'Inclusive upper bound of exam_year',
+    minimum: MIN_EXAM_YEAR,
+    maximum: maxExamYear(),
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(MIN_EXAM_YEAR)
+  @Max(maxExamYear())
+  exam_year_to?: number;
+}
+
+/** Filters plus pagination, validated together so every bad field is listed */
+export class FilteredDocumentsQueryDto extends IntersectionType(
+  DocumentFilterQueryDto,
+  ListQueryDto,
+) {}
+
+/** Pick the filter fields out of a validated query for DocumentsService */
+export function toDocumentFilters(
+  query: DocumentFilterQueryDto,
+): DocumentFilters {
+  return {
+    grade_levels: query.grade_levels,
+    categories: query.categories,
+    subjects: query.subjects,
+    selections: query.selections,
+    exam_types: query.exam_types,
+    sources: query.sources,
+    doc_types: query.doc_types,
+    exam_years: query.exam_years,
+    exam_months: query.exam_months,
+    exam_year_from: query.exam_year_from,
+    exam_year_to: query.exam_year_to,
+  };
+}
@@ -0,0 +1,114 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  ToBoolean,
+  ToNormalizedString,
+} from '../../common/dto/query-transforms';
+import { CATEGORIES } from '../../naming/naming-convention';
+import type { Category } from '../../naming/naming-convention';
+import { MAX_SIGNED_URL_EXPIRES_SECONDS } from '../../storage/storage.service';
+
+export class DocumentIdParamDto {
+  @ApiProperty({ format: 'uuid' })
+  @IsUUID()
+  id: string;
+}
+
+export class CategoryParamDto {
+  @ApiProperty({ enum: CATEGORIES })
+  @ToNormalizedString()
+  @IsIn(CATEGORIES)
+  category: Category;
+}
+
+export class SubjectParamDto {
+  @ApiProperty({ maxLength: 50, example: '물리학 I' })
+  @ToNormalizedString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  subject: string;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+export class SearchQueryDto {
+  @ApiPropertyOptional({ maxLength: 200, example: '물리1 2024 수능' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  q: string = '';
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_SEARCH_LIMIT,
+    default: DEFAULT_SEARCH_LIMIT,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SEARCH_LIMIT)
+  limit: number = DEFAULT_SEARCH_LIMIT;
+}
+
+export const DEFAULT_SUGGEST_LIMIT = 10;
+export const MAX_SUGGEST_LIMIT = 50;
+
+export class SuggestQueryDto {
+  @ApiPropertyOptional({ maxLength: 100, example: 'ㅁㄹ' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  prefix: string = '';
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_SUGGEST_LIMIT,
+    default: DEFAULT_SUGGEST_LIMIT,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SUGGEST_LIMIT)
+  limit: number = DEFAULT_SUGGEST_LIMIT;
+}
+
+/** Options of the signed download and thumbnail links */
+export class SignedUrlQueryDto {
+  /** Respond with a 302 to the signed URL instead of JSON */
+  @ApiPropertyOptional({
+    description: 'Respond with a 302 to the signed URL instead of JSON',
+  })
+  @IsOptional()
+  @ToBoolean()
+  @IsBoolean()
+  redirect?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Lifetime of the URL in seconds',
+    minimum: 1,
+    maximum: MAX_SIGNED_URL_EXPIRES_SECONDS,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_SIGNED_URL_EXPIRES_SECONDS)
+  expires_in?: number;
+}
@@ -0,0 +1,349 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiSuccessDto } from '../../common/dto/api-response.dto';
+import {
+  CATEGORIES,
+  DOC_TYPES,
+  EXAM_TYPES,
+  GRADE_LEVELS,
+  SOURCES,
+} from '../../naming/naming-convention';
+import type { DocType } from '../../naming/naming-convention';
+import type { SearchHighlight, SearchResult } from '../document-search.service';
+import type { Suggestion, SuggestionType } from '../document-suggest.service';
+import type { UploadResult } from '../documents-admin.service';
+import type {
+  Document,
+  DocumentFilters,
+  FacetCount,
+} from '../documents.service';
+import { SEARCH_FIELDS } from '../search-query';
+import type { HighlightRange, SearchField } from '../search-query';
+
+const SUGGESTION_TYPES: SuggestionType[] = [
+  'subject',
+  'selection',
+  'session',
+  'title',
+];
+
+export class DocumentDto implements Document {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @ApiProperty({ example: '고3 과학탐구 물리학 I 수능 2024년 11월 평가원' })
+  title: string;
+
+  @ApiProperty({ example: '물리학 I' })
+  subject: string;
+
+  @ApiProperty({ enum: CATEGORIES })
+  category: string;
+
+  @ApiProperty({ type: 'integer', example: 2024 })
+  exam_year: number;
+
+  @ApiProperty({ type: 'integer', example: 11 })
+  exam_month: number;
+
+  @ApiProperty({ enum: EXAM_TYPES })
+  exam_type: string;
+
+  @ApiProperty({ example: '' })
+  selection: string;
+
+  @ApiProperty({ enum: GRADE_LEVELS })
+  grade_level: string;
+
+  @ApiProperty()
+  filename: string;
+
+  @ApiProperty({
+    example: 'documents/123e4567-e89b-12d3-a456-426614174000.pdf',
+  })
+  storage_path: string;
+
+  @ApiProperty({ format: 'date-time' })
+  created_at: string;
+
+  @ApiPropertyOptional({ enum: SOURCES })
+  source?: string;
+
+  @ApiPropertyOptional({ enum: DOC_TYPES, nullable: true })
+  doc_type?: DocType | null;
+
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    description:
+      'SHA-256 of the PDF, null for documents added before hashes were recorded',
+  })
+  content_hash?: string | null;
+
+  @ApiPropertyOptional({
+    type: String,
+    format: 'date-time',
+    nullable: true,
+    description: 'Only set in the response of an admin delete',
+  })
+  deleted_at?: string | null;
+}
+
+export class DocumentListResponseDto extends ApiSuccessDto {
+  @ApiProperty({ type: [DocumentDto] })
+  data: DocumentDto[];
+
+  @ApiProperty({
+    type: 'integer',
+    description: 'Number of documents in this page',
+  })
+  count: number;
+
+  @ApiProperty({
+    type: 'integer',
+    description: 'Number of documents matching the request',
+  })
+  total: number;
+
+  @ApiProperty({
+    type: String,
+    nullable: true,
+    description: 'Cursor of the next page, null on the last page',
+  })
+  nextCursor: string | null;
+}
+
+export class DocumentResponseDto extends ApiSuccessDto {
+  @ApiProperty()
+  data: DocumentDto;
+}
+
+export class StringListResponseDto extends ApiSuccessDto {
+  @ApiProperty({ type: [String] })
+  data: string[];
+}
+
+export class HighlightRangeDto implements HighlightRange {
+  @ApiProperty({ type: 'integer', description: 'UTF-16 offset into value' })
+  start: number;
+
+  @ApiProperty({ type: 'integer' })
+  length: number;
+}
+
+export class SearchHighlightDto implements SearchHighlight {
+  @ApiProperty({ enum: SEARCH_FIELDS })
+  field: SearchField;
+
+  @ApiProperty()
+  value: string;
+
+  @ApiProperty({ type: [HighlightRangeDto] })
+  ranges: HighlightRangeDto[];
+}
+
+export class SearchResultDto implements SearchResult {
+  @ApiProperty()
+  document: DocumentDto;
+
+  @ApiProperty()
+  score: number;
+
+  @ApiProperty({
+    type: 'integer',
+    description: 'Number of query tokens the document matched',
+  })
+  matchedTerms: number;
+
+  @ApiProperty({ type: [SearchHighlightDto] })
+  highlights: SearchHighlightDto[];
+}
+
+export class SearchResponseDto extends ApiSuccessDto {
+  @ApiProperty({ type: [SearchResultDto] })
+  data: SearchResultDto[];
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+
+  @ApiProperty({ type: 'integer' })
+  total: number;
+
+  @ApiProperty({ type: [String], example: ['물리1', '2024', '수능'] })
+  tokens: string[];
+}
+
+/** Filters carried by a suggestion, in the query parameter format */
+export class DocumentFiltersDto implements DocumentFilters {
+  @ApiPropertyOptional({ type: [String] })
+  grade_levels?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  categories?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  subjects?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  selections?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  exam_types?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  sources?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  doc_types?: string[];
+
+  @ApiPropertyOptional({ type: 'integer', isArray: true })
+  exam_years?: number[];
+
+  @ApiPropertyOptional({ type: 'integer', isArray: true })
+  exam_months?: number[];
+
+  @ApiPropertyOptional({ type: 'integer' })
+  exam_year_from?: number;
+
+  @ApiPropertyOptional({ type: 'integer' })
+  exam_year_to?: number;
+}
+
+export class SuggestionDto implements Suggestion {
+  @ApiProperty({ enum: SUGGESTION_TYPES })
+  type: SuggestionType;
+
+  @ApiProperty({ example: '물리학 I' })
+  label: string;
+
+  @ApiProperty({
+    description: 'Filters to apply when the suggestion is picked',
+  })
+  filters: DocumentFiltersDto;
+
+  @ApiProperty({
+    type: 'integer',
+    description: 'Number of documents behind the suggestion',
+  })
+  count: number;
+}
+
+export class SuggestResponseDto extends ApiSuccessDto {
+  @ApiProperty({ type: [SuggestionDto] })
+  data: SuggestionDto[];
+}
+
+export class FacetCountDto implements FacetCount {
+  @ApiProperty()
+  value: string;
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+}
+
+export class NumberFacetCountDto implements FacetCount<number> {
+  @ApiProperty({ type: 'integer' })
+  value: number;
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+}
+
+/**
+ * Facets of GET /documents/filters/available. Keys are camelCase here, unlike
+ * the snake_case filter query parameters.
+ */
+export class FilterFacetsDto {
+  @ApiProperty({ type: [FacetCountDto] })
+  gradeLevels: FacetCountDto[];
+
+  @ApiProperty({ type: [FacetCountDto] })
+  categories: FacetCountDto[];
+
+  @ApiProperty({ type: [FacetCountDto] })
+  subjects: FacetCountDto[];
+
+  @ApiProperty({ type: [FacetCountDto] })
+  selections: FacetCountDto[];
+
+  @ApiProperty({ type: [FacetCountDto] })
+  examTypes: FacetCountDto[];
+
+  @ApiProperty({ type: [FacetCountDto] })
+  sources: FacetCountDto[];
+
+  @ApiProperty({ type: [FacetCountDto] })
+  docTypes: FacetCountDto[];
+
+  @ApiProperty({ type: [NumberFacetCountDto] })
+  examYears: NumberFacetCountDto[];
+
+  @ApiProperty({ type: [NumberFacetCountDto] })
+  examMonths: NumberFacetCountDto[];
+}
+
+export class AvailableFiltersDto {
+  @ApiProperty({ type: [String] })
+  gradeLevels: string[];
+
+  @ApiProperty({ type: [String] })
+  categories: string[];
+
+  @ApiProperty({ type: [String] })
+  subjects: string[];
+
+  @ApiProperty({ type: [String] })
+  selections: string[];
+
+  @ApiProperty({ type: [String] })
+  examTypes: string[];
+
+  @ApiProperty({ type: [String] })
+  sources: string[];
+
+  @ApiProperty({ type: [String] })
+  docTypes: string[];
+
+  @ApiProperty({ type: 'integer', isArray: true })
+  examYears: number[];
+
+  @ApiProperty({ type: 'integer', isArray: true })
+  examMonths: number[];
+
+  @ApiProperty()
+  facets: FilterFacetsDto;
+}
+
+export class AvailableFiltersResponseDto extends ApiSuccessDto {
+  @ApiProperty()
+  data: AvailableFiltersDto;
+}
+
+export class UploadResultDto implements UploadResult {
+  @ApiProperty({
+    example: '고3_과학탐구_물리학 I__수능_2024_11_평가원_problem.pdf',
+  })
+  filename: string;
+
+  @ApiProperty({ enum: ['created', 'failed'] })
+  status: 'created' | 'failed';
+
+  @ApiProperty({ type: DocumentDto, nullable: true })
+  document: DocumentDto | null;
+
+  @ApiProperty({
+    type: [String],
+    example: ["unknown source '학원'", 'missing source'],
+  })
+  errors: string[];
+}
+
+export class UploadDocumentsResponseDto extends ApiSuccessDto {
+  @ApiProperty({ type: [UploadResultDto] })
+  data: UploadResultDto[];
+
+  @ApiProperty({ type: 'integer' })
+  created: number;
+
+  @ApiProperty({ type: 'integer' })
+  failed: number;
+}
@@ -0,0 +1,35 @@
+import {
+  containsJamo,
+  decomposeHangul,
+  isChosungOnly,
+  toChosung,
+} from './hangul';
+
+describe('hangul', () => {
+  it('extracts initial consonants', () => {
+    expect(toChosung('물리학')).toBe('ㅁㄹㅎ');
+    expect(toChosung('사회·문화')).toBe('ㅅㅎ·ㅁㅎ');
+  });
+
+  it('decomposes syllables and splits compound jamo', () => {
+    expect(decomposeHangul('물리')).toBe('ㅁㅜㄹㄹㅣ');
+    expect(decomposeHangul('과')).toBe('ㄱㅗㅏ');
+    expect(decomposeHangul('닭')).toBe('ㄷㅏㄹㄱ');
+  });
+
+  it('makes a syllable being typed a prefix of the finished word', () => {
+    expect(
+      decomposeHangul('생활과').startsWith(decomposeHangul('생활고')),
+    ).toBe(true);
+    expect(decomposeHangul('물리학').startsWith(decomposeHangul('물ㄹ'))).toBe(
+      true,
+    );
+  });
+
+  it('detects chosung-only queries and stray jamo', () => {
+    expect(isChosungOnly('ㅅㅎㅁㅎ')).toBe(true);
+    expect(isChosungOnly('ㅅ회')).toBe(false);
+    expect(containsJamo('물ㄹ')).toBe(true);
+    expect(containsJamo('물리')).toBe(false);
+  });
+});
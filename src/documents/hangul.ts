@@ -0,0 +1,102 @@
+const SYLLABLE_BASE = 0xac00;
+const SYLLABLE_LAST = 0xd7a3;
+const JUNGSUNG_COUNT = 21;
+const JONGSUNG_COUNT = 28;
+
+const CHOSUNG = [...'ㄱㄲㄴㄷㄸㄹㅁㅂㅃㅅㅆㅇㅈㅉㅊㅋㅌㅍㅎ'];
+
+// Compound vowels and finals are split so that a syllable still being typed
+// ("과" is typed as 고 + ㅏ) is a jamo prefix of the finished one.
+const JUNGSUNG =
+  'ㅏ ㅐ ㅑ ㅒ ㅓ ㅔ ㅕ ㅖ ㅗ ㅗㅏ ㅗㅐ ㅗㅣ ㅛ ㅜ ㅜㅓ ㅜㅔ ㅜㅣ ㅠ ㅡ ㅡㅣ ㅣ'.split(
+    ' ',
+  );
+
+const JONGSUNG = [
+  '',
+  ...'ㄱ ㄲ ㄱㅅ ㄴ ㄴㅈ ㄴㅎ ㄷ ㄹ ㄹㄱ ㄹㅁ ㄹㅂ ㄹㅅ ㄹㅌ ㄹㅍ ㄹㅎ ㅁ ㅂ ㅂㅅ ㅅ ㅆ ㅇ ㅈ ㅊ ㅋ ㅌ ㅍ ㅎ'.split(
+    ' ',
+  ),
+];
+
+const COMPOUND_JAMO: Record<string, string> = {
+  ㄳ: 'ㄱㅅ',
+  ㄵ: 'ㄴㅈ',
+  ㄶ: 'ㄴㅎ',
+  ㄺ: 'ㄹㄱ',
+  ㄻ: 'ㄹㅁ',
+  ㄼ: 'ㄹㅂ',
+  ㄽ: 'ㄹㅅ',
+  ㄾ: 'ㄹㅌ',
+  ㄿ: 'ㄹㅍ',
+  ㅀ: 'ㄹㅎ',
+  ㅄ: 'ㅂㅅ',
+  ㅘ: 'ㅗㅏ',
+  ㅙ: 'ㅗㅐ',
+  ㅚ: 'ㅗㅣ',
+  ㅝ: 'ㅜㅓ',
+  ㅞ: 'ㅜㅔ',
+  ㅟ: 'ㅜㅣ',
+  ㅢ: 'ㅡㅣ',
+};
+
+function isSyllable(code: number): boolean {
+  return code >= SYLLABLE_BASE && code <= SYLLABLE_LAST;
+}
+
+/** Hangul compatibility jamo (ㄱ..ㅣ) as typed on a keyboard */
+export function isJamo(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x3131 && code <= 0x318e;
+}
+
+export function containsJamo(text: string): boolean {
+  return [...text].some(isJamo);
+}
+
+/** True for queries made only of initial consonants, e.g. "ㅁㄹㅎ" */
+export function isChosungOnly(text: string): boolean {
+  return text.length > 0 && [...text].every((char) => CHOSUNG.includes(char));
+}
+
+/**
+ * Decompose text into compatibility jamo: "물리" -> "ㅁㅜㄹㄹㅣ".
+ * Characters other than Hangul syllables are kept as they are.
+ */
+export function decomposeHangul(text: string): string {
+  let result = '';
+
+  for (const char of text.normalize('NFC')) {
+    const code = char.charCodeAt(0);
+    if (isSyllable(code)) {
+      const offset = code - SYLLABLE_BASE;
+      result +=
+        CHOSUNG[Math.floor(offset / (JUNGSUNG_COUNT * JONGSUNG_COUNT))] +
+        JUNGSUNG[Math.floor(offset / JONGSUNG_COUNT) % JUNGSUNG_COUNT] +
+        JONGSUNG[offset % JONGSUNG_COUNT];
+    } else {
+      result += COMPOUND_JAMO[char] ?? char;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Initial consonants of every Hangul syllable: "사회·문화" -> "ㅅㅎ·ㅁㅎ".
+ * Characters other than Hangul syllables are kept as they are.
+ */
+export function toChosung(text: string): string {
+  let result = '';
+
+  for (const char of text.normalize('NFC')) {
+    const code = char.charCodeAt(0);
+    result += isSyllable(code)
+      ? CHOSUNG[
+          Math.floor((code - SYLLABLE_BASE) / (JUNGSUNG_COUNT * JONGSUNG_COUNT))
+        ]
+      : char;
+  }
+
+  return result;
+}
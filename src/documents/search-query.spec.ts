@@ -0,0 +1,94 @@
+import {
+  compactText,
+  findHighlightRanges,
+  matchStrength,
+  parseSearchQuery,
+  tokenizeQuery,
+} from './search-query';
+
+describe('search-query', () => {
+  describe('compactText', () => {
+    it('treats Roman and Arabic numerals and spacing alike', () => {
+      expect(compactText('물리학 I')).toBe('물리학1');
+      expect(compactText('물리학II')).toBe('물리학2');
+      expect(compactText('사회·문화')).toBe('사회문화');
+    });
+
+    it('normalizes decomposed Hangul', () => {
+      expect(compactText('국어'.normalize('NFD'))).toBe('국어');
+    });
+  });
+
+  describe('tokenizeQuery', () => {
+    it('keeps a trailing Roman numeral with its subject', () => {
+      expect(tokenizeQuery('물리학 I 2024 수능')).toEqual([
+        '물리학 I',
+        '2024',
+        '수능',
+      ]);
+    });
+
+    it('drops PostgREST reserved characters', () => {
+      expect(tokenizeQuery('수능,(2024)')).toEqual(['수능', '2024']);
+    });
+  });
+
+  describe('parseSearchQuery', () => {
+    it('recognizes years, months and grade levels', () => {
+      const [year, month, grade] = parseSearchQuery('2024년 11월 고3');
+      expect(year.year).toBe(2024);
+      expect(month.month).toBe(11);
+      expect(grade.gradeLevel).toBe('고3');
+    });
+
+    it('expands abbreviations and numeral variants', () => {
+      const [physics, ethics] = parseSearchQuery('물리1 생윤');
+      expect(physics.variants).toContain('물리학 I');
+      expect(ethics.variants).toContain('생활과 윤리');
+    });
+  });
+
+  describe('matchStrength', () => {
+    it('scores exact matches above partial ones', () => {
+      const [term] = parseSearchQuery('물리학1');
+      expect(matchStrength('물리학 I', term)).toBe(2);
+      expect(matchStrength('고3 과학탐구 물리학 I 수능', term)).toBe(1);
+      expect(matchStrength('화학 I', term)).toBe(0);
+    });
+  });
+
+  describe('jamo and chosung matching', () => {
+    it('matches initial consonants', () => {
+      const [term] = parseSearchQuery('ㅅㅎㅁㅎ');
+      expect(term.chosung).toBe('ㅅㅎㅁㅎ');
+      expect(matchStrength('사회·문화', term)).toBe(1);
+      expect(matchStrength('생활과 윤리', term)).toBe(0);
+    });
+
+    it('matches a syllable still being typed', () => {
+      const [term] = parseSearchQuery('물리하');
+      expect(matchStrength('물리학 I', term)).toBe(1);
+      expect(findHighlightRanges('물리학 I', term)).toEqual([
+        { start: 0, length: 3 },
+      ]);
+    });
+
+    it('highlights the syllables behind a chosung match', () => {
+      const [term] = parseSearchQuery('ㅁㄹㅎ');
+      const title = '고3 과학탐구 물리학 I 수능';
+      expect(findHighlightRanges(title, term)).toEqual([
+        { start: title.indexOf('물리학'), length: 3 },
+      ]);
+    });
+  });
+
+  describe('findHighlightRanges', () => {
+    it('highlights the canonical spelling inside a title', () => {
+      const [term] = parseSearchQuery('생윤');
+      const title = '고3 사회탐구 생활과 윤리 수능';
+      expect(findHighlightRanges(title, term)).toEqual([
+        { start: title.indexOf('생활과 윤리'), length: '생활과 윤리'.length },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import {
+  containsJamo,
+  decomposeHangul,
+  isChosungOnly,
+  toChosung,
+} from './hangul';
+import {
+  SELECTION_ABBREVIATIONS,
+  SUBJECT_ABBREVIATIONS,
+  SUBJECT_MAPPINGS,
+} from './subject-aliases';
+
+export type SearchField =
+  | 'title'
+  | 'subject'
+  | 'selection'
+  | 'exam_type'
+  | 'source';
+
+/** Relative weight of a match in each field when ranking results */
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  subject: 5,
+  selection: 4,
+  exam_type: 3,
+  source: 2,
+  title: 1,
+};
+
+export const SEARCH_FIELDS = Object.keys(SEARCH_FIELD_WEIGHTS) as SearchField[];
+
+export interface SearchTerm {
+  /** The token as typed, NFC normalized */
+  token: string;
+  /** The token plus canonical spellings it may refer to */
+  variants: string[];
+  /** Jamo of the compact token, for matching a syllable still being typed */
+  jamo?: string;
+  /** Set when the token is made only of initial consonants ("ㅁㄹㅎ") */
+  chosung?: string;
+  year?: number;
+  month?: number;
+  gradeLevel?: string;
+}
+
+export interface HighlightRange {
+  start: number;
+  length: number;
+}
+
+/** A field value with the precomputed keys used for matching */
+export interface IndexedText {
+  value: string;
+  compact: string;
+  jamo: string;
+  chosung: string;
+}
+
+const ROMAN_NUMERALS: Record<string, string> = {
+  I: '1',
+  II: '2',
+  Ⅰ: '1',
+  Ⅱ: '2',
+};
+
+/**
+ * Reduce text to a form where spacing, punctuation and Roman/Arabic numeral
+ * differences disappear, so "물리학 I", "물리학I" and "물리학1" compare equal.
+ */
+export function compactText(text: string): string {
+  return text
+    .normalize('NFC')
+    .replace(
+      /([가-힣])\s*(II|I|Ⅱ|Ⅰ)(?![A-Za-z])/g,
+      (_, syllable: string, numeral: string) =>
+        syllable + ROMAN_NUMERALS[numeral],
+    )
+    .replace(/[\s·ㆍ・.\-_]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * Split a query into tokens. Characters that are reserved in PostgREST filter
+ * strings are dropped, and a standalone Roman numeral is joined to the token
+ * before it ("물리학 I" stays one token).
+ */
+export function tokenizeQuery(query: string): string[] {
+  const tokens: string[] = [];
+  const cleaned = query.normalize('NFC').replace(/[,()."*%\\:]/g, ' ');
+
+  for (const token of cleaned.split(/\s+/).filter(Boolean)) {
+    if (tokens.length > 0 && token.toUpperCase() in ROMAN_NUMERALS) {
+      tokens[tokens.length - 1] += ` ${token.toUpperCase()}`;
+    } else {
+      tokens.push(token);
+    }
+  }
+
+  return tokens;
+}
+
+function expandToken(token: string): string[] {
+  const variants = new Set<string>([token]);
+  const compact = compactText(token);
+
+  const mapped = SUBJECT_MAPPINGS[compact];
+  if (mapped) variants.add(mapped.subject);
+
+  const subject = SUBJECT_ABBREVIATIONS[compact];
+  if (subject) variants.add(subject);
+
+  const selection = SELECTION_ABBREVIATIONS[compact];
+  if (selection) variants.add(selection);
+
+  // 화학2 -> 화학 II, so the database ilike can match the stored spelling
+  const numbered = /^([가-힣]+)([12])$/.exec(compact);
+  if (numbered) {
+    variants.add(`${numbered[1]} ${'I'.repeat(Number(numbered[2]))}`);
+  }
+
+  return [...variants];
+}
+
+export function parseSearchQuery(query: string): SearchTerm[] {
+  return tokenizeQuery(query).map((token) => {
+    const year = /^(\d{4})(년|학년도)?$/.exec(token);
+    if (year) {
+      return { token, variants: [year[1]], year: Number(year[1]) };
+    }
+
+    const month = /^(\d{1,2})월$/.exec(token);
+    if (month) {
+      return { token, variants: [token], month: Number(month[1]) };
+    }
+
+    if (/^고[1-3]$/.test(token)) {
+      return { token, variants: [token], gradeLevel: token };
+    }
+
+    const compact = compactText(token);
+    if (isChosungOnly(compact)) {
+      return { token, variants: [token], chosung: compact };
+    }
+
+    return {
+      token,
+      variants: expandToken(token),
+      jamo: decomposeHangul(compact),
+    };
+  });
+}
+
+/** True when the query can only be answered by jamo/chosung matching */
+export function needsJamoMatching(terms: SearchTerm[]): boolean {
+  return terms.some(
+    (term) => term.chosung !== undefined || containsJamo(term.token),
+  );
+}
+
+export function indexText(value: string): IndexedText {
+  const compact = compactText(value);
+  return {
+    value,
+    compact,
+    jamo: decomposeHangul(compact),
+    chosung: toChosung(compact),
+  };
+}
+
+/**
+ * How well a text value matches a term: 2 for an exact (compact) match,
+ * 1 for a partial, jamo or chosung match and 0 for none.
+ */
+export function matchStrength(
+  value: string | IndexedText | null | undefined,
+  term: SearchTerm,
+): number {
+  if (!value) return 0;
+  const indexed = typeof value === 'string' ? indexText(value) : value;
+
+  if (term.chosung) {
+    return indexed.chosung.includes(term.chosung) ? 1 : 0;
+  }
+
+  let strength = 0;
+  for (const variant of term.variants) {
+    const compactVariant = compactText(variant);
+    if (!compactVariant) continue;
+    if (indexed.compact === compactVariant) return 2;
+    if (indexed.compact.includes(compactVariant)) strength = 1;
+  }
+
+  if (strength === 0 && term.jamo && indexed.jamo.includes(term.jamo)) {
+    strength = 1;
+  }
+
+  return strength;
+}
+
+/**
+ * Find `needle` in the per-character keys of `value` (skipping characters
+ * that compaction drops) and return the range of original characters it
+ * covers. Matches must start on a character boundary.
+ */
+function locateByKey(
+  value: string,
+  keyOf: (char: string) => string,
+  needle: string,
+): HighlightRange | null {
+  let keys = '';
+  const owners: number[] = [];
+  const starts = new Set<number>();
+
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (/[\s·ㆍ・.\-_]/.test(char)) continue;
+    const key = keyOf(char);
+    starts.add(keys.length);
+    keys += key;
+    for (let i = 0; i < key.length; i++) owners.push(index);
+  }
+
+  let position = keys.indexOf(needle);
+  while (position !== -1 && !starts.has(position)) {
+    position = keys.indexOf(needle, position + 1);
+  }
+  if (position === -1 || !needle) return null;
+
+  const start = owners[position];
+  const end = owners[position + needle.length - 1];
+  return { start, length: end - start + 1 };
+}
+
+/**
+ * Locate the parts of `value` matched by `term`. Falls back to the whole value
+ * when it only matches after compaction (e.g. "물리1" against "물리학 I").
+ */
+export function findHighlightRanges(
+  value: string,
+  term: SearchTerm,
+): HighlightRange[] {
+  const lowerValue = value.normalize('NFC').toLowerCase();
+  const ranges: HighlightRange[] = [];
+
+  for (const variant of term.variants) {
+    const needle = variant.toLowerCase();
+    let index = lowerValue.indexOf(needle);
+    while (needle && index !== -1) {
+      ranges.push({ start: index, length: needle.length });
+      index = lowerValue.indexOf(needle, index + needle.length);
+    }
+  }
+
+  if (ranges.length === 0 && term.chosung) {
+    const range = locateByKey(value, toChosung, term.chosung);
+    if (range) ranges.push(range);
+  } else if (ranges.length === 0 && term.jamo) {
+    const range = locateByKey(value, decomposeHangul, term.jamo);
+    if (range) ranges.push(range);
+  }
+
+  if (ranges.length === 0 && matchStrength(value, term) > 0) {
+    return [{ start: 0, length: value.length }];
+  }
+
+  return mergeRanges(ranges);
+}
+
+export function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: HighlightRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.start + last.length) {
+      const end = Math.max(
+        last.start + last.length,
+        range.start + range.length,
+      );
+      last.length = end - last.start;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
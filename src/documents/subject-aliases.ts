@@ -0,0 +1,49 @@
+import { TAXONOMY } from '../taxonomy/taxonomy';
+
+export interface SubjectMapping {
+  category: string;
+  subject: string;
+  selection: string | null;
+}
+
+/**
+ * Subject names and their taxonomy aliases, mapped to the
+ * naming-convention category/subject. Aliases are in compact form (no
+ * spaces, Arabic numerals, as in 평가원 source filenames) but names are
+ * not, and lookups use the compact form: a spaced name such as 생활과 윤리
+ * is found through its alias 생활과윤리.
+ */
+export const SUBJECT_MAPPINGS: Record<string, SubjectMapping> =
+  Object.fromEntries(
+    TAXONOMY.flatMap((category) =>
+      category.subjects.flatMap((subject) =>
+        [subject.name, ...subject.aliases].map((key) => [
+          key,
+          { category: category.name, subject: subject.name, selection: null },
+        ]),
+      ),
+    ),
+  );
+
+/**
+ * Abbreviations students commonly type, keyed by their compact form
+ * (see `compactText` in search-query.ts).
+ */
+export const SUBJECT_ABBREVIATIONS: Record<string, string> = Object.fromEntries(
+  TAXONOMY.flatMap((category) =>
+    category.subjects.flatMap((subject) =>
+      subject.aliases.map((alias) => [alias, subject.name]),
+    ),
+  ),
+);
+
+export const SELECTION_ABBREVIATIONS: Record<string, string> =
+  Object.fromEntries(
+    TAXONOMY.flatMap((category) =>
+      category.subjects.flatMap((subject) =>
+        subject.selections.flatMap((selection) =>
+          selection.aliases.map((alias) => [alias, selection.name]),
+        ),
+      ),
+    ),
+  );
@@ -0,0 +1,78 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiSuccessDto } from '../../common/dto/api-response.dto';
+import { DocumentDto } from '../../documents/dto/document-response.dto';
+import {
+  CATEGORIES,
+  DOC_TYPES,
+  EXAM_TYPES,
+  GRADE_LEVELS,
+  SOURCES,
+} from '../../naming/naming-convention';
+import type { DocType } from '../../naming/naming-convention';
+import type { ExamSet } from '../exam-sets.service';
+
+export class ExamSetDto implements ExamSet {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ example: '고3 과학탐구 물리학 I 수능 2024년 11월 평가원' })
+  title: string;
+
+  @ApiProperty({ enum: GRADE_LEVELS })
+  grade_level: string;
+
+  @ApiProperty({ enum: CATEGORIES })
+  category: string;
+
+  @ApiProperty({ example: '물리학 I' })
+  subject: string;
+
+  @ApiProperty({ example: '' })
+  selection: string;
+
+  @ApiProperty({ enum: EXAM_TYPES })
+  exam_type: string;
+
+  @ApiProperty({ type: 'integer', example: 2024 })
+  exam_year: number;
+
+  @ApiProperty({ type: 'integer', example: 11 })
+  exam_month: number;
+
+  @ApiProperty({ enum: SOURCES })
+  source: string;
+
+  @ApiProperty({ type: DocumentDto, nullable: true })
+  problem: DocumentDto | null;
+
+  @ApiProperty({ type: DocumentDto, nullable: true })
+  answer: DocumentDto | null;
+
+  @ApiProperty({ type: DocumentDto, nullable: true })
+  explanation: DocumentDto | null;
+
+  @ApiProperty({
+    enum: DOC_TYPES,
+    isArray: true,
+    description: 'Document types with no matching PDF',
+  })
+  missing: DocType[];
+
+  @ApiProperty({
+    description: 'True when the problem or answer PDF is missing',
+  })
+  has_missing_member: boolean;
+}
+
+export class ExamSetListResponseDto extends ApiSuccessDto {
+  @ApiProperty({ type: [ExamSetDto] })
+  data: ExamSetDto[];
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+}
+
+export class ExamSetResponseDto extends ApiSuccessDto {
+  @ApiProperty()
+  data: ExamSetDto;
+}
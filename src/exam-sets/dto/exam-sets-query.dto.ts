@@ -0,0 +1,21 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, Matches } from 'class-validator';
+import { ToBoolean } from '../../common/dto/query-transforms';
+import { DocumentFilterQueryDto } from '../../documents/dto/document-filter-query.dto';
+
+export class ExamSetsQueryDto extends DocumentFilterQueryDto {
+  /** Only return sets missing a problem or answer PDF */
+  @ApiPropertyOptional({
+    description: 'Only return sets missing a problem or answer PDF',
+  })
+  @IsOptional()
+  @ToBoolean()
+  @IsBoolean()
+  incomplete?: boolean;
+}
+
+export class ExamSetIdParamDto {
+  @ApiProperty({ description: 'Opaque id returned by GET /exam-sets' })
+  @Matches(/^[A-Za-z0-9_-]+$/, { message: 'id must be an exam set id' })
+  id: string;
+}
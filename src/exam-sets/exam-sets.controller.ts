@@ -0,0 +1,48 @@
+import { Controller, Get, HttpStatus, Param, Query } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { ExamSetsService } from './exam-sets.service';
+import { toDocumentFilters } from '../documents/dto/document-filter-query.dto';
+import { ExamSetIdParamDto, ExamSetsQueryDto } from './dto/exam-sets-query.dto';
+import {
+  ExamSetListResponseDto,
+  ExamSetResponseDto,
+} from './dto/exam-set-response.dto';
+import { ApiErrorResponses } from '../common/api-error-responses';
+
+@ApiTags('exam-sets')
+@ApiErrorResponses(HttpStatus.BAD_REQUEST, HttpStatus.SERVICE_UNAVAILABLE)
+@Controller('exam-sets')
+export class ExamSetsController {
+  constructor(private readonly examSetsService: ExamSetsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List exam sets matching filters' })
+  @ApiOkResponse({ type: ExamSetListResponseDto })
+  async getExamSets(
+    @Query() query: ExamSetsQueryDto,
+  ): Promise<ExamSetListResponseDto> {
+    const sets = await this.examSetsService.getExamSets(
+      toDocumentFilters(query),
+      query.incomplete ?? false,
+    );
+    return {
+      success: true,
+      data: sets,
+      count: sets.length,
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an exam set' })
+  @ApiOkResponse({ type: ExamSetResponseDto })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND)
+  async getExamSetById(
+    @Param() { id }: ExamSetIdParamDto,
+  ): Promise<ExamSetResponseDto> {
+    const set = await this.examSetsService.getExamSetById(id);
+    return {
+      success: true,
+      data: set,
+    };
+  }
+}
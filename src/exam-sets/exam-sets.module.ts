@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { DocumentsModule } from '../documents/documents.module';
+import { ExamSetsController } from './exam-sets.controller';
+import { ExamSetsService } from './exam-sets.service';
+
+@Module({
+  imports: [DocumentsModule],
+  controllers: [ExamSetsController],
+  providers: [ExamSetsService],
+  exports: [ExamSetsService],
+})
+export class ExamSetsModule {}
@@ -0,0 +1,68 @@
+import type { SupabaseService } from '../supabase/supabase.service';
+import { DocumentsService } from '../documents/documents.service';
+import { ExamSetsService } from './exam-sets.service';
+
+/** Documents client that records filters and returns fixed rows */
+function stubSupabase(rows: Record<string, unknown>[]) {
+  const filters: unknown[][] = [];
+  const builder = {
+    from: () => builder,
+    select: () => builder,
+    is: (...args: unknown[]) => {
+      filters.push(['is', ...args]);
+      return builder;
+    },
+    in: (...args: unknown[]) => {
+      filters.push(['in', ...args]);
+      return builder;
+    },
+    or: (...args: unknown[]) => {
+      filters.push(['or', ...args]);
+      return builder;
+    },
+    order: () => Promise.resolve({ data: rows, error: null }),
+  };
+  return {
+    supabase: { getClient: () => builder } as unknown as SupabaseService,
+    filters,
+  };
+}
+
+describe('ExamSetsService.getExamSetById', () => {
+  const row = {
+    grade_level: '고3',
+    category: '국어',
+    subject: '국어',
+    selection: null,
+    exam_type: '학력평가',
+    exam_year: 2024,
+    exam_month: 3,
+    source: null,
+    title: '2024 3월 학력평가 국어',
+    created_at: '2024-03-21T00:00:00Z',
+  };
+  const rows = [
+    {
+      ...row,
+      id: 'p',
+      filename: '고3_국어_국어__학력평가_2024_3__problem.pdf',
+    },
+    { ...row, id: 'a', filename: '고3_국어_국어__학력평가_2024_3__answer.pdf' },
+  ];
+
+  it('finds sets whose selection and source are NULL', async () => {
+    const { supabase, filters } = stubSupabase(rows);
+    const service = new ExamSetsService(new DocumentsService(supabase));
+    const [listed] = await service.getExamSets({});
+
+    const set = await service.getExamSetById(listed.id);
+
+    expect(set.problem?.id).toBe('p');
+    expect(set.answer?.id).toBe('a');
+    expect(filters).toContainEqual([
+      'or',
+      'selection.is.null,selection.in.("")',
+    ]);
+    expect(filters).toContainEqual(['or', 'source.is.null,source.in.("")']);
+  });
+});
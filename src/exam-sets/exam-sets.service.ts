@@ -0,0 +1,206 @@
+import { Injectable } from '@nestjs/common';
+import {
+  DOC_TYPES,
+  DocType,
+  Document,
+  DocumentFilters,
+  DocumentsService,
+} from '../documents/documents.service';
+import { NotFoundError, ValidationError } from '../common/errors';
+
+/** Fields that identify one sitting of one exam paper */
+export const EXAM_SET_KEY_FIELDS = [
+  'grade_level',
+  'category',
+  'subject',
+  'selection',
+  'exam_type',
+  'exam_year',
+  'exam_month',
+  'source',
+] as const;
+
+export interface ExamSetKey {
+  grade_level: string;
+  category: string;
+  subject: string;
+  selection: string;
+  exam_type: string;
+  exam_year: number;
+  exam_month: number;
+  source: string;
+}
+
+/** Members a set needs before it can be solved and graded */
+export const REQUIRED_DOC_TYPES: DocType[] = ['problem', 'answer'];
+
+export interface ExamSet extends ExamSetKey {
+  id: string;
+  title: string;
+  problem: Document | null;
+  answer: Document | null;
+  explanation: Document | null;
+  /** Document types with no matching PDF, including the optional explanation */
+  missing: DocType[];
+  /** True when a required member (problem or answer) is missing */
+  has_missing_member: boolean;
+}
+
+@Injectable()
+export class ExamSetsService {
+  constructor(private readonly documentsService: DocumentsService) {}
+
+  private keyOf(document: Document): ExamSetKey {
+    return {
+      grade_level: this.documentsService.normalizeInput(document.grade_level),
+      category: this.documentsService.normalizeInput(document.category),
+      subject: this.documentsService.normalizeInput(document.subject),
+      selection: this.documentsService.normalizeInput(document.selection || ''),
+      exam_type: this.documentsService.normalizeInput(document.exam_type),
+      exam_year: document.exam_year,
+      exam_month: document.exam_month,
+      source: this.documentsService.normalizeInput(document.source || ''),
+    };
+  }
+
+  /**
+   * Set ids are the URL-safe encoding of the key, so a set can be looked up
+   * without a table of its own.
+   */
+  encodeId(key: ExamSetKey): string {
+    return Buffer.from(
+      JSON.stringify(EXAM_SET_KEY_FIELDS.map((field) => key[field])),
+      'utf8',
+    ).toString('base64url');
+  }
+
+  /** Id of the set a document belongs to */
+  idOf(document: Document): string {
+    return this.encodeId(this.keyOf(document));
+  }
+
+  decodeId(id: string): ExamSetKey | null {
+    try {
+      const values = JSON.parse(
+        Buffer.from(id, 'base64url').toString('utf8'),
+      ) as unknown[];
+      if (
+        !Array.isArray(values) ||
+        values.length !== EXAM_SET_KEY_FIELDS.length
+      ) {
+        return null;
+      }
+
+      const [grade_level, category, subject, selection, exam_type] =
+        values.slice(0, 5);
+      const [exam_year, exam_month, source] = values.slice(5);
+      if (
+        [grade_level, category, subject, selection, exam_type, source].some(
+          (value) => typeof value !== 'string',
+        ) ||
+        !Number.isInteger(exam_year) ||
+        !Number.isInteger(exam_month)
+      ) {
+        return null;
+      }
+
+      return {
+        grade_level,
+        category,
+        subject,
+        selection,
+        exam_type,
+        exam_year,
+        exam_month,
+        source,
+      } as ExamSetKey;
+    } catch {
+      return null;
+    }
+  }
+
+  private groupIntoSets(documents: Document[]): ExamSet[] {
+    const sets = new Map<string, ExamSet>();
+
+    for (const document of documents) {
+      if (!document.doc_type) continue;
+
+      const key = this.keyOf(document);
+      const id = this.encodeId(key);
+      let set = sets.get(id);
+      if (!set) {
+        set = {
+          id,
+          ...key,
+          title: document.title,
+          problem: null,
+          answer: null,
+          explanation: null,
+          missing: [],
+          has_missing_member: false,
+        };
+        sets.set(id, set);
+      }
+
+      // Documents arrive newest first, so the newest upload of a type wins
+      if (!set[document.doc_type]) {
+        set[document.doc_type] = document;
+      }
+    }
+
+    return [...sets.values()].map((set) => {
+      const missing = DOC_TYPES.filter((docType) => !set[docType]);
+      return {
+        ...set,
+        missing,
+        has_missing_member: REQUIRED_DOC_TYPES.some((docType) =>
+          missing.includes(docType),
+        ),
+      };
+    });
+  }
+
+  async getExamSets(
+    filters: DocumentFilters,
+    onlyIncomplete = false,
+  ): Promise<ExamSet[]> {
+    const documents = await this.documentsService.getAllDocuments({
+      ...filters,
+      doc_types: undefined,
+    });
+    const sets = this.groupIntoSets(documents).sort(
+      (a, b) =>
+        b.exam_year - a.exam_year ||
+        b.exam_month - a.exam_month ||
+        a.category.localeCompare(b.category) ||
+        a.subject.localeCompare(b.subject) ||
+        a.selection.localeCompare(b.selection),
+    );
+
+    return onlyIncomplete ? sets.filter((set) => set.has_missing_member) : sets;
+  }
+
+  async getExamSetById(id: string): Promise<ExamSet> {
+    const key = this.decodeId(id);
+    if (!key) {
+      throw new ValidationError(`Invalid exam set id: ${id}`);
+    }
+
+    const documents = await this.documentsService.getAllDocuments({
+      grade_levels: [key.grade_level],
+      categories: [key.category],
+      subjects: [key.subject],
+      selections: [key.selection],
+      exam_types: [key.exam_type],
+      exam_years: [key.exam_year],
+      exam_months: [key.exam_month],
+      sources: [key.source],
+    });
+
+    const set = this.groupIntoSets(documents).find((set) => set.id === id);
+    if (!set) {
+      throw new NotFoundError(`Exam set ${id} not found`);
+    }
+    return set;
+  }
+}
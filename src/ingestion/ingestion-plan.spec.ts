@@ -0,0 +1,111 @@
+import {
+  contentHash,
+  documentIdForHash,
+  IngestedDocument,
+  planIngestion,
+} from './ingestion-plan';
+
+const PHYSICS = '고3_과학탐구_물리학 I__수능_2024_11_평가원_problem.pdf';
+const CHEMISTRY = '고3_과학탐구_화학 I__수능_2024_11_평가원_problem.pdf';
+const BIOLOGY = '고3_과학탐구_생명과학 I__수능_2024_11_평가원_problem.pdf';
+
+const row = (fields: Partial<IngestedDocument>): IngestedDocument => ({
+  id: 'doc-1',
+  filename: PHYSICS,
+  storage_path: 'documents/doc-1.pdf',
+  content_hash: null,
+  created_at: '2024-12-01T00:00:00.000Z',
+  deleted_at: null,
+  ...fields,
+});
+
+describe('documentIdForHash', () => {
+  it('derives the same version 8 UUID from the same content', () => {
+    const hash = contentHash(Buffer.from('%PDF-1.7'));
+    expect(documentIdForHash(hash)).toBe(documentIdForHash(hash));
+    expect(documentIdForHash(hash)).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-8[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+    );
+  });
+});
+
+describe('planIngestion', () => {
+  it('inserts new files under an id derived from their content', () => {
+    const [item] = planIngestion(
+      [{ file: PHYSICS, content_hash: 'a'.repeat(64) }],
+      [],
+    );
+    expect(item).toMatchObject({
+      action: 'insert',
+      upload: true,
+      document_id: documentIdForHash('a'.repeat(64)),
+      metadata: { subject: '물리학 I', exam_year: 2024 },
+    });
+  });
+
+  it('skips content that is already ingested or was deleted', () => {
+    const plan = planIngestion(
+      [
+        { file: PHYSICS, content_hash: 'a' },
+        { file: CHEMISTRY, content_hash: 'b' },
+      ],
+      [
+        row({ content_hash: 'a' }),
+        row({
+          id: 'doc-2',
+          filename: CHEMISTRY,
+          content_hash: 'b',
+          deleted_at: '2025-01-01T00:00:00.000Z',
+        }),
+      ],
+    );
+    expect(plan.map(({ action, reason }) => [action, reason])).toEqual([
+      ['skip', 'already ingested'],
+      ['skip', 'the document was deleted'],
+    ]);
+  });
+
+  it('updates metadata of renamed files and content of rows without a hash', () => {
+    const plan = planIngestion(
+      [
+        { file: CHEMISTRY, content_hash: 'a' },
+        { file: PHYSICS.normalize('NFD'), content_hash: 'b' },
+      ],
+      [
+        row({ filename: BIOLOGY, content_hash: 'a' }),
+        row({ id: 'doc-2', created_at: '2025-01-01T00:00:00.000Z' }),
+        row({ id: 'doc-3', created_at: '2025-02-01T00:00:00.000Z' }),
+      ],
+    );
+    expect(plan).toMatchObject([
+      {
+        action: 'update',
+        document_id: 'doc-1',
+        upload: false,
+        reason: `metadata changed from ${BIOLOGY}`,
+      },
+      {
+        action: 'update',
+        document_id: 'doc-2',
+        upload: true,
+        reason: 'no content hash recorded',
+      },
+    ]);
+  });
+
+  it('reports bad filenames and duplicates within the run', () => {
+    const plan = planIngestion(
+      [
+        { file: 'scan.pdf', content_hash: 'a' },
+        { file: PHYSICS, content_hash: 'b' },
+        { file: CHEMISTRY, content_hash: 'b' },
+      ],
+      [],
+    );
+    expect(plan.map(({ action, reason }) => [action, reason])).toEqual([
+      ['invalid', "expected 8 or 9 components separated by '_', found 1"],
+      ['insert', null],
+      ['skip', `same content as ${PHYSICS}`],
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import { createHash } from 'crypto';
+import { ExamMetadata } from '../naming/naming-convention';
+import { formatExamFilename, parseExamFilename } from '../naming/exam-filename';
+
+/** SHA-256 of a PDF, hex encoded; stored as documents.content_hash */
+export function contentHash(content: Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Document id derived from the content hash (a version 8 UUID). Retrying an
+ * insert after a crash then writes the same storage key and row again
+ * instead of leaving an orphaned object behind.
+ */
+export function documentIdForHash(hash: string): string {
+  const hex = hash.slice(0, 32).split('');
+  hex[12] = '8';
+  hex[16] = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  const id = hex.join('');
+  return [
+    id.slice(0, 8),
+    id.slice(8, 12),
+    id.slice(12, 16),
+    id.slice(16, 20),
+    id.slice(20),
+  ].join('-');
+}
+
+/** The columns of a documents row needed to plan an ingestion */
+export interface IngestedDocument {
+  id: string;
+  filename: string;
+  storage_path: string | null;
+  content_hash: string | null;
+  created_at: string;
+  deleted_at: string | null;
+}
+
+export interface IngestFile {
+  /** Basename of the PDF */
+  file: string;
+  content_hash: string;
+}
+
+/**
+ * - insert: a new document
+ * - update: an existing row gets new metadata (the file was renamed) or,
+ *   with `upload`, new content
+ * - skip: already ingested, soft-deleted or a duplicate in this run
+ * - invalid: the filename does not follow the naming convention
+ */
+export type IngestAction = 'insert' | 'update' | 'skip' | 'invalid';
+
+export interface IngestPlanItem extends IngestFile {
+  action: IngestAction;
+  document_id: string | null;
+  /** Whether the PDF is written to storage */
+  upload: boolean;
+  metadata: ExamMetadata | null;
+  /** Why the file is skipped, invalid or updated */
+  reason: string | null;
+}
+
+/**
+ * Decide what to do with each file. Rows are matched by content hash
+ * first, so a renamed file updates its document, and then by filename, so
+ * rows uploaded before content hashes were recorded are not duplicated.
+ */
+export function planIngestion(
+  files: IngestFile[],
+  existing: IngestedDocument[],
+): IngestPlanItem[] {
+  // Oldest first, so the original of duplicate rows is the one updated
+  const rows = [...existing].sort((a, b) =>
+    a.created_at.localeCompare(b.created_at),
+  );
+  const seenHashes = new Map<string, string>();
+  const seenFilenames = new Map<string, string>();
+
+  return files.map((input): IngestPlanItem => {
+    const item = (
+      action: IngestAction,
+      fields: Partial<IngestPlanItem> = {},
+    ): IngestPlanItem => ({
+      ...input,
+      action,
+      document_id: null,
+      upload: false,
+      metadata: null,
+      reason: null,
+      ...fields,
+    });
+
+    const { metadata, errors } = parseExamFilename(input.file);
+    if (!metadata) {
+      return item('invalid', { reason: errors.join('; ') });
+    }
+
+    const filename = formatExamFilename(metadata);
+    const sameContent = seenHashes.get(input.content_hash);
+    const sameMetadata = seenFilenames.get(filename);
+    if (sameContent || sameMetadata) {
+      return item('skip', {
+        metadata,
+        reason: sameContent
+          ? `same content as ${sameContent}`
+          : `same metadata as ${sameMetadata}`,
+      });
+    }
+    seenHashes.set(input.content_hash, input.file);
+    seenFilenames.set(filename, input.file);
+
+    const byHash = rows.find((row) => row.content_hash === input.content_hash);
+    if (byHash) {
+      const fields = { document_id: byHash.id, metadata };
+      if (byHash.deleted_at) {
+        return item('skip', { ...fields, reason: 'the document was deleted' });
+      }
+      if (byHash.filename.normalize('NFC') === filename) {
+        return item('skip', { ...fields, reason: 'already ingested' });
+      }
+      return item('update', {
+        ...fields,
+        reason: `metadata changed from ${byHash.filename}`,
+      });
+    }
+
+    const byFilename = rows.find(
+      (row) =>
+        !row.deleted_at &&
+        [filename, input.file.normalize('NFC')].includes(
+          row.filename.normalize('NFC'),
+        ),
+    );
+    if (byFilename) {
+      return item('update', {
+        document_id: byFilename.id,
+        upload: true,
+        metadata,
+        reason: byFilename.content_hash
+          ? 'content changed'
+          : 'no content hash recorded',
+      });
+    }
+
+    return item('insert', {
+      document_id: documentIdForHash(input.content_hash),
+      upload: true,
+      metadata,
+    });
+  });
+}
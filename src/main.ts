@@ -1,5 +1,6 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
+import { setupOpenApi } from './openapi';
 import * as dotenv from 'dotenv';
 
 // Load environment variables based on NODE_ENV
@@ -17,6 +18,8 @@ async function bootstrap() {
     methods: 'GET,HEAD,PUT,PATCH,POST,DELETE',
     credentials: true,
   });
+
+  setupOpenApi(app);
   
   // Bind to 0.0.0.0 to accept connections from any IP
   const port = process.env.PORT ?? 3000;
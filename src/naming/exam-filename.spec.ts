@@ -0,0 +1,171 @@
+import {
+  formatExamFilename,
+  parseExamFilename,
+  validateExamMetadata,
+} from './exam-filename';
+import { ExamMetadata } from './naming-convention';
+import { TAXONOMY } from '../taxonomy/taxonomy';
+
+describe('parseExamFilename', () => {
+  it('reads a filename with an empty selection', () => {
+    expect(
+      parseExamFilename(
+        '고3_과학탐구_물리학 I__수능_2024_11_평가원_problem.pdf',
+      ),
+    ).toEqual({
+      metadata: {
+        grade_level: '고3',
+        category: '과학탐구',
+        subject: '물리학 I',
+        selection: '',
+        exam_type: '수능',
+        exam_year: 2024,
+        exam_month: 11,
+        source: '평가원',
+        doc_type: 'problem',
+      },
+      values: {
+        grade_level: '고3',
+        category: '과학탐구',
+        subject: '물리학 I',
+        selection: '',
+        exam_type: '수능',
+        exam_year: '2024',
+        exam_month: '11',
+        source: '평가원',
+        doc_type: 'problem',
+      },
+      errors: [],
+    });
+  });
+
+  it('reads a selection and a filename without the selection component', () => {
+    expect(
+      parseExamFilename('고3_수학_수학_미적분_수능_2024_11_평가원_answer.pdf')
+        .metadata?.selection,
+    ).toBe('미적분');
+    expect(
+      parseExamFilename('고2_영어_영어_학력평가_2023_3_교육청_problem.pdf')
+        .metadata,
+    ).toMatchObject({ selection: '', exam_type: '학력평가', exam_month: 3 });
+  });
+
+  it('normalizes decomposed Hangul', () => {
+    const nfd =
+      '고3_과학탐구_물리학 I__수능_2024_11_평가원_problem.pdf'.normalize('NFD');
+    expect(parseExamFilename(nfd).metadata?.category).toBe('과학탐구');
+  });
+
+  it('lists every invalid component', () => {
+    expect(
+      parseExamFilename('고4_과학탐구_물리학 I__수능_2024_13_학원_problem.pdf'),
+    ).toMatchObject({
+      metadata: null,
+      values: { grade_level: '고4', exam_month: '13', source: '학원' },
+      errors: [
+        "unknown grade_level '고4'",
+        "exam_month '13' is not a number from 1 to 12",
+        "unknown source '학원'",
+      ],
+    });
+    expect(parseExamFilename('scan_001.pdf')).toEqual({
+      metadata: null,
+      values: null,
+      errors: ["expected 8 or 9 components separated by '_', found 2"],
+    });
+  });
+
+  it('reports a component left over after doc_type', () => {
+    expect(
+      parseExamFilename('고3_수학_수학_수능_2024_11_평가원_problem_extra.pdf'),
+    ).toEqual({
+      metadata: null,
+      values: null,
+      errors: ["unexpected component 'extra'"],
+    });
+  });
+
+  it('keeps whitespace, so padded components are reported', () => {
+    expect(
+      parseExamFilename(
+        '고3_과학탐구_물리학 I__수능_2024_11_평가원 _problem.pdf',
+      ).errors,
+    ).toEqual(["unknown source '평가원 '"]);
+  });
+
+  it('rejects subjects and selections of another category', () => {
+    expect(
+      parseExamFilename(
+        '고3_사회탐구_물리학 I__수능_2024_11_평가원_problem.pdf',
+      ).errors,
+    ).toEqual(['subject 물리학 I not allowed in category 사회탐구']);
+    expect(
+      parseExamFilename('고3_국어_국어_미적분_수능_2024_11_평가원_problem.pdf')
+        .errors,
+    ).toEqual(['selection 미적분 not allowed in category 국어']);
+    expect(
+      parseExamFilename('고3_과학탐구_물리_수능_2024_11_평가원_problem.pdf')
+        .errors,
+    ).toEqual(["unknown subject '물리'"]);
+  });
+
+  it('formats metadata back into the same filename', () => {
+    const filename = '고3_과학탐구_물리학 I__수능_2024_11_평가원_problem.pdf';
+    const { metadata } = parseExamFilename(filename);
+    expect(metadata && formatExamFilename(metadata)).toBe(filename);
+  });
+});
+
+describe('formatExamFilename', () => {
+  const base: ExamMetadata = {
+    grade_level: '고3',
+    category: '국어',
+    subject: '국어',
+    selection: '',
+    exam_type: '수능',
+    exam_year: 2024,
+    exam_month: 11,
+    source: '평가원',
+    doc_type: 'problem',
+  };
+
+  it('round-trips every taxonomy subject and selection', () => {
+    for (const category of TAXONOMY) {
+      for (const subject of category.subjects) {
+        const selections = subject.selections.map(({ name }) => name);
+        for (const selection of ['', ...selections]) {
+          const metadata = {
+            ...base,
+            category: category.name,
+            subject: subject.name,
+            selection,
+          };
+          expect(parseExamFilename(formatExamFilename(metadata))).toMatchObject(
+            { metadata, errors: [] },
+          );
+        }
+      }
+    }
+  });
+});
+
+describe('validateExamMetadata', () => {
+  it('reports the same problems as parsing', () => {
+    expect(
+      validateExamMetadata({
+        grade_level: '고3',
+        category: '사회탐구',
+        subject: '물리학 I',
+        selection: '',
+        exam_type: '수능',
+        exam_year: 2024,
+        exam_month: 0,
+        source: '평가원',
+        doc_type: 'problem',
+      }),
+    ).toEqual([
+      'subject 물리학 I not allowed in category 사회탐구',
+      "exam_month '0' is not a number from 1 to 12",
+    ]);
+  });
+});
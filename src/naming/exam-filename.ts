@@ -0,0 +1,214 @@
+import {
+  CATEGORIES,
+  DOC_TYPES,
+  EXAM_TYPES,
+  ExamMetadata,
+  GRADE_LEVELS,
+  MIN_EXAM_YEAR,
+  SOURCES,
+  maxExamYear,
+} from './naming-convention';
+import {
+  TAXONOMY,
+  categoryOfSubject,
+  findCategory,
+  selectionsOfCategory,
+} from '../taxonomy/taxonomy';
+
+/** Metadata fields as read from a filename or sent by a client */
+export type ExamMetadataValues = Record<keyof ExamMetadata, string | number>;
+
+export interface ExamMetadataCheck {
+  /** null when any field is invalid */
+  metadata: ExamMetadata | null;
+  /** One message per problem, e.g. "unknown source '학원'" */
+  errors: string[];
+}
+
+export interface ExamFilenameParse extends ExamMetadataCheck {
+  /**
+   * Components as read, valid or not, so callers can replace some before
+   * checking them again; null when the filename does not split into them
+   */
+  values: ExamMetadataValues | null;
+}
+
+function checkEnum(
+  name: string,
+  value: string | number,
+  allowed: readonly string[],
+  errors: string[],
+): void {
+  if (!allowed.includes(String(value))) {
+    errors.push(`unknown ${name} '${value}'`);
+  }
+}
+
+function checkInteger(
+  name: string,
+  value: string | number,
+  min: number,
+  max: number,
+  errors: string[],
+): void {
+  const number = /^\d+$/.test(String(value)) ? Number(value) : NaN;
+  if (!Number.isInteger(number) || number < min || number > max) {
+    errors.push(`${name} '${value}' is not a number from ${min} to ${max}`);
+  }
+}
+
+/** Subjects and selections must belong to the category in the taxonomy */
+function checkSubjectAndSelection(
+  category: string,
+  subject: string,
+  selection: string,
+  errors: string[],
+): void {
+  // Pairs are only checked once the category itself is known
+  const node = findCategory(category);
+
+  if (subject.trim() === '') {
+    errors.push('subject is empty');
+  } else if (!categoryOfSubject(subject)) {
+    errors.push(`unknown subject '${subject}'`);
+  } else if (node && !node.subjects.some(({ name }) => name === subject)) {
+    errors.push(`subject ${subject} not allowed in category ${category}`);
+  }
+
+  if (selection === '') return;
+  if (
+    !TAXONOMY.some(({ name }) => selectionsOfCategory(name).includes(selection))
+  ) {
+    errors.push(`unknown selection '${selection}'`);
+  } else if (node && !selectionsOfCategory(node.name).includes(selection)) {
+    errors.push(`selection ${selection} not allowed in category ${category}`);
+  }
+}
+
+function collectErrors(values: ExamMetadataValues): string[] {
+  const errors: string[] = [];
+  checkEnum('grade_level', values.grade_level, GRADE_LEVELS, errors);
+  checkEnum('category', values.category, CATEGORIES, errors);
+  checkSubjectAndSelection(
+    String(values.category),
+    String(values.subject),
+    String(values.selection),
+    errors,
+  );
+  checkEnum('exam_type', values.exam_type, EXAM_TYPES, errors);
+  checkInteger(
+    'exam_year',
+    values.exam_year,
+    MIN_EXAM_YEAR,
+    maxExamYear(),
+    errors,
+  );
+  checkInteger('exam_month', values.exam_month, 1, 12, errors);
+  checkEnum('source', values.source, SOURCES, errors);
+  checkEnum('doc_type', values.doc_type, DOC_TYPES, errors);
+  return errors;
+}
+
+/**
+ * Check fields read from a filename or form, where years and months may
+ * still be strings, and convert them to metadata when they are valid
+ */
+export function checkExamMetadata(
+  values: ExamMetadataValues,
+): ExamMetadataCheck {
+  const errors = collectErrors(values);
+  if (errors.length > 0) {
+    return { metadata: null, errors };
+  }
+  return {
+    metadata: {
+      ...values,
+      exam_year: Number(values.exam_year),
+      exam_month: Number(values.exam_month),
+    } as ExamMetadata,
+    errors: [],
+  };
+}
+
+/**
+ * Problems with metadata that did not come from a filename, such as an
+ * admin request body, in the same words parseExamFilename uses. Empty when
+ * the metadata is valid.
+ */
+export function validateExamMetadata(metadata: ExamMetadata): string[] {
+  return collectErrors(metadata);
+}
+
+/**
+ * Read metadata from a naming-convention filename
+ * (`{grade_level}_{category}_{subject}_{selection}_{exam_type}_{exam_year}_{exam_month}_{source}_{doc_type}.pdf`).
+ * The selection may be empty (`__`) or left out entirely. Components are
+ * NFC normalized, so names from macOS file systems parse too, but not
+ * trimmed: `평가원 ` is an unknown source.
+ */
+export function parseExamFilename(filename: string): ExamFilenameParse {
+  const name = filename.normalize('NFC');
+  if (!name.toLowerCase().endsWith('.pdf')) {
+    return { metadata: null, values: null, errors: ['not a .pdf filename'] };
+  }
+
+  const parts = name.slice(0, -4).split('_');
+  if (parts.length < 8 || parts.length > 9) {
+    return {
+      metadata: null,
+      values: null,
+      errors: [
+        `expected 8 or 9 components separated by '_', found ${parts.length}`,
+      ],
+    };
+  }
+
+  // Without a selection component the exam type follows the subject
+  const hasSelection =
+    parts.length === 9 &&
+    (parts[3] === '' || !(EXAM_TYPES as readonly string[]).includes(parts[3]));
+  const [gradeLevel, category, subject] = parts;
+  const selection = hasSelection ? parts[3] : '';
+  const [examType, examYear, examMonth, source, docType, ...extra] =
+    parts.slice(hasSelection ? 4 : 3);
+
+  const values: ExamMetadataValues = {
+    grade_level: gradeLevel,
+    category,
+    subject,
+    selection,
+    exam_type: examType,
+    exam_year: examYear,
+    exam_month: examMonth,
+    source,
+    doc_type: docType,
+  };
+  const check = checkExamMetadata(values);
+  if (extra.length > 0) {
+    // Nine components whose fourth is an exam type leave one over
+    const errors = [...check.errors, `unexpected component '${extra[0]}'`];
+    return { metadata: null, values: null, errors };
+  }
+  return { ...check, values };
+}
+
+/**
+ * `{grade_level}_{category}_{subject}_{selection}_{exam_type}_{exam_year}_{exam_month}_{source}_{doc_type}.pdf`.
+ * Always writes the selection component, so parsing the result gives back
+ * the same metadata.
+ */
+export function formatExamFilename(metadata: ExamMetadata): string {
+  return (
+    [
+      metadata.grade_level,
+      metadata.category,
+      metadata.subject,
+      metadata.selection,
+      metadata.exam_type,
+      metadata.exam_year,
+      metadata.exam_month,
+      metadata.source,
+      metadata.doc_type,
+    ].join('_') + '.pdf'
+  );
+}
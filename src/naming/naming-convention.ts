@@ -0,0 +1,57 @@
+/**
+ * Allowed values of the exam file naming convention
+ * (script/data/naming_convention.md). Shared by request validation and the
+ * upload scripts; the subjects of each category are in the taxonomy.
+ */
+
+export const GRADE_LEVELS = ['고1', '고2', '고3'] as const;
+export type GradeLevel = (typeof GRADE_LEVELS)[number];
+
+export const CATEGORIES = [
+  '국어',
+  '수학',
+  '영어',
+  '한국사',
+  '사회탐구',
+  '과학탐구',
+  '직업탐구',
+  '제2외국어',
+] as const;
+export type Category = (typeof CATEGORIES)[number];
+
+export const EXAM_TYPES = ['수능', '학력평가', '모의고사'] as const;
+export type ExamType = (typeof EXAM_TYPES)[number];
+
+export const SOURCES = ['평가원', '교육청', '사설'] as const;
+export type Source = (typeof SOURCES)[number];
+
+export const DOC_TYPES = ['problem', 'answer', 'explanation'] as const;
+export type DocType = (typeof DOC_TYPES)[number];
+
+/** The first 수능 was held in 1993 for the 1994 academic year */
+export const MIN_EXAM_YEAR = 1993;
+
+/** Next year's papers (e.g. 6월 모의평가) may be uploaded late in the year */
+export function maxExamYear(): number {
+  return new Date().getFullYear() + 1;
+}
+
+/** The metadata a naming-convention filename encodes */
+export interface ExamMetadata {
+  grade_level: GradeLevel;
+  category: Category;
+  subject: string;
+  /** 선택과목 such as 미적분, or '' when the subject has none */
+  selection: string;
+  exam_type: ExamType;
+  exam_year: number;
+  exam_month: number;
+  source: Source;
+  doc_type: DocType;
+}
+
+/** Display title, e.g. `고3 과학탐구 물리학 I 수능 2024년 11월 평가원` */
+export function documentTitle(metadata: ExamMetadata): string {
+  const selection = metadata.selection ? ` ${metadata.selection}` : '';
+  return `${metadata.grade_level} ${metadata.category} ${metadata.subject}${selection} ${metadata.exam_type} ${metadata.exam_year}년 ${metadata.exam_month}월 ${metadata.source}`;
+}
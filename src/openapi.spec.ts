@@ -0,0 +1,65 @@
+import { INestApplication } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import type { OpenAPIObject, SchemaObject } from '@nestjs/swagger';
+import { AppModule } from './app.module';
+import { createOpenApiDocument } from './openapi';
+
+describe('createOpenApiDocument', () => {
+  let app: INestApplication;
+  let document: OpenAPIObject;
+
+  beforeAll(async () => {
+    app = await NestFactory.create(AppModule, { preview: true, logger: false });
+    document = createOpenApiDocument(app);
+  });
+
+  afterAll(() => app.close());
+
+  const schema = (name: string) =>
+    document.components?.schemas?.[name] as SchemaObject;
+
+  it('names operations after controller methods', () => {
+    expect(document.paths['/documents/{id}'].get?.operationId).toBe(
+      'getDocumentById',
+    );
+    expect(document.paths['/exam-sets'].get?.operationId).toBe('getExamSets');
+  });
+
+  it('leaves out debug and storage routes', () => {
+    expect(Object.keys(document.paths)).not.toContain(
+      '/documents/debug/categories',
+    );
+    expect(Object.keys(document.paths)).not.toContain('/storage/local');
+  });
+
+  it('describes filter query parameters with the naming convention enums', () => {
+    const parameter = document.paths[
+      '/documents/filtered'
+    ].get?.parameters?.find(
+      (candidate) => 'name' in candidate && candidate.name === 'grade_levels',
+    );
+    expect(parameter).toMatchObject({
+      in: 'query',
+      schema: { type: 'array', items: { enum: ['고1', '고2', '고3'] } },
+    });
+  });
+
+  it('uses the camelCase keys the filter endpoint returns', () => {
+    expect(Object.keys(schema('AvailableFiltersDto').properties ?? {})).toEqual(
+      expect.arrayContaining(['gradeLevels', 'examTypes', 'facets']),
+    );
+  });
+
+  it('documents the error body on every operation', () => {
+    const responses = document.paths['/documents/{id}'].get?.responses ?? {};
+    expect(responses['404']).toMatchObject({
+      content: {
+        'application/json': {
+          schema: { $ref: '#/components/schemas/ApiErrorBodyDto' },
+        },
+      },
+    });
+    expect(responses['400']).toBeDefined();
+    expect(responses['503']).toBeDefined();
+  });
+});
@@ -0,0 +1,39 @@
+import { INestApplication } from '@nestjs/common';
+import { DocumentBuilder, OpenAPIObject, SwaggerModule } from '@nestjs/swagger';
+
+export const OPENAPI_UI_PATH = 'docs';
+export const OPENAPI_JSON_PATH = 'openapi.json';
+
+/**
+ * OpenAPI 3 document generated from the controller and DTO decorators.
+ * Operation ids are the controller method names so generated clients get
+ * readable method names (getDocumentById, getExamSets, ...).
+ */
+export function createOpenApiDocument(app: INestApplication): OpenAPIObject {
+  const config = new DocumentBuilder()
+    .setTitle('Dasy CSAT API')
+    .setDescription(
+      'Exam PDFs, exam sets and download links for the Dasy iPad app. ' +
+        'Every response carries an X-Request-Id header.',
+    )
+    .setVersion('1.0')
+    .addBearerAuth({
+      type: 'http',
+      scheme: 'bearer',
+      bearerFormat: 'JWT',
+      description: 'Supabase access token of the signed-in user',
+    })
+    .build();
+
+  return SwaggerModule.createDocument(app, config, {
+    operationIdFactory: (_controllerKey, methodKey) => methodKey,
+  });
+}
+
+/** Serve Swagger UI at /docs and the raw document at /openapi.json */
+export function setupOpenApi(app: INestApplication): void {
+  SwaggerModule.setup(OPENAPI_UI_PATH, app, () => createOpenApiDocument(app), {
+    jsonDocumentUrl: OPENAPI_JSON_PATH,
+    raw: ['json'],
+  });
+}
@@ -0,0 +1,147 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ApiSuccessDto } from '../../common/dto/api-response.dto';
+import { CONVERSION_KINDS, MAX_GRADE, MIN_GRADE } from '../score-conversion';
+import type {
+  ConversionKind,
+  Evaluation,
+  GradeCut,
+  ScoreEstimate,
+  ScoreTableRow,
+} from '../score-conversion';
+import type { ScoreConversionTable } from '../score-conversion.service';
+import type { ScoreConversionInput } from '../score-table-import';
+
+const EVALUATIONS: Evaluation[] = ['relative', 'absolute'];
+
+export class GradeCutDto implements GradeCut {
+  @ApiProperty({ type: 'integer', minimum: MIN_GRADE, maximum: MAX_GRADE })
+  @IsInt()
+  @Min(MIN_GRADE)
+  @Max(MAX_GRADE)
+  grade: number;
+
+  @ApiProperty({ description: 'Lowest raw score that earns the grade' })
+  @IsNumber()
+  min_raw_score: number;
+}
+
+export class ScoreTableRowDto implements ScoreTableRow {
+  @ApiProperty({ example: 92 })
+  @IsNumber()
+  raw_score: number;
+
+  @ApiProperty({ example: 131 })
+  @IsNumber()
+  standard_score: number;
+
+  @ApiProperty({ example: 96, minimum: 0, maximum: 100 })
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  percentile: number;
+
+  @ApiProperty({ type: 'integer', minimum: MIN_GRADE, maximum: MAX_GRADE })
+  @IsInt()
+  @Min(MIN_GRADE)
+  @Max(MAX_GRADE)
+  grade: number;
+}
+
+export class PutScoreConversionDto implements ScoreConversionInput {
+  @ApiProperty({ enum: CONVERSION_KINDS })
+  @IsIn(CONVERSION_KINDS)
+  kind: ConversionKind;
+
+  @ApiPropertyOptional({
+    type: [GradeCutDto],
+    description: 'Derived from score_table when omitted',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => GradeCutDto)
+  grade_cuts: GradeCutDto[] = [];
+
+  @ApiPropertyOptional({ type: [ScoreTableRowDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ScoreTableRowDto)
+  score_table: ScoreTableRowDto[] = [];
+
+  @ApiPropertyOptional({
+    maxLength: 200,
+    example: '평가원 채점 결과 보도자료',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  source?: string;
+}
+
+export class ScoreConversionTableDto implements ScoreConversionTable {
+  @ApiProperty()
+  exam_set_id: string;
+
+  @ApiProperty({ enum: CONVERSION_KINDS })
+  kind: ConversionKind;
+
+  @ApiProperty({ type: [GradeCutDto] })
+  grade_cuts: GradeCutDto[];
+
+  @ApiProperty({ type: [ScoreTableRowDto] })
+  score_table: ScoreTableRowDto[];
+
+  @ApiProperty({ type: String, nullable: true })
+  source: string | null;
+
+  @ApiProperty({ format: 'date-time' })
+  updated_at: string;
+}
+
+export class ScoreConversionTableResponseDto extends ApiSuccessDto {
+  @ApiProperty()
+  data: ScoreConversionTableDto;
+}
+
+export class ScoreEstimateDto implements ScoreEstimate {
+  @ApiProperty({ enum: EVALUATIONS })
+  evaluation: Evaluation;
+
+  @ApiProperty({
+    enum: CONVERSION_KINDS,
+    description:
+      'estimated when the table is, or when values were interpolated',
+  })
+  kind: ConversionKind;
+
+  @ApiProperty({ type: 'integer', nullable: true, example: 2 })
+  grade: number | null;
+
+  @ApiProperty({
+    type: Number,
+    nullable: true,
+    description: 'Always null for 절대평가 subjects',
+  })
+  standard_score: number | null;
+
+  @ApiProperty({
+    type: Number,
+    nullable: true,
+    description: 'Always null for 절대평가 subjects',
+  })
+  percentile: number | null;
+}
@@ -0,0 +1,68 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { ScoreConversionService } from './score-conversion.service';
+import {
+  PutScoreConversionDto,
+  ScoreConversionTableResponseDto,
+} from './dto/score-conversion.dto';
+import { ExamSetIdParamDto } from '../exam-sets/dto/exam-sets-query.dto';
+import { ApiErrorResponses } from '../common/api-error-responses';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { ADMIN_ROLE, Roles, RolesGuard } from '../auth/roles.guard';
+
+@ApiTags('exam-sets')
+@ApiErrorResponses(
+  HttpStatus.BAD_REQUEST,
+  HttpStatus.NOT_FOUND,
+  HttpStatus.SERVICE_UNAVAILABLE,
+)
+@Controller('exam-sets/:id/score-conversion')
+export class ScoreConversionController {
+  constructor(
+    private readonly scoreConversionService: ScoreConversionService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Grade cuts and 표준점수 table of an exam set' })
+  @ApiOkResponse({ type: ScoreConversionTableResponseDto })
+  async getTable(
+    @Param() { id }: ExamSetIdParamDto,
+  ): Promise<ScoreConversionTableResponseDto> {
+    const table = await this.scoreConversionService.getTable(id);
+    return {
+      success: true,
+      data: table,
+    };
+  }
+
+  @Put()
+  @Roles(ADMIN_ROLE)
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Import the conversion table of an exam set' })
+  @ApiOkResponse({ type: ScoreConversionTableResponseDto })
+  @ApiErrorResponses(HttpStatus.UNAUTHORIZED, HttpStatus.FORBIDDEN)
+  async replaceTable(
+    @Param() { id }: ExamSetIdParamDto,
+    @Body() body: PutScoreConversionDto,
+  ): Promise<ScoreConversionTableResponseDto> {
+    const table = await this.scoreConversionService.replaceTable(id, body);
+    return {
+      success: true,
+      data: table,
+    };
+  }
+}
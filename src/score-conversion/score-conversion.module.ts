@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ExamSetsModule } from '../exam-sets/exam-sets.module';
+import { ScoreConversionController } from './score-conversion.controller';
+import { ScoreConversionService } from './score-conversion.service';
+
+@Module({
+  imports: [ExamSetsModule],
+  controllers: [ScoreConversionController],
+  providers: [ScoreConversionService],
+  exports: [ScoreConversionService],
+})
+export class ScoreConversionModule {}
@@ -0,0 +1,139 @@
+import { Injectable } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { fromPostgrestError } from '../supabase/postgrest-error';
+import { NotFoundError, ValidationError } from '../common/errors';
+import { Document } from '../documents/documents.service';
+import { ExamSetsService } from '../exam-sets/exam-sets.service';
+import {
+  absoluteConversion,
+  checkConversionTable,
+  ConversionKind,
+  evaluationOf,
+  GradeCut,
+  gradeCutsFromScoreTable,
+  ScoreConversion,
+  ScoreTableRow,
+} from './score-conversion';
+import type { ScoreConversionInput } from './score-table-import';
+
+/** A row of score_conversion_tables, one per exam set */
+export interface ScoreConversionTable {
+  exam_set_id: string;
+  kind: ConversionKind;
+  grade_cuts: GradeCut[];
+  score_table: ScoreTableRow[];
+  source: string | null;
+  updated_at: string;
+}
+
+@Injectable()
+export class ScoreConversionService {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly examSetsService: ExamSetsService,
+  ) {}
+
+  private async findTable(
+    examSetId: string,
+  ): Promise<ScoreConversionTable | null> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('score_conversion_tables')
+      .select('*')
+      .eq('exam_set_id', examSetId)
+      .maybeSingle<ScoreConversionTable>();
+
+    if (error) {
+      throw fromPostgrestError(error, 'Failed to fetch score conversion table');
+    }
+    return data;
+  }
+
+  async getTable(examSetId: string): Promise<ScoreConversionTable> {
+    if (!this.examSetsService.decodeId(examSetId)) {
+      throw new ValidationError(`Invalid exam set id: ${examSetId}`);
+    }
+
+    const table = await this.findTable(examSetId);
+    if (!table) {
+      throw new NotFoundError(
+        `No score conversion table for exam set ${examSetId}`,
+      );
+    }
+    return table;
+  }
+
+  /**
+   * Store the table of a 상대평가 exam set, replacing any earlier one.
+   * Missing grade cuts are derived from the 표준점수 table; 절대평가
+   * subjects are rejected since their cuts are fixed.
+   */
+  async replaceTable(
+    examSetId: string,
+    input: ScoreConversionInput,
+  ): Promise<ScoreConversionTable> {
+    const set = await this.examSetsService.getExamSetById(examSetId);
+    if (evaluationOf(set.category) === 'absolute') {
+      throw new ValidationError(
+        `${set.category} is graded on fixed cuts and takes no conversion table`,
+      );
+    }
+
+    const table = {
+      grade_cuts:
+        input.grade_cuts.length > 0
+          ? input.grade_cuts
+          : gradeCutsFromScoreTable(input.score_table),
+      score_table: input.score_table,
+    };
+    const issues = checkConversionTable(table);
+    if (issues.length > 0) {
+      throw new ValidationError('Invalid score conversion table', { issues });
+    }
+
+    const row: ScoreConversionTable = {
+      exam_set_id: examSetId,
+      kind: input.kind,
+      grade_cuts: [...table.grade_cuts].sort((a, b) => a.grade - b.grade),
+      score_table: [...table.score_table].sort(
+        (a, b) => b.raw_score - a.raw_score,
+      ),
+      source: input.source ?? null,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data, error } = await this.supabaseService
+      .getAdminClient()
+      .from('score_conversion_tables')
+      .upsert(row)
+      .select()
+      .single<ScoreConversionTable>();
+
+    if (error) {
+      throw fromPostgrestError(error, 'Failed to save score conversion table');
+    }
+    return data;
+  }
+
+  /**
+   * How to convert raw scores of a problem document: fixed cuts for
+   * 절대평가 subjects, the exam set's table for 상대평가 ones, or null when
+   * no table has been imported yet.
+   */
+  async conversionForDocument(
+    document: Document,
+  ): Promise<ScoreConversion | null> {
+    const absolute = absoluteConversion(document.category);
+    if (absolute) return absolute;
+
+    const table = await this.findTable(this.examSetsService.idOf(document));
+    if (!table) return null;
+
+    return {
+      evaluation: 'relative',
+      kind: table.kind,
+      grade_cuts: table.grade_cuts,
+      score_table: table.score_table,
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import {
+  absoluteConversion,
+  checkConversionTable,
+  estimateScore,
+  ScoreConversion,
+} from './score-conversion';
+
+const mathTable: ScoreConversion = {
+  evaluation: 'relative',
+  kind: 'official',
+  grade_cuts: [],
+  score_table: [
+    { raw_score: 100, standard_score: 140, percentile: 100, grade: 1 },
+    { raw_score: 90, standard_score: 131, percentile: 97, grade: 1 },
+    { raw_score: 80, standard_score: 121, percentile: 90, grade: 2 },
+    { raw_score: 70, standard_score: 112, percentile: 79, grade: 3 },
+  ],
+};
+
+describe('estimateScore', () => {
+  it('reads exact rows of the 표준점수 table', () => {
+    expect(estimateScore(mathTable, 80)).toEqual({
+      evaluation: 'relative',
+      kind: 'official',
+      grade: 2,
+      standard_score: 121,
+      percentile: 90,
+    });
+  });
+
+  it('interpolates between rows and marks the result estimated', () => {
+    expect(estimateScore(mathTable, 85)).toEqual({
+      evaluation: 'relative',
+      kind: 'estimated',
+      grade: 2,
+      standard_score: 126,
+      percentile: 94,
+    });
+    expect(estimateScore(mathTable, 50).grade).toBe(4);
+  });
+
+  it('uses fixed cuts without 표준점수 for 절대평가 subjects', () => {
+    const english = absoluteConversion('영어')!;
+
+    expect(estimateScore(english, 90)).toEqual({
+      evaluation: 'absolute',
+      kind: 'official',
+      grade: 1,
+      standard_score: null,
+      percentile: null,
+    });
+    expect(estimateScore(english, 89).grade).toBe(2);
+    expect(estimateScore(absoluteConversion('한국사')!, 4).grade).toBe(9);
+    expect(absoluteConversion('수학')).toBeNull();
+  });
+});
+
+describe('checkConversionTable', () => {
+  it('accepts a consistent table', () => {
+    expect(checkConversionTable(mathTable)).toEqual([]);
+  });
+
+  it('reports cuts out of order and rows that convert higher', () => {
+    expect(
+      checkConversionTable({
+        grade_cuts: [
+          { grade: 1, min_raw_score: 88 },
+          { grade: 2, min_raw_score: 90 },
+        ],
+        score_table: [
+          { raw_score: 90, standard_score: 131, percentile: 97, grade: 1 },
+          { raw_score: 89, standard_score: 133, percentile: 97, grade: 1 },
+        ],
+      }),
+    ).toEqual([
+      'Cut for grade 2 (90) must be below the cut for grade 1 (88)',
+      'Raw score 89 converts higher than raw score 90',
+    ]);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * 상대평가 subjects are converted through the 표준점수 table published (or
+ * estimated by prep schools) for each exam; 절대평가 subjects get their 등급
+ * from fixed raw-score cuts and have no 표준점수 or 백분위.
+ */
+export type Evaluation = 'relative' | 'absolute';
+
+/** `official` for 평가원's published tables, `estimated` for prep-school ones */
+export type ConversionKind = 'official' | 'estimated';
+
+export const CONVERSION_KINDS: ConversionKind[] = ['official', 'estimated'];
+
+/** Lowest raw score that still earns `grade` */
+export interface GradeCut {
+  grade: number;
+  min_raw_score: number;
+}
+
+/** One line of a 표준점수 도표 */
+export interface ScoreTableRow {
+  raw_score: number;
+  standard_score: number;
+  percentile: number;
+  grade: number;
+}
+
+/** What is needed to convert the raw scores of one paper */
+export interface ScoreConversion {
+  evaluation: Evaluation;
+  kind: ConversionKind;
+  grade_cuts: GradeCut[];
+  score_table: ScoreTableRow[];
+}
+
+export interface ScoreEstimate {
+  evaluation: Evaluation;
+  /** `estimated` whenever a value was interpolated or the table is */
+  kind: ConversionKind;
+  grade: number | null;
+  standard_score: number | null;
+  percentile: number | null;
+}
+
+export const MIN_GRADE = 1;
+export const MAX_GRADE = 9;
+
+/**
+ * Fixed cuts of the 절대평가 subjects, for grades 1 to 8; anything lower is
+ * grade 9. 제2외국어/한문 has been graded this way since the 2022 CSAT.
+ */
+const ABSOLUTE_GRADE_CUTS: Record<string, number[]> = {
+  영어: [90, 80, 70, 60, 50, 40, 30, 20],
+  한국사: [40, 35, 30, 25, 20, 15, 10, 5],
+  제2외국어: [45, 40, 35, 30, 25, 20, 15, 10],
+};
+
+export function evaluationOf(category: string): Evaluation {
+  return category in ABSOLUTE_GRADE_CUTS ? 'absolute' : 'relative';
+}
+
+/** Conversion of a 절대평가 subject, or null for 상대평가 ones */
+export function absoluteConversion(category: string): ScoreConversion | null {
+  const cuts = ABSOLUTE_GRADE_CUTS[category];
+  if (!cuts) return null;
+
+  return {
+    evaluation: 'absolute',
+    kind: 'official',
+    grade_cuts: cuts.map((min_raw_score, index) => ({
+      grade: index + 1,
+      min_raw_score,
+    })),
+    score_table: [],
+  };
+}
+
+/** Grade cuts implied by a 표준점수 table: the lowest raw score of each grade */
+export function gradeCutsFromScoreTable(rows: ScoreTableRow[]): GradeCut[] {
+  const cuts = new Map<number, number>();
+  for (const row of rows) {
+    const current = cuts.get(row.grade);
+    if (current === undefined || row.raw_score < current) {
+      cuts.set(row.grade, row.raw_score);
+    }
+  }
+  return [...cuts.entries()]
+    .map(([grade, min_raw_score]) => ({ grade, min_raw_score }))
+    .sort((a, b) => a.grade - b.grade);
+}
+
+function isGrade(value: number): boolean {
+  return Number.isInteger(value) && value >= MIN_GRADE && value <= MAX_GRADE;
+}
+
+/**
+ * Problems with a table before it is stored: grades 1–9, cuts that drop as
+ * the grade goes down, and 표준점수/백분위 that never rise as the raw score
+ * falls. Returns an empty list for a usable table.
+ */
+export function checkConversionTable(
+  table: Pick<ScoreConversion, 'grade_cuts' | 'score_table'>,
+): string[] {
+  if (table.grade_cuts.length === 0 && table.score_table.length === 0) {
+    return ['Provide grade_cuts, score_table or both'];
+  }
+
+  const isNumber = (value: unknown) =>
+    typeof value === 'number' && Number.isFinite(value);
+  const malformed = [
+    ...table.grade_cuts
+      .map((cut, index) => ({
+        entry: `grade_cuts[${index}]`,
+        values: [cut.grade, cut.min_raw_score],
+      }))
+      .filter(({ values }) => !values.every(isNumber)),
+    ...table.score_table
+      .map((row, index) => ({
+        entry: `score_table[${index}]`,
+        values: [row.raw_score, row.standard_score, row.percentile, row.grade],
+      }))
+      .filter(({ values }) => !values.every(isNumber)),
+  ];
+  if (malformed.length > 0) {
+    return malformed.map(
+      ({ entry }) => `${entry} has a missing or non-numeric value`,
+    );
+  }
+
+  const issues: string[] = [];
+
+  const cuts = [...table.grade_cuts].sort((a, b) => a.grade - b.grade);
+  cuts.forEach((cut, index) => {
+    if (!isGrade(cut.grade)) {
+      issues.push(`Grade ${cut.grade} must be an integer from 1 to 9`);
+    }
+    if (index > 0 && cut.grade === cuts[index - 1].grade) {
+      issues.push(`Grade ${cut.grade} has more than one cut`);
+    } else if (
+      index > 0 &&
+      cut.min_raw_score >= cuts[index - 1].min_raw_score
+    ) {
+      issues.push(
+        `Cut for grade ${cut.grade} (${cut.min_raw_score}) must be below the cut for grade ${cuts[index - 1].grade} (${cuts[index - 1].min_raw_score})`,
+      );
+    }
+  });
+
+  const rows = [...table.score_table].sort((a, b) => b.raw_score - a.raw_score);
+  rows.forEach((row, index) => {
+    if (!isGrade(row.grade)) {
+      issues.push(
+        `Raw score ${row.raw_score}: grade ${row.grade} must be an integer from 1 to 9`,
+      );
+    }
+    if (row.percentile < 0 || row.percentile > 100) {
+      issues.push(
+        `Raw score ${row.raw_score}: percentile ${row.percentile} must be from 0 to 100`,
+      );
+    }
+
+    const previous = rows[index - 1];
+    if (!previous) return;
+    if (row.raw_score === previous.raw_score) {
+      issues.push(`Raw score ${row.raw_score} appears more than once`);
+    } else if (
+      row.standard_score > previous.standard_score ||
+      row.percentile > previous.percentile ||
+      row.grade < previous.grade
+    ) {
+      issues.push(
+        `Raw score ${row.raw_score} converts higher than raw score ${previous.raw_score}`,
+      );
+    }
+  });
+
+  return issues;
+}
+
+function gradeFromCuts(cuts: GradeCut[], rawScore: number): number | null {
+  if (cuts.length === 0) return null;
+
+  const sorted = [...cuts].sort((a, b) => a.grade - b.grade);
+  const cut = sorted.find((cut) => rawScore >= cut.min_raw_score);
+  if (cut) return cut.grade;
+  return Math.min(sorted[sorted.length - 1].grade + 1, MAX_GRADE);
+}
+
+/** Linear interpolation between the table rows around `rawScore` */
+function interpolate(
+  rows: ScoreTableRow[],
+  rawScore: number,
+): Pick<ScoreTableRow, 'standard_score' | 'percentile'> | null {
+  if (rows.length === 0) return null;
+
+  const sorted = [...rows].sort((a, b) => a.raw_score - b.raw_score);
+  const above = sorted.find((row) => row.raw_score >= rawScore);
+  const below = [...sorted].reverse().find((row) => row.raw_score <= rawScore);
+  if (!above || !below) {
+    // Outside the table: the nearest end is the best guess
+    const nearest = above ?? below;
+    return nearest
+      ? {
+          standard_score: nearest.standard_score,
+          percentile: nearest.percentile,
+        }
+      : null;
+  }
+
+  const ratio =
+    above.raw_score === below.raw_score
+      ? 0
+      : (rawScore - below.raw_score) / (above.raw_score - below.raw_score);
+  return {
+    standard_score: Math.round(
+      below.standard_score +
+        ratio * (above.standard_score - below.standard_score),
+    ),
+    percentile: Math.round(
+      below.percentile + ratio * (above.percentile - below.percentile),
+    ),
+  };
+}
+
+/**
+ * 등급, 표준점수 and 백분위 for a raw score. An exact row of the 표준점수
+ * table is used as is; otherwise the grade comes from the cuts and the other
+ * two are interpolated, which makes the estimate `estimated`.
+ */
+export function estimateScore(
+  conversion: ScoreConversion,
+  rawScore: number,
+): ScoreEstimate {
+  if (conversion.evaluation === 'absolute') {
+    return {
+      evaluation: 'absolute',
+      kind: conversion.kind,
+      grade: gradeFromCuts(conversion.grade_cuts, rawScore),
+      standard_score: null,
+      percentile: null,
+    };
+  }
+
+  const row = conversion.score_table.find((row) => row.raw_score === rawScore);
+  if (row) {
+    return {
+      evaluation: 'relative',
+      kind: conversion.kind,
+      grade: row.grade,
+      standard_score: row.standard_score,
+      percentile: row.percentile,
+    };
+  }
+
+  const cuts =
+    conversion.grade_cuts.length > 0
+      ? conversion.grade_cuts
+      : gradeCutsFromScoreTable(conversion.score_table);
+  const interpolated = interpolate(conversion.score_table, rawScore);
+  return {
+    evaluation: 'relative',
+    kind: interpolated ? 'estimated' : conversion.kind,
+    grade: gradeFromCuts(cuts, rawScore),
+    standard_score: interpolated?.standard_score ?? null,
+    percentile: interpolated?.percentile ?? null,
+  };
+}
@@ -0,0 +1,43 @@
+import { ValidationError } from '../common/errors';
+import { parseScoreTableCsv, parseScoreTableJson } from './score-table-import';
+
+describe('parseScoreTableCsv', () => {
+  it('reads a 표준점수 table with Korean headers', () => {
+    const input = parseScoreTableCsv(
+      '원점수,표준점수,백분위,등급\n100,140,100,1\n92,133,98,1\n',
+      'official',
+    );
+
+    expect(input).toEqual({
+      kind: 'official',
+      grade_cuts: [],
+      score_table: [
+        { raw_score: 100, standard_score: 140, percentile: 100, grade: 1 },
+        { raw_score: 92, standard_score: 133, percentile: 98, grade: 1 },
+      ],
+    });
+  });
+
+  it('reads grade cuts alone', () => {
+    expect(
+      parseScoreTableCsv('grade,raw_score\r\n1,88\r\n2,80').grade_cuts,
+    ).toEqual([
+      { grade: 1, min_raw_score: 88 },
+      { grade: 2, min_raw_score: 80 },
+    ]);
+  });
+
+  it('reports the lines it cannot read', () => {
+    expect(() => parseScoreTableCsv('grade,raw_score\n1,\n2,80')).toThrow(
+      ValidationError,
+    );
+  });
+});
+
+describe('parseScoreTableJson', () => {
+  it('rejects unknown kinds', () => {
+    expect(() => parseScoreTableJson('{"kind":"guess"}')).toThrow(
+      ValidationError,
+    );
+  });
+});
@@ -0,0 +1,144 @@
+import { ValidationError } from '../common/errors';
+import {
+  CONVERSION_KINDS,
+  ConversionKind,
+  GradeCut,
+  ScoreTableRow,
+} from './score-conversion';
+
+/** A conversion table as read from a file, before it is stored */
+export interface ScoreConversionInput {
+  kind: ConversionKind;
+  grade_cuts: GradeCut[];
+  score_table: ScoreTableRow[];
+  source?: string;
+}
+
+/** CSV headers accepted for each column, in English or as printed in 도표 */
+const COLUMN_ALIASES: Record<keyof ScoreTableRow, string[]> = {
+  raw_score: ['raw_score', '원점수'],
+  standard_score: ['standard_score', '표준점수'],
+  percentile: ['percentile', '백분위'],
+  grade: ['grade', '등급'],
+};
+
+function splitCsvLine(line: string): string[] {
+  return line.split(',').map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+}
+
+/**
+ * Read a CSV with a header row. `grade,raw_score` gives grade cuts (the
+ * lowest raw score of each grade); adding `standard_score` and `percentile`
+ * makes it a full 표준점수 table, whose cuts are derived when it is stored.
+ */
+export function parseScoreTableCsv(
+  text: string,
+  kind: ConversionKind = 'estimated',
+): ScoreConversionInput {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter((line) => line.trim().length > 0);
+  if (lines.length < 2) {
+    throw new ValidationError(
+      'The CSV needs a header row and at least one row',
+    );
+  }
+
+  const header = splitCsvLine(lines[0]).map((cell) => cell.toLowerCase());
+  const columns = Object.fromEntries(
+    Object.entries(COLUMN_ALIASES).map(([field, aliases]) => [
+      field,
+      header.findIndex((cell) => aliases.includes(cell)),
+    ]),
+  ) as Record<keyof ScoreTableRow, number>;
+
+  if (columns.raw_score < 0 || columns.grade < 0) {
+    throw new ValidationError(
+      'The CSV header needs raw_score and grade columns',
+      { header },
+    );
+  }
+  const isScoreTable = columns.standard_score >= 0 && columns.percentile >= 0;
+
+  const problems: string[] = [];
+  const rows = lines.slice(1).map((line, index) => {
+    const cells = splitCsvLine(line);
+    const row = {} as ScoreTableRow;
+    for (const [field, column] of Object.entries(columns)) {
+      if (column < 0) continue;
+      const value = Number(cells[column]);
+      if (
+        cells[column] === undefined ||
+        cells[column] === '' ||
+        !Number.isFinite(value)
+      ) {
+        problems.push(`Line ${index + 2}: ${field} is not a number`);
+      }
+      row[field as keyof ScoreTableRow] = value;
+    }
+    return row;
+  });
+
+  if (problems.length > 0) {
+    throw new ValidationError('Invalid score table CSV', { issues: problems });
+  }
+
+  if (isScoreTable) {
+    return { kind, grade_cuts: [], score_table: rows };
+  }
+  return {
+    kind,
+    grade_cuts: rows.map(({ grade, raw_score }) => ({
+      grade,
+      min_raw_score: raw_score,
+    })),
+    score_table: [],
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read `{ kind?, source?, grade_cuts?, score_table? }`, the same shape the
+ * PUT /exam-sets/:id/score-conversion route takes.
+ */
+export function parseScoreTableJson(text: string): ScoreConversionInput {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new ValidationError(`Invalid JSON: ${(error as Error).message}`);
+  }
+
+  if (!isRecord(value)) {
+    throw new ValidationError('The JSON must be an object');
+  }
+  const {
+    kind = 'estimated',
+    source,
+    grade_cuts = [],
+    score_table = [],
+  } = value;
+  if (
+    !CONVERSION_KINDS.includes(kind as ConversionKind) ||
+    (source !== undefined && typeof source !== 'string') ||
+    !Array.isArray(grade_cuts) ||
+    !Array.isArray(score_table) ||
+    !(grade_cuts as unknown[]).every(isRecord) ||
+    !(score_table as unknown[]).every(isRecord)
+  ) {
+    throw new ValidationError(
+      'The JSON must have kind (official or estimated), grade_cuts and score_table arrays and an optional source',
+    );
+  }
+
+  return {
+    kind: kind as ConversionKind,
+    source,
+    grade_cuts: grade_cuts as GradeCut[],
+    score_table: score_table as ScoreTableRow[],
+  };
+}
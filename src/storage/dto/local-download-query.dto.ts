@@ -0,0 +1,21 @@
+import { IsNumberString, IsOptional, IsString } from 'class-validator';
+import type { LocalSignedQuery } from '../local-storage.service';
+
+export class LocalDownloadQueryDto implements LocalSignedQuery {
+  @IsString()
+  key: string;
+
+  @IsNumberString()
+  expires: string;
+
+  @IsOptional()
+  @IsString()
+  filename?: string;
+
+  @IsOptional()
+  @IsString()
+  type?: string;
+
+  @IsString()
+  signature: string;
+}
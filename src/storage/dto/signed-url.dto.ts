@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiSuccessDto } from '../../common/dto/api-response.dto';
+import type { SignedUrl } from '../storage.service';
+
+export class SignedUrlDto implements SignedUrl {
+  @ApiProperty({ format: 'uri' })
+  url: string;
+
+  @ApiProperty({ format: 'date-time' })
+  expires_at: string;
+}
+
+export class SignedUrlResponseDto extends ApiSuccessDto {
+  @ApiProperty()
+  data: SignedUrlDto;
+}
@@ -0,0 +1,47 @@
+import { Controller, Get, Query, Res } from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import type { Response } from 'express';
+import { LocalDownloadQueryDto } from './dto/local-download-query.dto';
+import { LocalStorageService } from './local-storage.service';
+import { StorageService } from './storage.service';
+import { ForbiddenError, NotFoundError } from '../common/errors';
+
+/**
+ * Serves the download links issued by LocalStorageService. Responds 404
+ * when the app runs against S3, 403 for tampered or expired links. Left out
+ * of the OpenAPI document since clients only follow links the API returns.
+ */
+@ApiExcludeController()
+@Controller('storage')
+export class LocalStorageController {
+  constructor(private readonly storageService: StorageService) {}
+
+  @Get('local')
+  async download(
+    @Query() query: LocalDownloadQueryDto,
+    @Res() res: Response,
+  ): Promise<void> {
+    const storage = this.storageService;
+    if (!(storage instanceof LocalStorageService)) {
+      throw new NotFoundError('Local storage is not enabled');
+    }
+
+    if (!storage.verifySignedQuery(query)) {
+      throw new ForbiddenError('Download link is invalid or has expired');
+    }
+
+    const key = query.key;
+    if (!(await storage.objectExists(key))) {
+      throw new NotFoundError(`Object ${key} not found`);
+    }
+
+    if (query.type) res.type(query.type);
+    if (query.filename) {
+      res.setHeader(
+        'Content-Disposition',
+        `inline; filename*=UTF-8''${encodeURIComponent(query.filename)}`,
+      );
+    }
+    res.sendFile(storage.resolvePath(key));
+  }
+}
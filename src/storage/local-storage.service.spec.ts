@@ -0,0 +1,58 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { LocalSignedQuery, LocalStorageService } from './local-storage.service';
+
+describe('LocalStorageService', () => {
+  let rootDir: string;
+  let storage: LocalStorageService;
+
+  beforeEach(() => {
+    rootDir = mkdtempSync(path.join(tmpdir(), 'dasy-storage-'));
+    storage = new LocalStorageService({
+      rootDir,
+      baseUrl: 'http://localhost:3000',
+      signingSecret: 'test-secret',
+    });
+  });
+
+  afterEach(() => {
+    rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('stores, lists and deletes objects under the root directory', async () => {
+    await storage.putObject('documents/a.pdf', Buffer.from('%PDF-a'));
+    await storage.putObject('thumbnails/a.png', Buffer.from('png'));
+
+    expect(await storage.objectExists('documents/a.pdf')).toBe(true);
+    expect((await storage.getObject('documents/a.pdf')).toString()).toBe(
+      '%PDF-a',
+    );
+    expect(await storage.listKeys('documents/')).toEqual(['documents/a.pdf']);
+
+    await storage.deleteObject('documents/a.pdf');
+    expect(await storage.objectExists('documents/a.pdf')).toBe(false);
+  });
+
+  it('rejects keys outside the root directory', () => {
+    expect(() => storage.resolvePath('../etc/passwd')).toThrow(
+      'Invalid storage key',
+    );
+  });
+
+  it('issues download links that only verify unmodified', async () => {
+    const signed = await storage.getSignedDownloadUrl('documents/a.pdf', {
+      filename: '국어.pdf',
+      expiresIn: 60,
+    });
+    const url = new URL(signed.url);
+    expect(url.pathname).toBe('/storage/local');
+
+    const query = Object.fromEntries(url.searchParams) as LocalSignedQuery;
+    expect(storage.verifySignedQuery(query)).toBe(true);
+    expect(
+      storage.verifySignedQuery({ ...query, key: 'documents/b.pdf' }),
+    ).toBe(false);
+    expect(storage.verifySignedQuery({ ...query, expires: '1' })).toBe(false);
+  });
+});
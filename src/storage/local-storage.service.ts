@@ -0,0 +1,168 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { Dirent, promises as fs } from 'fs';
+import * as path from 'path';
+import { NotFoundError, ValidationError } from '../common/errors';
+import { SignedUrl, SignedUrlOptions, StorageService } from './storage.service';
+
+export interface LocalStorageConfig {
+  /** Directory that plays the role of the bucket */
+  rootDir: string;
+  /** Origin the API is reachable at, used to build download links */
+  baseUrl: string;
+  /** HMAC secret for download links */
+  signingSecret: string;
+}
+
+/** Query parameters of a local download link */
+export interface LocalSignedQuery {
+  key?: string;
+  expires?: string;
+  filename?: string;
+  type?: string;
+  signature?: string;
+}
+
+export function getLocalStorageConfig(): LocalStorageConfig {
+  return {
+    rootDir: path.resolve(process.env.STORAGE_LOCAL_DIR || 'storage'),
+    baseUrl:
+      process.env.STORAGE_LOCAL_BASE_URL ||
+      `http://localhost:${process.env.PORT || 3000}`,
+    // Links signed with a random secret stop working on restart, which is
+    // acceptable for short-lived links in development
+    signingSecret:
+      process.env.STORAGE_LOCAL_SIGNING_SECRET ||
+      randomBytes(32).toString('hex'),
+  };
+}
+
+/**
+ * Stores objects as files under a local directory, so the app and scripts
+ * can run without AWS. Download links point at LocalStorageController and
+ * carry an HMAC signature and expiry like S3 pre-signed URLs.
+ */
+export class LocalStorageService extends StorageService {
+  readonly driver = 'local';
+
+  constructor(
+    private readonly config: LocalStorageConfig = getLocalStorageConfig(),
+  ) {
+    super();
+  }
+
+  /** Absolute path of a key, refusing keys that escape the root directory */
+  resolvePath(key: string): string {
+    const filePath = path.resolve(this.config.rootDir, key);
+    if (!filePath.startsWith(this.config.rootDir + path.sep)) {
+      throw new ValidationError(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  /** Content type and metadata options only apply to S3 */
+  async putObject(key: string, body: Buffer): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, body);
+  }
+
+  async getObject(key: string): Promise<Buffer> {
+    try {
+      return await fs.readFile(this.resolvePath(key));
+    } catch (error: unknown) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new NotFoundError(`Failed to read ${key}: ${reason}`);
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true });
+  }
+
+  async objectExists(key: string): Promise<boolean> {
+    try {
+      const stats = await fs.stat(this.resolvePath(key));
+      return stats.isFile();
+    } catch {
+      return false;
+    }
+  }
+
+  async listKeys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    const walk = async (dir: string): Promise<void> => {
+      let entries: Dirent[];
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else {
+          const key = path
+            .relative(this.config.rootDir, entryPath)
+            .split(path.sep)
+            .join('/');
+          if (key.startsWith(prefix)) keys.push(key);
+        }
+      }
+    };
+
+    await walk(this.config.rootDir);
+    return keys;
+  }
+
+  private sign(query: LocalSignedQuery): string {
+    return createHmac('sha256', this.config.signingSecret)
+      .update(
+        [query.key, query.expires, query.filename ?? '', query.type ?? ''].join(
+          '\n',
+        ),
+      )
+      .digest('base64url');
+  }
+
+  async getSignedDownloadUrl(
+    key: string,
+    options: SignedUrlOptions = {},
+  ): Promise<SignedUrl> {
+    this.resolvePath(key);
+    const expiresIn = this.resolveExpiry(options.expiresIn);
+    const query: LocalSignedQuery = {
+      key,
+      expires: String(Math.floor(Date.now() / 1000) + expiresIn),
+      filename: options.filename,
+      type: options.contentType,
+    };
+
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(query) as [string, string][]) {
+      if (value) params.set(name, value);
+    }
+    params.set('signature', this.sign(query));
+
+    return Promise.resolve({
+      url: `${this.config.baseUrl}/storage/local?${params.toString()}`,
+      expires_at: this.expiresAt(expiresIn),
+    });
+  }
+
+  /** True when the link is unexpired and was signed by this service */
+  verifySignedQuery(query: LocalSignedQuery): boolean {
+    if (!query.key || !query.expires || !query.signature) return false;
+    if (Number(query.expires) * 1000 < Date.now()) return false;
+
+    const expected = Buffer.from(this.sign(query));
+    const actual = Buffer.from(query.signature);
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  describe(key = ''): string {
+    return path.join(this.config.rootDir, key);
+  }
+}
@@ -0,0 +1,45 @@
+import { S3Client } from '@aws-sdk/client-s3';
+
+export interface S3Config {
+  bucket: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Custom endpoint for S3-compatible stand-ins such as MinIO or LocalStack */
+  endpoint?: string;
+  forcePathStyle: boolean;
+}
+
+export function getS3Config(): S3Config {
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+  const bucket = process.env.S3_BUCKET_NAME;
+
+  if (!accessKeyId || !secretAccessKey || !bucket) {
+    throw new Error(
+      'Missing AWS configuration. Please set AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY and S3_BUCKET_NAME environment variables.',
+    );
+  }
+
+  return {
+    bucket,
+    region: process.env.AWS_REGION || 'us-east-1',
+    accessKeyId,
+    secretAccessKey,
+    endpoint: process.env.S3_ENDPOINT || undefined,
+    forcePathStyle:
+      process.env.S3_FORCE_PATH_STYLE === 'true' || !!process.env.S3_ENDPOINT,
+  };
+}
+
+export function createS3Client(config: S3Config = getS3Config()): S3Client {
+  return new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials: {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    },
+  });
+}
@@ -0,0 +1,50 @@
+import { UpstreamUnavailableError } from '../common/errors';
+import { S3StorageService } from './s3-storage.service';
+
+describe('S3StorageService', () => {
+  const originalEnv = process.env;
+  let service: S3StorageService;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      AWS_ACCESS_KEY_ID: 'minioadmin',
+      AWS_SECRET_ACCESS_KEY: 'minioadmin',
+      AWS_REGION: 'us-east-1',
+      S3_BUCKET_NAME: 'dasy-test',
+      S3_ENDPOINT: 'http://localhost:9000',
+      STORAGE_SIGNED_URL_EXPIRES_SECONDS: '120',
+    };
+    service = new S3StorageService();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('signs path-style URLs against an S3-compatible endpoint', async () => {
+    const signed = await service.getSignedDownloadUrl('documents/abc.pdf');
+    const url = new URL(signed.url);
+
+    expect(url.origin).toBe('http://localhost:9000');
+    expect(url.pathname).toBe('/dasy-test/documents/abc.pdf');
+    expect(url.searchParams.get('X-Amz-Expires')).toBe('120');
+  });
+
+  it('caps requested expiry at one hour', () => {
+    expect(service.resolveExpiry(60)).toBe(60);
+    expect(service.resolveExpiry(86400)).toBe(3600);
+    expect(service.resolveExpiry()).toBe(120);
+  });
+
+  it('reads the AWS configuration on first use instead of on construction', async () => {
+    process.env = { ...originalEnv };
+    delete process.env.AWS_ACCESS_KEY_ID;
+    delete process.env.S3_BUCKET_NAME;
+    const unconfigured = new S3StorageService();
+
+    await expect(
+      unconfigured.putObject('documents/abc.pdf', Buffer.from('%PDF')),
+    ).rejects.toThrow(UpstreamUnavailableError);
+  });
+});
@@ -0,0 +1,169 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { NotFoundError, UpstreamUnavailableError } from '../common/errors';
+import { S3Config, createS3Client, getS3Config } from './s3-client';
+import {
+  PutObjectOptions,
+  SignedUrl,
+  SignedUrlOptions,
+  StorageService,
+} from './storage.service';
+
+function messageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Without an explicit config the AWS settings are read on first use, so the
+ * app boots without them and only storage calls fail.
+ */
+export class S3StorageService extends StorageService {
+  readonly driver = 's3';
+  private client?: S3Client;
+
+  constructor(private configuration?: S3Config) {
+    super();
+  }
+
+  private get config(): S3Config {
+    return (this.configuration ??= getS3Config());
+  }
+
+  private get s3Client(): S3Client {
+    return (this.client ??= createS3Client(this.config));
+  }
+
+  async putObject(
+    key: string,
+    body: Buffer,
+    options: PutObjectOptions = {},
+  ): Promise<void> {
+    try {
+      await this.s3Client.send(
+        new PutObjectCommand({
+          Bucket: this.config.bucket,
+          Key: key,
+          Body: body,
+          ContentType: options.contentType,
+          CacheControl: options.cacheControl,
+          Metadata: options.metadata,
+        }),
+      );
+    } catch (error: unknown) {
+      throw new UpstreamUnavailableError(
+        `Failed to upload ${key}: ${messageOf(error)}`,
+      );
+    }
+  }
+
+  async getObject(key: string): Promise<Buffer> {
+    try {
+      const response = await this.s3Client.send(
+        new GetObjectCommand({ Bucket: this.config.bucket, Key: key }),
+      );
+      if (!response.Body) {
+        throw new Error('No body in S3 response');
+      }
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error: unknown) {
+      if (error instanceof S3ServiceException && error.name === 'NoSuchKey') {
+        throw new NotFoundError(`Object ${key} not found`);
+      }
+      throw new UpstreamUnavailableError(
+        `Failed to download ${key}: ${messageOf(error)}`,
+      );
+    }
+  }
+
+  async deleteObject(key: string): Promise<void> {
+    try {
+      await this.s3Client.send(
+        new DeleteObjectCommand({ Bucket: this.config.bucket, Key: key }),
+      );
+    } catch (error: unknown) {
+      throw new UpstreamUnavailableError(
+        `Failed to delete ${key}: ${messageOf(error)}`,
+      );
+    }
+  }
+
+  async objectExists(key: string): Promise<boolean> {
+    try {
+      await this.s3Client.send(
+        new HeadObjectCommand({ Bucket: this.config.bucket, Key: key }),
+      );
+      return true;
+    } catch (error: unknown) {
+      if (
+        error instanceof S3ServiceException &&
+        (error.name === 'NotFound' || error.$metadata.httpStatusCode === 404)
+      ) {
+        return false;
+      }
+      throw new UpstreamUnavailableError(
+        `Failed to check object ${key}: ${messageOf(error)}`,
+      );
+    }
+  }
+
+  async listKeys(prefix: string): Promise<string[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+
+    try {
+      do {
+        const response = await this.s3Client.send(
+          new ListObjectsV2Command({
+            Bucket: this.config.bucket,
+            Prefix: prefix,
+            ContinuationToken: continuationToken,
+          }),
+        );
+        for (const object of response.Contents ?? []) {
+          if (object.Key) keys.push(object.Key);
+        }
+        continuationToken = response.NextContinuationToken;
+      } while (continuationToken);
+    } catch (error: unknown) {
+      throw new UpstreamUnavailableError(
+        `Failed to list ${prefix}: ${messageOf(error)}`,
+      );
+    }
+
+    return keys;
+  }
+
+  async getSignedDownloadUrl(
+    key: string,
+    options: SignedUrlOptions = {},
+  ): Promise<SignedUrl> {
+    const expiresIn = this.resolveExpiry(options.expiresIn);
+
+    try {
+      const command = new GetObjectCommand({
+        Bucket: this.config.bucket,
+        Key: key,
+        ResponseContentType: options.contentType,
+        ResponseContentDisposition: this.contentDisposition(options.filename),
+      });
+      const url = await getSignedUrl(this.s3Client, command, { expiresIn });
+      return { url, expires_at: this.expiresAt(expiresIn) };
+    } catch (error: unknown) {
+      throw new UpstreamUnavailableError(
+        `Failed to sign URL for ${key}: ${messageOf(error)}`,
+      );
+    }
+  }
+
+  describe(key = ''): string {
+    return `s3://${this.config.bucket}/${key}`;
+  }
+}
@@ -0,0 +1,19 @@
+/** Storage key of an exam PDF, as recorded in documents.storage_path */
+export function documentKey(documentId: string): string {
+  return `documents/${documentId}.pdf`;
+}
+
+/** Storage key of the first-page thumbnail generated by script/generate_thumbnails.ts */
+export function thumbnailKey(documentId: string): string {
+  return `thumbnails/${documentId}.png`;
+}
+
+/** Storage key of an uploaded answer sheet, as recorded in document_submissions.storage_path */
+export function submissionKey(submissionId: string): string {
+  return `document_submissions/${submissionId}.pdf`;
+}
+
+/** Where soft-deleted documents keep their objects, e.g. `deleted/documents/{id}.pdf` */
+export function deletedKey(key: string): string {
+  return `deleted/${key}`;
+}
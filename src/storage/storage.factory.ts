@@ -0,0 +1,28 @@
+import { LocalStorageService } from './local-storage.service';
+import { S3StorageService } from './s3-storage.service';
+import { StorageDriver, StorageService } from './storage.service';
+
+const STORAGE_DRIVERS: StorageDriver[] = ['s3', 'local'];
+
+/** Backend named by STORAGE_DRIVER, defaulting to S3 */
+export function getStorageDriver(): StorageDriver {
+  const driver = (process.env.STORAGE_DRIVER || 's3').toLowerCase();
+  if (!STORAGE_DRIVERS.includes(driver as StorageDriver)) {
+    throw new Error(
+      `Invalid STORAGE_DRIVER "${driver}". Expected one of: ${STORAGE_DRIVERS.join(', ')}`,
+    );
+  }
+  return driver as StorageDriver;
+}
+
+/**
+ * Build the configured storage backend. Used by StorageModule and by the
+ * scripts under script/, so both read and write the same objects.
+ */
+export function createStorage(
+  driver: StorageDriver = getStorageDriver(),
+): StorageService {
+  return driver === 'local'
+    ? new LocalStorageService()
+    : new S3StorageService();
+}
@@ -0,0 +1,17 @@
+import { Global, Module } from '@nestjs/common';
+import { LocalStorageController } from './local-storage.controller';
+import { createStorage } from './storage.factory';
+import { StorageService } from './storage.service';
+
+@Global()
+@Module({
+  controllers: [LocalStorageController],
+  providers: [
+    {
+      provide: StorageService,
+      useFactory: () => createStorage(),
+    },
+  ],
+  exports: [StorageService],
+})
+export class StorageModule {}
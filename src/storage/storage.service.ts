@@ -0,0 +1,78 @@
+export type StorageDriver = 's3' | 'local';
+
+export interface SignedUrl {
+  url: string;
+  expires_at: string;
+}
+
+export interface SignedUrlOptions {
+  expiresIn?: number;
+  /** Filename offered to the browser via Content-Disposition */
+  filename?: string;
+  contentType?: string;
+}
+
+export interface PutObjectOptions {
+  contentType?: string;
+  cacheControl?: string;
+  metadata?: Record<string, string>;
+}
+
+const DEFAULT_EXPIRES_SECONDS = 300;
+export const MAX_SIGNED_URL_EXPIRES_SECONDS = 3600;
+
+/**
+ * Object storage for exam PDFs, thumbnails and submissions. The app and the
+ * scripts only talk to this class; the S3 or local-directory implementation
+ * is picked by STORAGE_DRIVER (see storage.factory.ts).
+ */
+export abstract class StorageService {
+  abstract readonly driver: StorageDriver;
+
+  abstract putObject(
+    key: string,
+    body: Buffer,
+    options?: PutObjectOptions,
+  ): Promise<void>;
+
+  abstract getObject(key: string): Promise<Buffer>;
+
+  abstract deleteObject(key: string): Promise<void>;
+
+  abstract objectExists(key: string): Promise<boolean>;
+
+  /** Every key under `prefix`, in no particular order */
+  abstract listKeys(prefix: string): Promise<string[]>;
+
+  abstract getSignedDownloadUrl(
+    key: string,
+    options?: SignedUrlOptions,
+  ): Promise<SignedUrl>;
+
+  /** Human-readable location of a key, for script logs */
+  abstract describe(key?: string): string;
+
+  /**
+   * Expiry for signed URLs: the requested value if given, otherwise
+   * STORAGE_SIGNED_URL_EXPIRES_SECONDS, capped at one hour
+   */
+  resolveExpiry(requested?: number): number {
+    const configured = Number(process.env.STORAGE_SIGNED_URL_EXPIRES_SECONDS);
+    const fallback =
+      Number.isInteger(configured) && configured > 0
+        ? configured
+        : DEFAULT_EXPIRES_SECONDS;
+    const seconds = requested && requested > 0 ? requested : fallback;
+    return Math.min(seconds, MAX_SIGNED_URL_EXPIRES_SECONDS);
+  }
+
+  protected expiresAt(expiresIn: number): string {
+    return new Date(Date.now() + expiresIn * 1000).toISOString();
+  }
+
+  protected contentDisposition(filename?: string): string | undefined {
+    return filename
+      ? `inline; filename*=UTF-8''${encodeURIComponent(filename)}`
+      : undefined;
+  }
+}
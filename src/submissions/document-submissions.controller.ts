@@ -0,0 +1,54 @@
+import {
+  Body,
+  Controller,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiCreatedResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SubmissionsService } from './submissions.service';
+import { CreateSubmissionDto } from './dto/create-submission.dto';
+import { GradedSubmissionResponseDto } from './dto/submission-response.dto';
+import { DocumentIdParamDto } from '../documents/dto/document-query.dto';
+import { ApiErrorResponses } from '../common/api-error-responses';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import type { AuthUser } from '../auth/supabase-jwt';
+
+@ApiTags('submissions')
+@ApiBearerAuth()
+@ApiErrorResponses(
+  HttpStatus.BAD_REQUEST,
+  HttpStatus.UNAUTHORIZED,
+  HttpStatus.SERVICE_UNAVAILABLE,
+)
+@UseGuards(JwtAuthGuard)
+@Controller('documents/:id/submissions')
+export class DocumentSubmissionsController {
+  constructor(private readonly submissionsService: SubmissionsService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Submit answers to a document for grading' })
+  @ApiCreatedResponse({ type: GradedSubmissionResponseDto })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND)
+  async createSubmission(
+    @Param() { id }: DocumentIdParamDto,
+    @Body() body: CreateSubmissionDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<GradedSubmissionResponseDto> {
+    const submission = await this.submissionsService.createSubmission(id, {
+      ...body,
+      user_id: user.id,
+    });
+    return {
+      success: true,
+      data: submission,
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsObject, IsOptional, Max, Min } from 'class-validator';
+import type { CreateSubmissionInput } from '../submissions.service';
+import type { UserAnswers } from '../grading.service';
+
+/** A day; anything longer is a client clock or timer bug */
+const MAX_DURATION_SECONDS = 24 * 60 * 60;
+
+/** The submitting user is taken from the access token, not the body */
+export class CreateSubmissionDto
+  implements Omit<CreateSubmissionInput, 'user_id'>
+{
+  @ApiProperty({
+    type: 'object',
+    additionalProperties: {
+      oneOf: [{ type: 'string' }, { type: 'number' }],
+      nullable: true,
+    },
+    description:
+      'Answers keyed by question number. Circled and full-width digits are accepted; null or an empty string leaves a question unanswered.',
+    example: { '1': '③', '2': 5, '3': '128', '4': null },
+  })
+  @IsObject()
+  user_answers: UserAnswers;
+
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 0,
+    maximum: MAX_DURATION_SECONDS,
+    description:
+      'Seconds spent on the paper, used for average times in analytics',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_DURATION_SECONDS)
+  duration_seconds?: number;
+}
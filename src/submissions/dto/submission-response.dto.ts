@@ -0,0 +1,171 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiSuccessDto } from '../../common/dto/api-response.dto';
+import { ScoreEstimateDto } from '../../score-conversion/dto/score-conversion.dto';
+import type {
+  QuestionResult,
+  QuestionStatus,
+  UserAnswers,
+} from '../grading.service';
+import type {
+  DocumentAttemptSummary,
+  GradedSubmission,
+  Submission,
+  UserSubmissionSummary,
+} from '../submissions.service';
+
+const QUESTION_STATUSES: QuestionStatus[] = [
+  'correct',
+  'incorrect',
+  'unanswered',
+];
+
+export class QuestionResultDto implements QuestionResult {
+  @ApiProperty({ type: 'integer' })
+  question: number;
+
+  @ApiProperty({ enum: QUESTION_STATUSES })
+  status: QuestionStatus;
+
+  @ApiProperty({ type: String, nullable: true, example: '3' })
+  user_answer: string | null;
+
+  @ApiProperty({ type: [String], example: ['3'] })
+  correct_answers: string[];
+
+  @ApiProperty()
+  points: number;
+
+  @ApiProperty()
+  earned: number;
+}
+
+export class SubmissionDto implements Submission {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @ApiProperty({ format: 'uuid' })
+  user_id: string;
+
+  @ApiProperty({ format: 'uuid' })
+  document_id: string;
+
+  @ApiProperty({ type: String, nullable: true })
+  storage_path: string | null;
+
+  @ApiProperty({ type: 'object', additionalProperties: true })
+  user_answers: UserAnswers;
+
+  @ApiProperty({ type: Number, nullable: true })
+  score: number | null;
+
+  @ApiProperty({ type: 'integer', isArray: true })
+  incorrect_questions: number[];
+
+  @ApiProperty({ type: 'integer', isArray: true })
+  unanswered_questions: number[];
+
+  @ApiPropertyOptional({ type: 'integer', nullable: true })
+  duration_seconds?: number | null;
+
+  @ApiProperty({ format: 'date-time' })
+  created_at: string;
+}
+
+export class GradedSubmissionDto
+  extends SubmissionDto
+  implements GradedSubmission
+{
+  @ApiProperty()
+  max_score: number;
+
+  @ApiProperty({ type: 'integer' })
+  correct_count: number;
+
+  @ApiProperty({ type: [QuestionResultDto] })
+  results: QuestionResultDto[];
+
+  @ApiProperty({
+    type: ScoreEstimateDto,
+    nullable: true,
+    description:
+      'Estimated 등급, 표준점수 and 백분위; null until the exam set has a conversion table',
+  })
+  estimate: ScoreEstimateDto | null;
+}
+
+export class GradedSubmissionResponseDto extends ApiSuccessDto {
+  @ApiProperty()
+  data: GradedSubmissionDto;
+}
+
+export class SubmissionListResponseDto extends ApiSuccessDto {
+  @ApiProperty({ type: [SubmissionDto] })
+  data: SubmissionDto[];
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+
+  @ApiProperty({ type: 'integer' })
+  total: number;
+
+  @ApiProperty({ type: String, nullable: true })
+  nextCursor: string | null;
+}
+
+export class SubmissionResponseDto extends ApiSuccessDto {
+  @ApiProperty()
+  data: SubmissionDto;
+}
+
+export class DocumentAttemptSummaryDto implements DocumentAttemptSummary {
+  @ApiProperty({ format: 'uuid' })
+  document_id: string;
+
+  @ApiProperty({ type: 'integer' })
+  attempts: number;
+
+  @ApiProperty({ type: Number, nullable: true })
+  best_score: number | null;
+
+  @ApiProperty({ type: Number, nullable: true })
+  latest_score: number | null;
+
+  @ApiProperty({ format: 'date-time' })
+  first_submitted_at: string;
+
+  @ApiProperty({ format: 'date-time' })
+  last_submitted_at: string;
+}
+
+export class UserSubmissionSummaryDto
+  implements Omit<UserSubmissionSummary, 'data' | 'total' | 'nextCursor'>
+{
+  @ApiProperty({ format: 'uuid' })
+  user_id: string;
+
+  @ApiProperty({ type: 'integer' })
+  total_submissions: number;
+
+  @ApiProperty({ type: 'integer' })
+  documents_attempted: number;
+
+  @ApiProperty({
+    type: [DocumentAttemptSummaryDto],
+    description: 'One page of per-document summaries',
+  })
+  documents: DocumentAttemptSummaryDto[];
+}
+
+export class UserSubmissionSummaryResponseDto extends ApiSuccessDto {
+  @ApiProperty()
+  data: UserSubmissionSummaryDto;
+
+  @ApiProperty({ type: 'integer', description: 'Documents in this page' })
+  count: number;
+
+  @ApiProperty({ type: 'integer', description: 'Documents attempted' })
+  total: number;
+
+  @ApiProperty({ type: String, nullable: true })
+  nextCursor: string | null;
+}
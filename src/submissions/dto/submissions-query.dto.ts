@@ -0,0 +1,30 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+import { ListQueryDto } from '../../common/dto/list-query.dto';
+import type { SubmissionFilters } from '../submissions.service';
+
+/**
+ * Filters of GET /submissions, which only lists the signed-in user's
+ * submissions; `sort` accepts created_at and score
+ */
+export class SubmissionsQueryDto
+  extends ListQueryDto
+  implements Omit<SubmissionFilters, 'user_id'>
+{
+  @ApiPropertyOptional({ format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  document_id?: string;
+}
+
+export class SubmissionIdParamDto {
+  @ApiProperty({ format: 'uuid' })
+  @IsUUID()
+  id: string;
+}
+
+export class UserIdParamDto {
+  @ApiProperty({ format: 'uuid' })
+  @IsUUID()
+  id: string;
+}
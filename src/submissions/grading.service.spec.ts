@@ -0,0 +1,83 @@
+import { ValidationError } from '../common/errors';
+import { absoluteConversion } from '../score-conversion/score-conversion';
+import { AnswerKey, GradingService, normalizeAnswer } from './grading.service';
+
+describe('normalizeAnswer', () => {
+  it('folds circled, full-width and zero-padded numbers', () => {
+    expect(normalizeAnswer('③')).toBe('3');
+    expect(normalizeAnswer('１２')).toBe('12');
+    expect(normalizeAnswer(' 007 ')).toBe('7');
+    expect(normalizeAnswer(5)).toBe('5');
+  });
+
+  it('treats empty answers as unanswered', () => {
+    expect(normalizeAnswer(null)).toBeNull();
+    expect(normalizeAnswer('  ')).toBeNull();
+  });
+});
+
+describe('GradingService', () => {
+  const service = new GradingService();
+  const answerKey: AnswerKey = {
+    correct_answers: { '1': 3, '2': '5', '3': 128, '4': [1, 2] },
+    question_scores: { '1': 2, '2': 3, '3': 4, '4': 3 },
+  };
+
+  it('scores answers and lists incorrect and unanswered questions', () => {
+    const result = service.grade(answerKey, {
+      '1': '③',
+      '2': '4',
+      '4': 2,
+    });
+
+    expect(result).toMatchObject({
+      score: 5,
+      max_score: 12,
+      correct_count: 2,
+      incorrect_questions: [2],
+      unanswered_questions: [3],
+    });
+    expect(result.results[1]).toEqual({
+      question: 2,
+      status: 'incorrect',
+      user_answer: '4',
+      correct_answers: ['5'],
+      points: 3,
+      earned: 0,
+    });
+  });
+
+  it('counts one point per question without question_scores', () => {
+    const result = service.grade(
+      { correct_answers: { '1': 1, '2': 2 }, question_scores: {} },
+      { '1': 1, '2': 2 },
+    );
+
+    expect(result.score).toBe(2);
+    expect(result.max_score).toBe(2);
+  });
+
+  it('estimates the grade when the paper has a conversion', () => {
+    const result = service.grade(
+      answerKey,
+      { '1': 3, '2': 5, '3': 128, '4': 1 },
+      absoluteConversion('영어'),
+    );
+
+    expect(result.score).toBe(12);
+    expect(result.estimate).toMatchObject({ evaluation: 'absolute', grade: 9 });
+    expect(service.grade(answerKey, {}).estimate).toBeNull();
+  });
+
+  it('rejects answers to questions outside the key', () => {
+    expect(() => service.grade(answerKey, { '5': 1, abc: 2 })).toThrow(
+      ValidationError,
+    );
+  });
+
+  it('rejects documents without an answer key', () => {
+    expect(() =>
+      service.grade({ correct_answers: {}, question_scores: {} }, {}),
+    ).toThrow('The document has no answer key');
+  });
+});
@@ -0,0 +1,187 @@
+import { Injectable } from '@nestjs/common';
+import { ValidationError } from '../common/errors';
+import {
+  estimateScore,
+  ScoreConversion,
+  ScoreEstimate,
+} from '../score-conversion/score-conversion';
+
+export type AnswerValue = string | number;
+
+/**
+ * The documents.correct_answers and documents.question_scores columns, keyed
+ * by question number. A question may accept several answers, e.g. when every
+ * choice was ruled correct after an appeal.
+ */
+export interface AnswerKey {
+  correct_answers: Record<string, AnswerValue | AnswerValue[]>;
+  question_scores: Record<string, number>;
+}
+
+/** Answers as sent by the client; null or '' leaves a question unanswered */
+export type UserAnswers = Record<string, AnswerValue | null>;
+
+export type QuestionStatus = 'correct' | 'incorrect' | 'unanswered';
+
+export interface QuestionResult {
+  question: number;
+  status: QuestionStatus;
+  /** Normalized answer the user gave, null when unanswered */
+  user_answer: string | null;
+  /** Normalized accepted answers */
+  correct_answers: string[];
+  points: number;
+  earned: number;
+}
+
+export interface GradingResult {
+  score: number;
+  max_score: number;
+  correct_count: number;
+  incorrect_questions: number[];
+  unanswered_questions: number[];
+  /** One entry per question of the answer key, in question order */
+  results: QuestionResult[];
+  /** 등급, 표준점수 and 백분위, or null when the paper has no conversion yet */
+  estimate: ScoreEstimate | null;
+}
+
+/** Points per question when a document has answers but no question_scores */
+const DEFAULT_QUESTION_POINTS = 1;
+
+const QUESTION_NUMBER_PATTERN = /^[1-9]\d*$/;
+
+/**
+ * Bring an answer into a comparable form: NFKC folds full-width digits and
+ * circled choices (③ → 3), and numeric answers lose leading zeros (007 → 7)
+ */
+export function normalizeAnswer(
+  value: AnswerValue | null | undefined,
+): string | null {
+  if (value === null || value === undefined) return null;
+
+  const text = String(value).normalize('NFKC').trim().replace(/\s+/g, ' ');
+  if (text.length === 0) return null;
+  if (/^[+-]?\d+(\.\d+)?$/.test(text)) return String(Number(text));
+  return text.toLowerCase();
+}
+
+/**
+ * Scores submissions against a document's answer key. The key is read on
+ * the server, so clients only ever send raw answers.
+ */
+@Injectable()
+export class GradingService {
+  grade(
+    answerKey: AnswerKey,
+    userAnswers: UserAnswers,
+    conversion: ScoreConversion | null = null,
+  ): GradingResult {
+    const questions = this.questionNumbers(answerKey);
+    this.checkUserAnswers(userAnswers, new Set(questions));
+
+    const results = questions.map((question) =>
+      this.gradeQuestion(answerKey, question, userAnswers[String(question)]),
+    );
+    const score = results.reduce((sum, result) => sum + result.earned, 0);
+
+    return {
+      score,
+      max_score: results.reduce((sum, result) => sum + result.points, 0),
+      correct_count: results.filter((result) => result.status === 'correct')
+        .length,
+      incorrect_questions: results
+        .filter((result) => result.status === 'incorrect')
+        .map((result) => result.question),
+      unanswered_questions: results
+        .filter((result) => result.status === 'unanswered')
+        .map((result) => result.question),
+      results,
+      estimate: conversion ? estimateScore(conversion, score) : null,
+    };
+  }
+
+  /** Question numbers of the key in ascending order */
+  private questionNumbers(answerKey: AnswerKey): number[] {
+    const keys = Object.keys(answerKey.correct_answers ?? {});
+    if (keys.length === 0) {
+      throw new ValidationError('The document has no answer key');
+    }
+
+    const invalid = keys.filter((key) => !QUESTION_NUMBER_PATTERN.test(key));
+    if (invalid.length > 0) {
+      throw new Error(
+        `Answer key has invalid question numbers: ${invalid.join(', ')}`,
+      );
+    }
+
+    return keys.map(Number).sort((a, b) => a - b);
+  }
+
+  private checkUserAnswers(
+    userAnswers: UserAnswers,
+    questions: Set<number>,
+  ): void {
+    const unknown: string[] = [];
+    const malformed: string[] = [];
+
+    for (const [key, value] of Object.entries(userAnswers)) {
+      if (!QUESTION_NUMBER_PATTERN.test(key) || !questions.has(Number(key))) {
+        unknown.push(key);
+      } else if (
+        value !== null &&
+        typeof value !== 'string' &&
+        !(typeof value === 'number' && Number.isFinite(value))
+      ) {
+        malformed.push(key);
+      }
+    }
+
+    if (unknown.length > 0 || malformed.length > 0) {
+      throw new ValidationError('Invalid user_answers', {
+        unknown_questions: unknown,
+        malformed_answers: malformed,
+      });
+    }
+  }
+
+  private pointsFor(answerKey: AnswerKey, question: number): number {
+    const scores = answerKey.question_scores ?? {};
+    if (Object.keys(scores).length === 0) return DEFAULT_QUESTION_POINTS;
+
+    const points = scores[String(question)];
+    if (typeof points !== 'number' || !Number.isFinite(points) || points < 0) {
+      throw new Error(`Answer key has no score for question ${question}`);
+    }
+    return points;
+  }
+
+  private gradeQuestion(
+    answerKey: AnswerKey,
+    question: number,
+    answer: AnswerValue | null | undefined,
+  ): QuestionResult {
+    const points = this.pointsFor(answerKey, question);
+    const correctAnswers = [answerKey.correct_answers[String(question)]]
+      .flat()
+      .map(normalizeAnswer)
+      .filter((value): value is string => value !== null);
+    const userAnswer = normalizeAnswer(answer);
+
+    const status: QuestionStatus =
+      userAnswer === null
+        ? 'unanswered'
+        : correctAnswers.includes(userAnswer)
+          ? 'correct'
+          : 'incorrect';
+
+    return {
+      question,
+      status,
+      user_answer: userAnswer,
+      correct_answers: correctAnswers,
+      points,
+      earned: status === 'correct' ? points : 0,
+    };
+  }
+}
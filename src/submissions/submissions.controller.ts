@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  DEFAULT_SUBMISSION_SORT,
+  SUBMISSION_SORT_FIELDS,
+  SubmissionsService,
+} from './submissions.service';
+import {
+  SubmissionIdParamDto,
+  SubmissionsQueryDto,
+} from './dto/submissions-query.dto';
+import {
+  SubmissionListResponseDto,
+  SubmissionResponseDto,
+} from './dto/submission-response.dto';
+import { ApiErrorResponses } from '../common/api-error-responses';
+import { parseListQuery } from '../common/pagination';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import type { AuthUser } from '../auth/supabase-jwt';
+
+@ApiTags('submissions')
+@ApiBearerAuth()
+@ApiErrorResponses(
+  HttpStatus.BAD_REQUEST,
+  HttpStatus.UNAUTHORIZED,
+  HttpStatus.SERVICE_UNAVAILABLE,
+)
+@UseGuards(JwtAuthGuard)
+@Controller('submissions')
+export class SubmissionsController {
+  constructor(private readonly submissionsService: SubmissionsService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List the signed-in user's submissions" })
+  @ApiOkResponse({ type: SubmissionListResponseDto })
+  async getSubmissions(
+    @Query() query: SubmissionsQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<SubmissionListResponseDto> {
+    const page = await this.submissionsService.listSubmissions(
+      { user_id: user.id, document_id: query.document_id },
+      parseListQuery(query, SUBMISSION_SORT_FIELDS, DEFAULT_SUBMISSION_SORT),
+    );
+    return {
+      success: true,
+      data: page.data,
+      count: page.data.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a submission' })
+  @ApiOkResponse({ type: SubmissionResponseDto })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND)
+  async getSubmissionById(
+    @Param() { id }: SubmissionIdParamDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<SubmissionResponseDto> {
+    const submission = await this.submissionsService.getSubmissionById(
+      id,
+      user.id,
+    );
+    return {
+      success: true,
+      data: submission,
+    };
+  }
+}
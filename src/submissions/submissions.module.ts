@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { DocumentSubmissionsController } from './document-submissions.controller';
+import { SubmissionsController } from './submissions.controller';
+import { UserSubmissionsController } from './user-submissions.controller';
+import { SubmissionsService } from './submissions.service';
+import { GradingService } from './grading.service';
+import { ScoreConversionModule } from '../score-conversion/score-conversion.module';
+
+@Module({
+  imports: [ScoreConversionModule],
+  controllers: [
+    DocumentSubmissionsController,
+    SubmissionsController,
+    UserSubmissionsController,
+  ],
+  providers: [SubmissionsService, GradingService],
+  exports: [SubmissionsService, GradingService],
+})
+export class SubmissionsModule {}
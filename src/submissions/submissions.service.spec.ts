@@ -0,0 +1,98 @@
+import { GradingService } from './grading.service';
+import { SubmissionsService } from './submissions.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { ScoreConversionService } from '../score-conversion/score-conversion.service';
+
+/**
+ * Supabase query builder stub resolving each chain to the next of
+ * `results`, repeating the last one
+ */
+function stubSupabase(...results: { data: unknown; error: null }[]) {
+  const builder: Record<string, unknown> = {};
+  for (const method of ['from', 'select', 'eq', 'order', 'range']) {
+    builder[method] = () => builder;
+  }
+  let call = 0;
+  builder.overrideTypes = () =>
+    Promise.resolve(results[Math.min(call++, results.length - 1)]);
+  return {
+    getClient: () => builder,
+    getAdminClient: () => builder,
+  } as unknown as SupabaseService;
+}
+
+describe('SubmissionsService.getUserSummary', () => {
+  const rows = [
+    { document_id: 'a', score: 40, created_at: '2024-11-01T00:00:00Z' },
+    { document_id: 'b', score: 90, created_at: '2024-11-02T00:00:00Z' },
+    { document_id: 'a', score: 70, created_at: '2024-11-03T00:00:00Z' },
+    { document_id: 'a', score: 60, created_at: '2024-11-04T00:00:00Z' },
+  ];
+  const service = new SubmissionsService(
+    stubSupabase({ data: rows, error: null }),
+    new GradingService(),
+    {} as ScoreConversionService,
+  );
+
+  it('groups attempts by document, most recent first', async () => {
+    const summary = await service.getUserSummary('user', {
+      limit: 50,
+      offset: 0,
+      sort: 'last_submitted_at',
+      order: 'desc',
+    });
+
+    expect(summary).toMatchObject({
+      total_submissions: 4,
+      documents_attempted: 2,
+      total: 2,
+      nextCursor: null,
+    });
+    expect(summary.data[0]).toEqual({
+      document_id: 'a',
+      attempts: 3,
+      best_score: 70,
+      latest_score: 60,
+      first_submitted_at: '2024-11-01T00:00:00Z',
+      last_submitted_at: '2024-11-04T00:00:00Z',
+    });
+  });
+
+  it('sorts by best score and pages the groups', async () => {
+    const summary = await service.getUserSummary('user', {
+      limit: 1,
+      offset: 0,
+      sort: 'best_score',
+      order: 'desc',
+    });
+
+    expect(summary.data.map((entry) => entry.document_id)).toEqual(['b']);
+    expect(summary.nextCursor).not.toBeNull();
+  });
+
+  it('reads every page of a user with more submissions than a batch', async () => {
+    const batch = Array.from({ length: 1000 }, (_, index) => ({
+      document_id: `doc-${index % 10}`,
+      score: 50,
+      created_at: '2024-11-01T00:00:00Z',
+    }));
+    const paged = new SubmissionsService(
+      stubSupabase(
+        { data: batch, error: null },
+        { data: rows.slice(0, 1), error: null },
+      ),
+      new GradingService(),
+      {} as ScoreConversionService,
+    );
+
+    const summary = await paged.getUserSummary('user', {
+      limit: 50,
+      offset: 0,
+      sort: 'last_submitted_at',
+      order: 'desc',
+    });
+
+    expect(summary.total_submissions).toBe(1001);
+    expect(summary.documents_attempted).toBe(11);
+  });
+});
@@ -0,0 +1,398 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { SupabaseService } from '../supabase/supabase.service';
+import { fromPostgrestError } from '../supabase/postgrest-error';
+import { Document } from '../documents/documents.service';
+import { ScoreConversionService } from '../score-conversion/score-conversion.service';
+import type { ScoreEstimate } from '../score-conversion/score-conversion';
+import {
+  ListOptions,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../common/pagination';
+import {
+  AnswerKey,
+  GradingService,
+  QuestionResult,
+  UserAnswers,
+} from './grading.service';
+
+/** A row of document_submissions */
+export interface Submission {
+  id: string;
+  user_id: string;
+  document_id: string;
+  /** Key of an uploaded answer sheet, if any */
+  storage_path: string | null;
+  user_answers: UserAnswers;
+  score: number | null;
+  incorrect_questions: number[];
+  unanswered_questions: number[];
+  /** Seconds spent on the paper, when the client reported it */
+  duration_seconds?: number | null;
+  created_at: string;
+}
+
+/** A submission together with the grading details that are not stored */
+export interface GradedSubmission extends Submission {
+  max_score: number;
+  correct_count: number;
+  results: QuestionResult[];
+  estimate: ScoreEstimate | null;
+}
+
+export interface CreateSubmissionInput {
+  user_id: string;
+  user_answers: UserAnswers;
+  duration_seconds?: number;
+}
+
+/**
+ * Called with every stored and graded submission, e.g. to drop cached
+ * aggregates or record 오답노트 items. Listeners are awaited in turn before
+ * the response is sent; one that throws fails the request although the
+ * submission itself is already stored.
+ */
+export type SubmissionCreatedListener = (
+  submission: GradedSubmission,
+) => void | Promise<void>;
+
+/** Rows fetched per request when reading every submission of a document */
+const SUBMISSION_BATCH_SIZE = 1000;
+
+export interface SubmissionFilters {
+  user_id?: string;
+  document_id?: string;
+}
+
+export const SUBMISSION_SORT_FIELDS = ['created_at', 'score'] as const;
+
+export type SubmissionSortField = (typeof SUBMISSION_SORT_FIELDS)[number];
+
+export const DEFAULT_SUBMISSION_SORT = {
+  sort: 'created_at' as SubmissionSortField,
+  order: 'desc' as const,
+};
+
+/** A user's attempts at one document */
+export interface DocumentAttemptSummary {
+  document_id: string;
+  attempts: number;
+  best_score: number | null;
+  latest_score: number | null;
+  first_submitted_at: string;
+  last_submitted_at: string;
+}
+
+export const ATTEMPT_SUMMARY_SORT_FIELDS = [
+  'last_submitted_at',
+  'best_score',
+  'attempts',
+] as const;
+
+export type AttemptSummarySortField =
+  (typeof ATTEMPT_SUMMARY_SORT_FIELDS)[number];
+
+export const DEFAULT_ATTEMPT_SUMMARY_SORT = {
+  sort: 'last_submitted_at' as AttemptSummarySortField,
+  order: 'desc' as const,
+};
+
+export interface UserSubmissionSummary
+  extends PaginatedResult<DocumentAttemptSummary> {
+  user_id: string;
+  total_submissions: number;
+  documents_attempted: number;
+}
+
+type SubmissionScoreRow = Pick<
+  Submission,
+  'document_id' | 'score' | 'created_at'
+>;
+
+/** Compare nullable values with nulls last in either direction */
+function compareNullable(
+  a: number | string | null,
+  b: number | string | null,
+  ascending: boolean,
+): number {
+  if (a === b) return 0;
+  if (a === null) return 1;
+  if (b === null) return -1;
+  return (a < b ? -1 : 1) * (ascending ? 1 : -1);
+}
+
+@Injectable()
+export class SubmissionsService {
+  private readonly createdListeners: SubmissionCreatedListener[] = [];
+
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly gradingService: GradingService,
+    private readonly scoreConversionService: ScoreConversionService,
+  ) {}
+
+  /** Throws NotFoundError when the document does not exist */
+  async getAnswerKey(
+    documentId: string,
+  ): Promise<{ document: Document; answerKey: AnswerKey }> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('documents')
+      .select('*')
+      .eq('id', documentId)
+      .is('deleted_at', null)
+      .single<Document & Partial<AnswerKey>>();
+
+    if (error) {
+      throw fromPostgrestError(
+        error,
+        'Failed to fetch answer key',
+        `Document ${documentId} not found`,
+      );
+    }
+
+    const { correct_answers, question_scores, ...document } = data;
+    return {
+      document,
+      answerKey: {
+        correct_answers: correct_answers ?? {},
+        question_scores: question_scores ?? {},
+      },
+    };
+  }
+
+  /**
+   * Grade raw answers against the document's answer key and store the
+   * result. Whatever score the client computed itself is never used.
+   */
+  async createSubmission(
+    documentId: string,
+    input: CreateSubmissionInput,
+  ): Promise<GradedSubmission> {
+    const { document, answerKey } = await this.getAnswerKey(documentId);
+    const grading = this.gradingService.grade(
+      answerKey,
+      input.user_answers,
+      await this.scoreConversionService.conversionForDocument(document),
+    );
+
+    const record: Submission = {
+      id: randomUUID(),
+      user_id: input.user_id,
+      document_id: documentId,
+      storage_path: null,
+      user_answers: input.user_answers,
+      score: grading.score,
+      incorrect_questions: grading.incorrect_questions,
+      unanswered_questions: grading.unanswered_questions,
+      // Only sent when given, so databases without the column keep working
+      ...(input.duration_seconds !== undefined && {
+        duration_seconds: input.duration_seconds,
+      }),
+      created_at: new Date().toISOString(),
+    };
+
+    const { data, error } = await this.supabaseService
+      .getAdminClient()
+      .from('document_submissions')
+      .insert(record)
+      .select()
+      .single<Submission>();
+
+    if (error) {
+      throw fromPostgrestError(error, 'Failed to save submission');
+    }
+
+    const submission: GradedSubmission = {
+      ...data,
+      max_score: grading.max_score,
+      correct_count: grading.correct_count,
+      results: grading.results,
+      estimate: grading.estimate,
+    };
+    for (const listener of this.createdListeners) {
+      await listener(submission);
+    }
+    return submission;
+  }
+
+  /**
+   * Submissions ordered by date or score. Ungraded submissions (null score)
+   * sort last; `id` breaks ties so pages stay stable.
+   */
+  async listSubmissions(
+    filters: SubmissionFilters,
+    options: ListOptions<SubmissionSortField>,
+  ): Promise<PaginatedResult<Submission>> {
+    let query = this.supabaseService
+      .getAdminClient()
+      .from('document_submissions')
+      .select('*', { count: 'exact' });
+
+    if (filters.user_id) {
+      query = query.eq('user_id', filters.user_id);
+    }
+    if (filters.document_id) {
+      query = query.eq('document_id', filters.document_id);
+    }
+
+    const { data, error, count } = await query
+      .order(options.sort, {
+        ascending: options.order === 'asc',
+        nullsFirst: false,
+      })
+      .order('id', { ascending: true })
+      .range(options.offset, options.offset + options.limit - 1)
+      .overrideTypes<Submission[], { merge: false }>();
+
+    if (error) {
+      throw fromPostgrestError(error, 'Failed to fetch submissions');
+    }
+
+    return toPaginatedResult(data ?? [], count ?? 0, options);
+  }
+
+  onSubmissionCreated(listener: SubmissionCreatedListener): void {
+    this.createdListeners.push(listener);
+  }
+
+  /** Every submission of a document, oldest first, read in batches */
+  async getAllForDocument(documentId: string): Promise<Submission[]> {
+    const submissions: Submission[] = [];
+    for (let offset = 0; ; offset += SUBMISSION_BATCH_SIZE) {
+      const { data, error } = await this.supabaseService
+        .getAdminClient()
+        .from('document_submissions')
+        .select('*')
+        .eq('document_id', documentId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + SUBMISSION_BATCH_SIZE - 1)
+        .overrideTypes<Submission[], { merge: false }>();
+
+      if (error) {
+        throw fromPostgrestError(error, 'Failed to fetch submissions');
+      }
+
+      submissions.push(...data);
+      if (data.length < SUBMISSION_BATCH_SIZE) {
+        return submissions;
+      }
+    }
+  }
+
+  /**
+   * Throws NotFoundError when the user has no submission with this id, so
+   * other users' submissions look the same as missing ones.
+   */
+  async getSubmissionById(id: string, userId: string): Promise<Submission> {
+    const { data, error } = await this.supabaseService
+      .getAdminClient()
+      .from('document_submissions')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single<Submission>();
+
+    if (error) {
+      throw fromPostgrestError(
+        error,
+        'Failed to fetch submission',
+        `Submission ${id} not found`,
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Attempts of one user grouped by document. The user's submissions are
+   * aggregated in memory, so the page is cut after sorting the groups.
+   */
+  async getUserSummary(
+    userId: string,
+    options: ListOptions<AttemptSummarySortField>,
+  ): Promise<UserSubmissionSummary> {
+    const rows = await this.getScoreRowsForUser(userId);
+    const summaries = this.summarizeAttempts(rows);
+    const ascending = options.order === 'asc';
+    summaries.sort(
+      (a, b) =>
+        compareNullable(a[options.sort], b[options.sort], ascending) ||
+        a.document_id.localeCompare(b.document_id),
+    );
+
+    return {
+      user_id: userId,
+      total_submissions: rows.length,
+      documents_attempted: summaries.length,
+      ...toPaginatedResult(
+        summaries.slice(options.offset, options.offset + options.limit),
+        summaries.length,
+        options,
+      ),
+    };
+  }
+
+  /** Every submission score of a user, oldest first */
+  private async getScoreRowsForUser(
+    userId: string,
+  ): Promise<SubmissionScoreRow[]> {
+    const rows: SubmissionScoreRow[] = [];
+    for (let offset = 0; ; offset += SUBMISSION_BATCH_SIZE) {
+      const { data, error } = await this.supabaseService
+        .getAdminClient()
+        .from('document_submissions')
+        .select('document_id, score, created_at')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + SUBMISSION_BATCH_SIZE - 1)
+        .overrideTypes<SubmissionScoreRow[], { merge: false }>();
+
+      if (error) {
+        throw fromPostgrestError(error, 'Failed to fetch submissions');
+      }
+
+      rows.push(...data);
+      if (data.length < SUBMISSION_BATCH_SIZE) {
+        return rows;
+      }
+    }
+  }
+
+  /** Group rows, given oldest first, into one summary per document */
+  private summarizeAttempts(
+    rows: SubmissionScoreRow[],
+  ): DocumentAttemptSummary[] {
+    const byDocument = new Map<string, DocumentAttemptSummary>();
+
+    for (const row of rows) {
+      const summary = byDocument.get(row.document_id);
+      if (!summary) {
+        byDocument.set(row.document_id, {
+          document_id: row.document_id,
+          attempts: 1,
+          best_score: row.score,
+          latest_score: row.score,
+          first_submitted_at: row.created_at,
+          last_submitted_at: row.created_at,
+        });
+        continue;
+      }
+
+      summary.attempts += 1;
+      summary.latest_score = row.score;
+      summary.last_submitted_at = row.created_at;
+      if (
+        row.score !== null &&
+        (summary.best_score === null || row.score > summary.best_score)
+      ) {
+        summary.best_score = row.score;
+      }
+    }
+
+    return [...byDocument.values()];
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  ATTEMPT_SUMMARY_SORT_FIELDS,
+  DEFAULT_ATTEMPT_SUMMARY_SORT,
+  SubmissionsService,
+} from './submissions.service';
+import { UserIdParamDto } from './dto/submissions-query.dto';
+import { UserSubmissionSummaryResponseDto } from './dto/submission-response.dto';
+import { ApiErrorResponses } from '../common/api-error-responses';
+import { ListQueryDto } from '../common/dto/list-query.dto';
+import { parseListQuery } from '../common/pagination';
+import { ForbiddenError } from '../common/errors';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import type { AuthUser } from '../auth/supabase-jwt';
+
+@ApiTags('submissions')
+@ApiBearerAuth()
+@ApiErrorResponses(
+  HttpStatus.BAD_REQUEST,
+  HttpStatus.UNAUTHORIZED,
+  HttpStatus.SERVICE_UNAVAILABLE,
+)
+@UseGuards(JwtAuthGuard)
+@Controller('users/:id/submissions')
+export class UserSubmissionsController {
+  constructor(private readonly submissionsService: SubmissionsService) {}
+
+  /**
+   * `sort` accepts last_submitted_at, best_score and attempts. Users may
+   * only read their own summary.
+   */
+  @Get('summary')
+  @ApiOperation({ summary: "A user's attempts grouped by document" })
+  @ApiOkResponse({ type: UserSubmissionSummaryResponseDto })
+  @ApiErrorResponses(HttpStatus.FORBIDDEN)
+  async getSubmissionSummary(
+    @Param() { id }: UserIdParamDto,
+    @Query() listQuery: ListQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<UserSubmissionSummaryResponseDto> {
+    if (id !== user.id) {
+      throw new ForbiddenError("Cannot read another user's submissions");
+    }
+    const summary = await this.submissionsService.getUserSummary(
+      id,
+      parseListQuery(
+        listQuery,
+        ATTEMPT_SUMMARY_SORT_FIELDS,
+        DEFAULT_ATTEMPT_SUMMARY_SORT,
+      ),
+    );
+    return {
+      success: true,
+      data: {
+        user_id: summary.user_id,
+        total_submissions: summary.total_submissions,
+        documents_attempted: summary.documents_attempted,
+        documents: summary.data,
+      },
+      count: summary.data.length,
+      total: summary.total,
+      nextCursor: summary.nextCursor,
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import {
+  NotFoundError,
+  UpstreamUnavailableError,
+  ValidationError,
+} from '../common/errors';
+import { fromPostgrestError } from './postgrest-error';
+
+function postgrestError(code: string, message: string): PostgrestError {
+  return { code, message, details: '', hint: '', name: 'PostgrestError' };
+}
+
+describe('fromPostgrestError', () => {
+  it('treats an empty .single() result as not found', () => {
+    const error = fromPostgrestError(
+      postgrestError('PGRST116', 'JSON object requested, 0 rows returned'),
+      'Failed to fetch document',
+      'Document x not found',
+    );
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toBe('Document x not found');
+  });
+
+  it('treats malformed input as a validation error', () => {
+    expect(
+      fromPostgrestError(
+        postgrestError('22P02', 'invalid input syntax for type uuid'),
+        'Failed to fetch document',
+      ),
+    ).toBeInstanceOf(ValidationError);
+  });
+
+  it('treats everything else as the upstream being unavailable', () => {
+    expect(
+      fromPostgrestError(
+        postgrestError('', 'TypeError: fetch failed'),
+        'Failed to fetch documents',
+      ),
+    ).toBeInstanceOf(UpstreamUnavailableError);
+  });
+});
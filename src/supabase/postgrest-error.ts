@@ -0,0 +1,39 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import {
+  DomainError,
+  NotFoundError,
+  UpstreamUnavailableError,
+  ValidationError,
+} from '../common/errors';
+
+/** `.single()` matched no rows */
+const NO_ROWS = 'PGRST116';
+
+/**
+ * Postgres error classes caused by bad input rather than a broken backend:
+ * 22 (data exception, e.g. 22P02 for a malformed uuid) and 23 (integrity
+ * constraint violation).
+ */
+const INPUT_ERROR_CLASSES = ['22', '23'];
+
+/**
+ * Convert a PostgREST error into the DomainError clients should see.
+ * Anything not caused by the request itself, including network failures,
+ * is reported as the upstream being unavailable.
+ */
+export function fromPostgrestError(
+  error: PostgrestError,
+  context: string,
+  notFoundMessage = context,
+): DomainError {
+  const code = error.code ?? '';
+  if (code === NO_ROWS) {
+    return new NotFoundError(notFoundMessage);
+  }
+  if (INPUT_ERROR_CLASSES.includes(code.slice(0, 2))) {
+    return new ValidationError(`${context}: ${error.message}`, {
+      postgresCode: code,
+    });
+  }
+  return new UpstreamUnavailableError(`${context}: ${error.message}`);
+}
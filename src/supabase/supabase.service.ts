@@ -4,24 +4,46 @@ import { createClient, SupabaseClient } from '@supabase/supabase-js';
 @Injectable()
 export class SupabaseService implements OnModuleInit {
   private supabase: SupabaseClient;
+  private adminSupabase: SupabaseClient | null = null;
 
   onModuleInit() {
     const supabaseUrl = process.env.SUPABASE_URL;
     const supabaseKey = process.env.SUPABASE_ANON_KEY;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
 
     if (!supabaseUrl || !supabaseKey) {
       throw new Error('Missing Supabase configuration. Please set SUPABASE_URL and SUPABASE_ANON_KEY environment variables.');
     }
 
     this.supabase = createClient(supabaseUrl, supabaseKey);
+    if (serviceRoleKey) {
+      this.adminSupabase = createClient(supabaseUrl, serviceRoleKey, {
+        auth: { persistSession: false, autoRefreshToken: false },
+      });
+    }
   }
 
+  /** Client with the anon key, for data anyone may read such as documents */
   getClient(): SupabaseClient {
     return this.supabase;
   }
 
+  /**
+   * Client with the service role key, which bypasses row level security.
+   * Used for user data and admin writes; callers must scope queries to the
+   * authenticated user themselves.
+   */
+  getAdminClient(): SupabaseClient {
+    if (!this.adminSupabase) {
+      throw new Error(
+        'Missing Supabase configuration. Please set the SUPABASE_SERVICE_ROLE_KEY environment variable.',
+      );
+    }
+    return this.adminSupabase;
+  }
+
   // Helper method to check if the client is properly initialized
   isInitialized(): boolean {
     return !!this.supabase;
   }
-} 
\ No newline at end of file
+}
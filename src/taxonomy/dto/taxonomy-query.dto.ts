@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { CURRICULA } from '../taxonomy';
+import type { Curriculum } from '../taxonomy';
+
+export class TaxonomyQueryDto {
+  @ApiPropertyOptional({
+    enum: CURRICULA,
+    description: 'Only subjects of the 2015 or 2022 개정 교육과정',
+  })
+  @IsOptional()
+  @IsIn(CURRICULA)
+  curriculum?: Curriculum;
+}
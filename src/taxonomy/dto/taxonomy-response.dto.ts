@@ -0,0 +1,63 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiSuccessDto } from '../../common/dto/api-response.dto';
+import { CATEGORIES } from '../../naming/naming-convention';
+import type { Category } from '../../naming/naming-convention';
+import { CURRICULA } from '../taxonomy';
+import type {
+  Curriculum,
+  TaxonomyCategory,
+  TaxonomySelection,
+  TaxonomySubject,
+} from '../taxonomy';
+
+export class TaxonomySelectionDto implements TaxonomySelection {
+  @ApiProperty({
+    example: '확률과 통계',
+    description: 'Value used in filenames, filters and documents',
+  })
+  name: string;
+
+  @ApiProperty({ example: '확률과 통계' })
+  display_name: string;
+
+  @ApiProperty({
+    type: 'integer',
+    example: 1,
+    description: 'Position among its siblings, starting at 1',
+  })
+  sort_order: number;
+
+  @ApiProperty({ enum: CURRICULA, isArray: true })
+  curricula: Curriculum[];
+
+  @ApiProperty({
+    type: [String],
+    example: ['확률과통계', '확통'],
+    description: 'Other spellings without spaces, e.g. abbreviations',
+  })
+  aliases: string[];
+}
+
+export class TaxonomySubjectDto
+  extends TaxonomySelectionDto
+  implements TaxonomySubject
+{
+  @ApiProperty({ type: [TaxonomySelectionDto] })
+  selections: TaxonomySelectionDto[];
+}
+
+export class TaxonomyCategoryDto
+  extends TaxonomySelectionDto
+  implements TaxonomyCategory
+{
+  @ApiProperty({ enum: CATEGORIES })
+  declare name: Category;
+
+  @ApiProperty({ type: [TaxonomySubjectDto] })
+  subjects: TaxonomySubjectDto[];
+}
+
+export class TaxonomyResponseDto extends ApiSuccessDto {
+  @ApiProperty({ type: [TaxonomyCategoryDto] })
+  data: TaxonomyCategoryDto[];
+}
@@ -0,0 +1,25 @@
+import { Controller, Get, HttpStatus, Query } from '@nestjs/common';
+import { ApiOkResponse, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { TaxonomyService } from './taxonomy.service';
+import { TaxonomyQueryDto } from './dto/taxonomy-query.dto';
+import { TaxonomyResponseDto } from './dto/taxonomy-response.dto';
+import { ApiErrorResponses } from '../common/api-error-responses';
+
+@ApiTags('taxonomy')
+@ApiErrorResponses(HttpStatus.BAD_REQUEST)
+@Controller('taxonomy')
+export class TaxonomyController {
+  constructor(private readonly taxonomyService: TaxonomyService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'Categories, subjects and selections with display names',
+  })
+  @ApiOkResponse({ type: TaxonomyResponseDto })
+  getTaxonomy(@Query() query: TaxonomyQueryDto): TaxonomyResponseDto {
+    return {
+      success: true,
+      data: this.taxonomyService.getTaxonomy(query.curriculum),
+    };
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { TaxonomyController } from './taxonomy.controller';
+import { TaxonomyService } from './taxonomy.service';
+
+@Module({
+  controllers: [TaxonomyController],
+  providers: [TaxonomyService],
+  exports: [TaxonomyService],
+})
+export class TaxonomyModule {}
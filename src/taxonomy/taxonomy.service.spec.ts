@@ -0,0 +1,48 @@
+import { CATEGORIES } from '../naming/naming-convention';
+import { compactText } from '../documents/search-query';
+import { TAXONOMY } from './taxonomy';
+import { TaxonomyService } from './taxonomy.service';
+
+describe('TAXONOMY', () => {
+  const subjects = TAXONOMY.flatMap((category) => category.subjects);
+
+  it('has an entry for every naming-convention category, in order', () => {
+    expect(TAXONOMY.map((category) => category.name)).toEqual(CATEGORIES);
+  });
+
+  it('gives every subject a single category', () => {
+    const names = subjects.map((subject) => subject.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+
+  it('stores aliases in compact form, each pointing at one subject', () => {
+    const aliases = subjects.flatMap((subject) => subject.aliases);
+    expect(new Set(aliases).size).toBe(aliases.length);
+    for (const alias of aliases) {
+      expect(compactText(alias)).toBe(alias);
+    }
+  });
+});
+
+describe('TaxonomyService.getTaxonomy', () => {
+  const service = new TaxonomyService();
+
+  it('keeps only the nodes of the requested curriculum', () => {
+    const taxonomy = service.getTaxonomy('2022');
+    const science = taxonomy.find((category) => category.name === '과학탐구');
+    const math = taxonomy.find((category) => category.name === '수학');
+
+    expect(science?.subjects.map((subject) => subject.name)).toEqual([
+      '통합과학',
+    ]);
+    expect(math?.subjects[0].selections).toEqual([]);
+    expect(service.getTaxonomy('2015')[4].subjects[0]).toMatchObject({
+      name: '생활과 윤리',
+      sort_order: 1,
+    });
+  });
+
+  it('returns the whole tree without a curriculum', () => {
+    expect(service.getTaxonomy()).toBe(TAXONOMY);
+  });
+});
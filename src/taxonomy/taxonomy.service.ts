@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import {
+  Curriculum,
+  TAXONOMY,
+  TaxonomyCategory,
+  TaxonomySubject,
+} from './taxonomy';
+
+/**
+ * Serves the category → subject → selection tree. The tree is static, so
+ * clients can cache it instead of hard-coding the lists.
+ */
+@Injectable()
+export class TaxonomyService {
+  /** The whole tree, or only the nodes taught under one curriculum */
+  getTaxonomy(curriculum?: Curriculum): TaxonomyCategory[] {
+    if (!curriculum) return TAXONOMY;
+
+    const inCurriculum = (node: { curricula: Curriculum[] }) =>
+      node.curricula.includes(curriculum);
+    return TAXONOMY.filter(inCurriculum).map((category) => ({
+      ...category,
+      subjects: category.subjects.filter(inCurriculum).map(
+        (subject): TaxonomySubject => ({
+          ...subject,
+          selections: subject.selections.filter(inCurriculum),
+        }),
+      ),
+    }));
+  }
+}
@@ -0,0 +1,253 @@
+import type { Category } from '../naming/naming-convention';
+
+/** 교육과정 개정 a subject belongs to: 2015 개정 or 2022 개정 */
+export const CURRICULA = ['2015', '2022'] as const;
+export type Curriculum = (typeof CURRICULA)[number];
+
+interface TaxonomyNode {
+  /** Value stored in the documents table and used in filenames */
+  name: string;
+  /** Name to show, e.g. 물리학Ⅰ with a Roman numeral character */
+  display_name: string;
+  /** Position among its siblings, starting at 1 */
+  sort_order: number;
+  curricula: Curriculum[];
+  /**
+   * Other spellings students type or source filenames use, in compact
+   * form (no spaces or punctuation, Arabic numerals; see compactText)
+   */
+  aliases: string[];
+}
+
+/** 선택과목 of a subject, e.g. 미적분 of 수학 */
+export type TaxonomySelection = TaxonomyNode;
+
+export interface TaxonomySubject extends TaxonomyNode {
+  selections: TaxonomySelection[];
+}
+
+export interface TaxonomyCategory extends TaxonomyNode {
+  name: Category;
+  subjects: TaxonomySubject[];
+}
+
+type NodeDefinition = Partial<Omit<TaxonomyNode, 'sort_order'>> & {
+  name: string;
+};
+
+type SubjectDefinition = NodeDefinition & { selections?: NodeDefinition[] };
+
+type CategoryDefinition = NodeDefinition & {
+  name: Category;
+  subjects: SubjectDefinition[];
+};
+
+const ONLY_2015: Curriculum[] = ['2015'];
+const ONLY_2022: Curriculum[] = ['2022'];
+
+/** 제2외국어/한문 subjects; 2022 개정 drops the Ⅰ */
+const LANGUAGES = [
+  '독일어',
+  '프랑스어',
+  '스페인어',
+  '중국어',
+  '일본어',
+  '러시아어',
+  '아랍어',
+  '베트남어',
+  '한문',
+];
+
+/**
+ * The subjects of each 수능 영역, in the order of the official subject
+ * lists. Names match script/data/naming_convention.md.
+ */
+const CATEGORY_DEFINITIONS: CategoryDefinition[] = [
+  {
+    name: '국어',
+    display_name: '국어 영역',
+    subjects: [
+      {
+        name: '국어',
+        selections: [
+          {
+            name: '화법과 작문',
+            curricula: ONLY_2015,
+            aliases: ['화법과작문', '화작'],
+          },
+          {
+            name: '언어와 매체',
+            curricula: ONLY_2015,
+            aliases: ['언어와매체', '언매'],
+          },
+        ],
+      },
+    ],
+  },
+  {
+    name: '수학',
+    display_name: '수학 영역',
+    subjects: [
+      {
+        name: '수학',
+        selections: [
+          {
+            name: '확률과 통계',
+            curricula: ONLY_2015,
+            aliases: ['확률과통계', '확통'],
+          },
+          { name: '미적분', curricula: ONLY_2015, aliases: ['미적'] },
+          { name: '기하', curricula: ONLY_2015 },
+        ],
+      },
+    ],
+  },
+  {
+    name: '영어',
+    display_name: '영어 영역',
+    subjects: [{ name: '영어' }],
+  },
+  {
+    name: '한국사',
+    display_name: '한국사 영역',
+    subjects: [{ name: '한국사', aliases: ['국사'] }],
+  },
+  {
+    name: '사회탐구',
+    display_name: '사회탐구 영역',
+    aliases: ['사탐'],
+    subjects: [
+      {
+        name: '생활과 윤리',
+        curricula: ONLY_2015,
+        aliases: ['생활과윤리', '생윤'],
+      },
+      {
+        name: '윤리와 사상',
+        curricula: ONLY_2015,
+        aliases: ['윤리와사상', '윤사'],
+      },
+      { name: '한국지리', curricula: ONLY_2015, aliases: ['한지'] },
+      { name: '세계지리', curricula: ONLY_2015, aliases: ['세지'] },
+      { name: '동아시아사', curricula: ONLY_2015, aliases: ['동사', '동아사'] },
+      { name: '세계사', curricula: ONLY_2015 },
+      { name: '경제', curricula: ONLY_2015 },
+      {
+        name: '정치와 법',
+        curricula: ONLY_2015,
+        aliases: ['정치와법', '정법'],
+      },
+      {
+        name: '사회·문화',
+        curricula: ONLY_2015,
+        aliases: ['사회문화', '사문'],
+      },
+      { name: '통합사회', curricula: ONLY_2022, aliases: ['통사'] },
+    ],
+  },
+  {
+    name: '과학탐구',
+    display_name: '과학탐구 영역',
+    aliases: ['과탐'],
+    subjects: [
+      ...[
+        ['물리학', '물리', '물'],
+        ['화학', '화'],
+        ['생명과학', '생명', '생'],
+        ['지구과학', '지구', '지'],
+      ].flatMap(([subject, ...short]) =>
+        [1, 2].map(
+          (level): SubjectDefinition => ({
+            name: `${subject} ${'I'.repeat(level)}`,
+            display_name: `${subject}${level === 1 ? 'Ⅰ' : 'Ⅱ'}`,
+            curricula: ONLY_2015,
+            aliases: [subject, ...short].map((prefix) => `${prefix}${level}`),
+          }),
+        ),
+      ),
+      { name: '통합과학', curricula: ONLY_2022, aliases: ['통과'] },
+    ],
+  },
+  {
+    name: '직업탐구',
+    display_name: '직업탐구 영역',
+    aliases: ['직탐'],
+    subjects: [
+      { name: '성공적인 직업생활', aliases: ['성공적인직업생활', '성직'] },
+      {
+        name: '농업 기초 기술',
+        curricula: ONLY_2015,
+        aliases: ['농업기초기술'],
+      },
+      { name: '공업 일반', curricula: ONLY_2015, aliases: ['공업일반'] },
+      { name: '상업 경제', curricula: ONLY_2015, aliases: ['상업경제'] },
+      {
+        name: '수산·해운 산업 기초',
+        curricula: ONLY_2015,
+        aliases: ['수산해운산업기초'],
+      },
+      { name: '인간 발달', curricula: ONLY_2015, aliases: ['인간발달'] },
+    ],
+  },
+  {
+    name: '제2외국어',
+    display_name: '제2외국어/한문 영역',
+    aliases: ['제2외', '제2외국어한문'],
+    subjects: [
+      ...LANGUAGES.map(
+        (language): SubjectDefinition => ({
+          name: `${language} I`,
+          display_name: `${language}Ⅰ`,
+          curricula: ONLY_2015,
+          aliases: [`${language}1`],
+        }),
+      ),
+      ...LANGUAGES.map(
+        (language): SubjectDefinition => ({
+          name: language,
+          curricula: ONLY_2022,
+        }),
+      ),
+    ],
+  },
+];
+
+function toNode(definition: NodeDefinition, index: number): TaxonomyNode {
+  return {
+    name: definition.name,
+    display_name: definition.display_name ?? definition.name,
+    sort_order: index + 1,
+    curricula: definition.curricula ?? [...CURRICULA],
+    aliases: definition.aliases ?? [],
+  };
+}
+
+/** Category → subject → selection tree, siblings in sort_order */
+export const TAXONOMY: TaxonomyCategory[] = CATEGORY_DEFINITIONS.map(
+  (category, index) => ({
+    ...toNode(category, index),
+    name: category.name,
+    subjects: category.subjects.map((subject, subjectIndex) => ({
+      ...toNode(subject, subjectIndex),
+      selections: (subject.selections ?? []).map(toNode),
+    })),
+  }),
+);
+
+export function findCategory(name: string): TaxonomyCategory | undefined {
+  return TAXONOMY.find((category) => category.name === name);
+}
+
+/** The category a subject belongs to, or undefined for unknown subjects */
+export function categoryOfSubject(subject: string): Category | undefined {
+  return TAXONOMY.find((category) =>
+    category.subjects.some((candidate) => candidate.name === subject),
+  )?.name;
+}
+
+/** Names of the selections any subject of the category offers */
+export function selectionsOfCategory(category: Category): string[] {
+  return (findCategory(category)?.subjects ?? []).flatMap((subject) =>
+    subject.selections.map((selection) => selection.name),
+  );
+}
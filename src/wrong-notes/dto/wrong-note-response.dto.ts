@@ -0,0 +1,121 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ApiSuccessDto } from '../../common/dto/api-response.dto';
+import type {
+  RetryDocument,
+  RetrySet,
+  WrongNote,
+  WrongNoteStatus,
+} from '../wrong-notes.service';
+
+const WRONG_NOTE_STATUSES: WrongNoteStatus[] = ['incorrect', 'unanswered'];
+
+export class WrongNoteDto implements WrongNote {
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @ApiProperty({ format: 'uuid' })
+  user_id: string;
+
+  @ApiProperty({ format: 'uuid' })
+  document_id: string;
+
+  @ApiProperty({ type: 'integer' })
+  question: number;
+
+  @ApiProperty({
+    format: 'uuid',
+    description: 'Submission the question was most recently missed in',
+  })
+  submission_id: string;
+
+  @ApiProperty({ enum: WRONG_NOTE_STATUSES })
+  status: WrongNoteStatus;
+
+  @ApiProperty({ type: String, nullable: true, example: '3' })
+  user_answer: string | null;
+
+  @ApiProperty({ type: [String], example: ['5'] })
+  correct_answers: string[];
+
+  @ApiProperty()
+  document_title: string;
+
+  @ApiProperty({ example: '물리학 I' })
+  subject: string;
+
+  @ApiProperty({ example: '과학탐구' })
+  category: string;
+
+  @ApiProperty({ type: String, nullable: true })
+  note: string | null;
+
+  @ApiProperty({ type: [String] })
+  tags: string[];
+
+  @ApiProperty()
+  mastered: boolean;
+
+  @ApiProperty({ type: String, format: 'date-time', nullable: true })
+  mastered_at: string | null;
+
+  @ApiProperty({
+    type: 'integer',
+    description: 'Submissions that missed this question',
+  })
+  wrong_count: number;
+
+  @ApiProperty({ format: 'date-time' })
+  created_at: string;
+
+  @ApiProperty({ format: 'date-time' })
+  updated_at: string;
+}
+
+export class WrongNoteResponseDto extends ApiSuccessDto {
+  @ApiProperty()
+  data: WrongNoteDto;
+}
+
+export class WrongNoteListResponseDto extends ApiSuccessDto {
+  @ApiProperty({ type: [WrongNoteDto] })
+  data: WrongNoteDto[];
+
+  @ApiProperty({ type: 'integer' })
+  count: number;
+
+  @ApiProperty({ type: 'integer' })
+  total: number;
+
+  @ApiProperty({ type: String, nullable: true })
+  nextCursor: string | null;
+}
+
+export class RetryDocumentDto implements RetryDocument {
+  @ApiProperty({ format: 'uuid' })
+  document_id: string;
+
+  @ApiProperty()
+  document_title: string;
+
+  @ApiProperty({ type: 'integer', isArray: true })
+  questions: number[];
+}
+
+export class RetrySetDto implements RetrySet {
+  @ApiProperty({ format: 'uuid' })
+  user_id: string;
+
+  @ApiProperty({
+    type: [WrongNoteDto],
+    description: 'Most often missed first, then longest ago',
+  })
+  items: WrongNoteDto[];
+
+  @ApiProperty({ type: [RetryDocumentDto] })
+  documents: RetryDocumentDto[];
+}
+
+export class RetrySetResponseDto extends ApiSuccessDto {
+  @ApiProperty()
+  data: RetrySetDto;
+}
@@ -0,0 +1,125 @@
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ListQueryDto } from '../../common/dto/list-query.dto';
+import { ToBoolean, ToList } from '../../common/dto/query-transforms';
+import { CATEGORIES } from '../../naming/naming-convention';
+import type { Category } from '../../naming/naming-convention';
+import {
+  DEFAULT_RETRY_SET_SIZE,
+  MAX_RETRY_SET_SIZE,
+} from '../wrong-notes.service';
+import type { WrongNoteFilters } from '../wrong-notes.service';
+
+/**
+ * Filters of GET /wrong-notes, which only lists the signed-in user's items;
+ * `sort` accepts updated_at, created_at and wrong_count. List filters are
+ * comma-separated or repeated.
+ */
+export class WrongNotesQueryDto
+  extends ListQueryDto
+  implements Omit<WrongNoteFilters, 'user_id'>
+{
+  @ApiPropertyOptional({ format: 'uuid' })
+  @IsOptional()
+  @IsUUID()
+  document_id?: string;
+
+  @ApiPropertyOptional({ type: [String], example: ['물리학 I', '화학 I'] })
+  @IsOptional()
+  @ToList()
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
+  subjects?: string[];
+
+  @ApiPropertyOptional({ enum: CATEGORIES, isArray: true })
+  @IsOptional()
+  @ToList()
+  @IsIn(CATEGORIES, { each: true })
+  categories?: Category[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Items with any of these tags',
+  })
+  @IsOptional()
+  @ToList()
+  @IsString({ each: true })
+  @MaxLength(30, { each: true })
+  tags?: string[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @ToBoolean()
+  @IsBoolean()
+  mastered?: boolean;
+}
+
+/** Filters of GET /wrong-notes/retry-set; only unmastered items are used */
+export class RetrySetQueryDto extends OmitType(WrongNotesQueryDto, [
+  'mastered',
+  'limit',
+  'cursor',
+  'page',
+  'pageSize',
+  'sort',
+] as const) {
+  @ApiPropertyOptional({
+    type: 'integer',
+    minimum: 1,
+    maximum: MAX_RETRY_SET_SIZE,
+    default: DEFAULT_RETRY_SET_SIZE,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_RETRY_SET_SIZE)
+  size?: number;
+}
+
+export class WrongNoteIdParamDto {
+  @ApiProperty({ format: 'uuid' })
+  @IsUUID()
+  id: string;
+}
+
+export class UpdateWrongNoteDto {
+  @ApiPropertyOptional({
+    type: String,
+    nullable: true,
+    maxLength: 2000,
+    description: 'Free-form note; null clears it',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string | null;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'Replaces the tags of the item',
+    example: ['계산 실수', '개념 부족'],
+  })
+  @IsOptional()
+  @IsString({ each: true })
+  @MaxLength(30, { each: true })
+  @ArrayMaxSize(20)
+  tags?: string[];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsBoolean()
+  mastered?: boolean;
+}
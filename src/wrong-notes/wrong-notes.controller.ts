@@ -0,0 +1,129 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpStatus,
+  Param,
+  Patch,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOkResponse,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import {
+  DEFAULT_WRONG_NOTE_SORT,
+  WRONG_NOTE_SORT_FIELDS,
+  WrongNotesService,
+} from './wrong-notes.service';
+import {
+  RetrySetQueryDto,
+  UpdateWrongNoteDto,
+  WrongNoteIdParamDto,
+  WrongNotesQueryDto,
+} from './dto/wrong-notes-query.dto';
+import {
+  RetrySetResponseDto,
+  WrongNoteListResponseDto,
+  WrongNoteResponseDto,
+} from './dto/wrong-note-response.dto';
+import { ApiErrorResponses } from '../common/api-error-responses';
+import { parseListQuery } from '../common/pagination';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { CurrentUser } from '../auth/current-user.decorator';
+import type { AuthUser } from '../auth/supabase-jwt';
+
+@ApiTags('wrong-notes')
+@ApiBearerAuth()
+@ApiErrorResponses(
+  HttpStatus.BAD_REQUEST,
+  HttpStatus.UNAUTHORIZED,
+  HttpStatus.SERVICE_UNAVAILABLE,
+)
+@UseGuards(JwtAuthGuard)
+@Controller('wrong-notes')
+export class WrongNotesController {
+  constructor(private readonly wrongNotesService: WrongNotesService) {}
+
+  @Get()
+  @ApiOperation({ summary: "List the signed-in user's 오답노트 items" })
+  @ApiOkResponse({ type: WrongNoteListResponseDto })
+  async getWrongNotes(
+    @Query() query: WrongNotesQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<WrongNoteListResponseDto> {
+    const page = await this.wrongNotesService.listWrongNotes(
+      {
+        user_id: user.id,
+        document_id: query.document_id,
+        subjects: query.subjects,
+        categories: query.categories,
+        tags: query.tags,
+        mastered: query.mastered,
+      },
+      parseListQuery(query, WRONG_NOTE_SORT_FIELDS, DEFAULT_WRONG_NOTE_SORT),
+    );
+    return {
+      success: true,
+      data: page.data,
+      count: page.data.length,
+      total: page.total,
+      nextCursor: page.nextCursor,
+    };
+  }
+
+  @Get('retry-set')
+  @ApiOperation({ summary: 'Build a retry set from unmastered items' })
+  @ApiOkResponse({ type: RetrySetResponseDto })
+  async getRetrySet(
+    @Query() query: RetrySetQueryDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<RetrySetResponseDto> {
+    const retrySet = await this.wrongNotesService.buildRetrySet(
+      {
+        user_id: user.id,
+        document_id: query.document_id,
+        subjects: query.subjects,
+        categories: query.categories,
+        tags: query.tags,
+      },
+      query.size,
+    );
+    return { success: true, data: retrySet };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a 오답노트 item' })
+  @ApiOkResponse({ type: WrongNoteResponseDto })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND)
+  async getWrongNoteById(
+    @Param() { id }: WrongNoteIdParamDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<WrongNoteResponseDto> {
+    const wrongNote = await this.wrongNotesService.getWrongNoteById(
+      id,
+      user.id,
+    );
+    return { success: true, data: wrongNote };
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Edit the note, tags or mastered state of an item' })
+  @ApiOkResponse({ type: WrongNoteResponseDto })
+  @ApiErrorResponses(HttpStatus.NOT_FOUND)
+  async updateWrongNote(
+    @Param() { id }: WrongNoteIdParamDto,
+    @Body() body: UpdateWrongNoteDto,
+    @CurrentUser() user: AuthUser,
+  ): Promise<WrongNoteResponseDto> {
+    const wrongNote = await this.wrongNotesService.updateWrongNote(
+      id,
+      user.id,
+      body,
+    );
+    return { success: true, data: wrongNote };
+  }
+}
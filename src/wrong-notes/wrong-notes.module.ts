@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { SubmissionsModule } from '../submissions/submissions.module';
+import { WrongNotesController } from './wrong-notes.controller';
+import { WrongNotesService } from './wrong-notes.service';
+
+@Module({
+  imports: [SubmissionsModule],
+  controllers: [WrongNotesController],
+  providers: [WrongNotesService],
+})
+export class WrongNotesModule {}
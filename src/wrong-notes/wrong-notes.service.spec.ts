@@ -0,0 +1,127 @@
+import type {
+  GradedSubmission,
+  SubmissionsService,
+} from '../submissions/submissions.service';
+import { SupabaseService } from '../supabase/supabase.service';
+import { UpstreamUnavailableError } from '../common/errors';
+import { normalizeTags, WrongNotesService } from './wrong-notes.service';
+
+/**
+ * Supabase stub: `single()` resolves to the document and
+ * record_wrong_notes to `result`; rpc calls are collected in `calls`.
+ */
+function stubSupabase(
+  result: { data: unknown; error: unknown } = { data: [], error: null },
+) {
+  const calls: [string, unknown][] = [];
+  const builder: Record<string, unknown> = {};
+  for (const method of ['from', 'select', 'eq']) {
+    builder[method] = () => builder;
+  }
+  builder.single = () =>
+    Promise.resolve({
+      data: {
+        title: '2024 수능 물리학 I',
+        subject: '물리학 I',
+        category: '과학탐구',
+      },
+      error: null,
+    });
+  builder.rpc = (name: string, args: unknown) => {
+    calls.push([name, args]);
+    return builder;
+  };
+  builder.overrideTypes = () => Promise.resolve(result);
+  const supabase = {
+    getClient: () => builder,
+    getAdminClient: () => builder,
+  } as unknown as SupabaseService;
+  return { supabase, calls };
+}
+
+const submission = {
+  id: 'submission-2',
+  user_id: 'user',
+  document_id: 'doc',
+  results: [
+    {
+      question: 1,
+      status: 'correct',
+      user_answer: '3',
+      correct_answers: ['3'],
+    },
+    {
+      question: 2,
+      status: 'incorrect',
+      user_answer: '1',
+      correct_answers: ['4'],
+    },
+    {
+      question: 3,
+      status: 'unanswered',
+      user_answer: null,
+      correct_answers: ['2'],
+    },
+  ],
+} as unknown as GradedSubmission;
+
+describe('WrongNotesService.recordSubmission', () => {
+  it('records the missed questions in one record_wrong_notes call', async () => {
+    const stored = [{ id: 'note-3', question: 3, wrong_count: 2 }];
+    const { supabase, calls } = stubSupabase({ data: stored, error: null });
+    const service = new WrongNotesService(supabase, {} as SubmissionsService);
+
+    await expect(service.recordSubmission(submission)).resolves.toEqual(stored);
+    expect(calls).toEqual([
+      [
+        'record_wrong_notes',
+        {
+          misses: [
+            {
+              user_id: 'user',
+              document_id: 'doc',
+              question: 2,
+              submission_id: 'submission-2',
+              status: 'incorrect',
+              user_answer: '1',
+              correct_answers: ['4'],
+              document_title: '2024 수능 물리학 I',
+              subject: '물리학 I',
+              category: '과학탐구',
+            },
+            expect.objectContaining({ question: 3, status: 'unanswered' }),
+          ],
+        },
+      ],
+    ]);
+  });
+
+  it('reports a failed write instead of dropping the notes', async () => {
+    const { supabase } = stubSupabase({
+      data: null,
+      error: { code: '08006', message: 'connection failure' },
+    });
+    const service = new WrongNotesService(supabase, {} as SubmissionsService);
+
+    await expect(service.recordSubmission(submission)).rejects.toThrow(
+      UpstreamUnavailableError,
+    );
+  });
+
+  it('does nothing for a perfect submission', async () => {
+    const { supabase, calls } = stubSupabase();
+    const service = new WrongNotesService(supabase, {} as SubmissionsService);
+    const perfect = { ...submission, results: submission.results.slice(0, 1) };
+
+    await expect(service.recordSubmission(perfect)).resolves.toEqual([]);
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('normalizeTags', () => {
+  it('trims, NFC-normalizes and drops empty or duplicate tags', () => {
+    expect(
+      normalizeTags([' 계산 실수 ', '계산 실수'.normalize('NFD'), '', '개념']),
+    ).toEqual(['계산 실수', '개념']);
+  });
+});
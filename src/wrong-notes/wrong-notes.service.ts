@@ -0,0 +1,330 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { SupabaseService } from '../supabase/supabase.service';
+import { fromPostgrestError } from '../supabase/postgrest-error';
+import {
+  ListOptions,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../common/pagination';
+import {
+  GradedSubmission,
+  SubmissionsService,
+} from '../submissions/submissions.service';
+
+export type WrongNoteStatus = 'incorrect' | 'unanswered';
+
+/** A row of wrong_notes: one missed question of one user (오답노트 item) */
+export interface WrongNote {
+  id: string;
+  user_id: string;
+  document_id: string;
+  question: number;
+  /** Submission the question was most recently missed in */
+  submission_id: string;
+  status: WrongNoteStatus;
+  /** Normalized answer given, null when unanswered */
+  user_answer: string | null;
+  correct_answers: string[];
+  document_title: string;
+  subject: string;
+  category: string;
+  note: string | null;
+  tags: string[];
+  mastered: boolean;
+  mastered_at: string | null;
+  /** How many submissions missed this question */
+  wrong_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WrongNoteFilters {
+  user_id: string;
+  document_id?: string;
+  subjects?: string[];
+  categories?: string[];
+  /** Items with any of these tags */
+  tags?: string[];
+  mastered?: boolean;
+}
+
+export interface WrongNoteUpdate {
+  note?: string | null;
+  tags?: string[];
+  mastered?: boolean;
+}
+
+export const WRONG_NOTE_SORT_FIELDS = [
+  'updated_at',
+  'created_at',
+  'wrong_count',
+] as const;
+
+export type WrongNoteSortField = (typeof WRONG_NOTE_SORT_FIELDS)[number];
+
+export const DEFAULT_WRONG_NOTE_SORT = {
+  sort: 'updated_at' as WrongNoteSortField,
+  order: 'desc' as const,
+};
+
+/** Questions of one document in a retry set */
+export interface RetryDocument {
+  document_id: string;
+  document_title: string;
+  questions: number[];
+}
+
+export interface RetrySet {
+  user_id: string;
+  items: WrongNote[];
+  documents: RetryDocument[];
+}
+
+export const DEFAULT_RETRY_SET_SIZE = 20;
+export const MAX_RETRY_SET_SIZE = 100;
+
+type DocumentInfo = { title: string; subject: string; category: string };
+
+/**
+ * What a submission contributes to an item. record_wrong_notes inserts new
+ * items and, for existing ones, replaces these fields, bumps wrong_count
+ * and clears `mastered` while keeping the note and tags.
+ */
+type RecordedMiss = Pick<
+  WrongNote,
+  | 'user_id'
+  | 'document_id'
+  | 'question'
+  | 'submission_id'
+  | 'status'
+  | 'user_answer'
+  | 'correct_answers'
+  | 'document_title'
+  | 'subject'
+  | 'category'
+>;
+
+/** Trimmed, NFC-normalized tags without duplicates */
+export function normalizeTags(tags: string[]): string[] {
+  return [
+    ...new Set(
+      tags
+        .map((tag) => tag.trim().normalize('NFC'))
+        .filter((tag) => tag.length > 0),
+    ),
+  ];
+}
+
+/**
+ * 오답노트: every question a user missed, recorded automatically when a
+ * graded submission is stored. Missing a question again bumps its
+ * wrong_count and clears `mastered`; notes and tags are kept.
+ */
+@Injectable()
+export class WrongNotesService implements OnModuleInit {
+  constructor(
+    private readonly supabaseService: SupabaseService,
+    private readonly submissionsService: SubmissionsService,
+  ) {}
+
+  onModuleInit() {
+    // Awaited before the submission response, so failures are reported
+    this.submissionsService.onSubmissionCreated(async (submission) => {
+      await this.recordSubmission(submission);
+    });
+  }
+
+  private async getDocumentInfo(documentId: string): Promise<DocumentInfo> {
+    const { data, error } = await this.supabaseService
+      .getClient()
+      .from('documents')
+      .select('title, subject, category')
+      .eq('id', documentId)
+      .single<DocumentInfo>();
+
+    if (error) {
+      throw fromPostgrestError(
+        error,
+        'Failed to fetch document',
+        `Document ${documentId} not found`,
+      );
+    }
+    return data;
+  }
+
+  /** Add or update an item for each question the submission missed */
+  async recordSubmission(submission: GradedSubmission): Promise<WrongNote[]> {
+    const missed = submission.results.filter(
+      (result) => result.status !== 'correct',
+    );
+    if (missed.length === 0) return [];
+
+    const document = await this.getDocumentInfo(submission.document_id);
+    const misses = missed.map(
+      (result): RecordedMiss => ({
+        user_id: submission.user_id,
+        document_id: submission.document_id,
+        question: result.question,
+        submission_id: submission.id,
+        status: result.status as WrongNoteStatus,
+        user_answer: result.user_answer,
+        correct_answers: result.correct_answers,
+        document_title: document.title,
+        subject: document.subject,
+        category: document.category,
+      }),
+    );
+
+    // One statement, so concurrent submissions cannot lose an increment
+    const { data, error } = await this.supabaseService
+      .getAdminClient()
+      .rpc('record_wrong_notes', { misses })
+      .select()
+      .overrideTypes<WrongNote[], { merge: false }>();
+
+    if (error) {
+      throw fromPostgrestError(
+        error,
+        `Submission ${submission.id} was saved but its wrong notes were not recorded`,
+      );
+    }
+    return data;
+  }
+
+  async listWrongNotes(
+    filters: WrongNoteFilters,
+    options: ListOptions<WrongNoteSortField>,
+  ): Promise<PaginatedResult<WrongNote>> {
+    let query = this.supabaseService
+      .getAdminClient()
+      .from('wrong_notes')
+      .select('*', { count: 'exact' })
+      .eq('user_id', filters.user_id);
+
+    if (filters.document_id) {
+      query = query.eq('document_id', filters.document_id);
+    }
+    if (filters.subjects && filters.subjects.length > 0) {
+      query = query.in('subject', filters.subjects);
+    }
+    if (filters.categories && filters.categories.length > 0) {
+      query = query.in('category', filters.categories);
+    }
+    if (filters.tags && filters.tags.length > 0) {
+      query = query.overlaps('tags', normalizeTags(filters.tags));
+    }
+    if (filters.mastered !== undefined) {
+      query = query.eq('mastered', filters.mastered);
+    }
+
+    const { data, error, count } = await query
+      .order(options.sort, { ascending: options.order === 'asc' })
+      .order('id', { ascending: true })
+      .range(options.offset, options.offset + options.limit - 1)
+      .overrideTypes<WrongNote[], { merge: false }>();
+
+    if (error) {
+      throw fromPostgrestError(error, 'Failed to fetch wrong notes');
+    }
+
+    return toPaginatedResult(data ?? [], count ?? 0, options);
+  }
+
+  /** Throws NotFoundError when the user has no item with this id */
+  async getWrongNoteById(id: string, userId: string): Promise<WrongNote> {
+    const { data, error } = await this.supabaseService
+      .getAdminClient()
+      .from('wrong_notes')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single<WrongNote>();
+
+    if (error) {
+      throw fromPostgrestError(
+        error,
+        'Failed to fetch wrong note',
+        `Wrong note ${id} not found`,
+      );
+    }
+    return data;
+  }
+
+  /** Change the note, tags or mastered state; other fields are fixed */
+  async updateWrongNote(
+    id: string,
+    userId: string,
+    update: WrongNoteUpdate,
+  ): Promise<WrongNote> {
+    const changes: Partial<WrongNote> = {
+      updated_at: new Date().toISOString(),
+    };
+    if (update.note !== undefined) {
+      changes.note = update.note;
+    }
+    if (update.tags !== undefined) {
+      changes.tags = normalizeTags(update.tags);
+    }
+    if (update.mastered !== undefined) {
+      changes.mastered = update.mastered;
+      changes.mastered_at = update.mastered ? changes.updated_at : null;
+    }
+
+    const { data, error } = await this.supabaseService
+      .getAdminClient()
+      .from('wrong_notes')
+      .update(changes)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .single<WrongNote>();
+
+    if (error) {
+      throw fromPostgrestError(
+        error,
+        'Failed to update wrong note',
+        `Wrong note ${id} not found`,
+      );
+    }
+    return data;
+  }
+
+  /**
+   * Unmastered items to solve again: the most often missed first, then
+   * those missed longest ago, grouped by document for the client.
+   */
+  async buildRetrySet(
+    filters: Omit<WrongNoteFilters, 'mastered'>,
+    size = DEFAULT_RETRY_SET_SIZE,
+  ): Promise<RetrySet> {
+    const page = await this.listWrongNotes(
+      { ...filters, mastered: false },
+      { sort: 'wrong_count', order: 'desc', limit: size, offset: 0 },
+    );
+    const items = [...page.data].sort(
+      (a, b) =>
+        b.wrong_count - a.wrong_count ||
+        a.updated_at.localeCompare(b.updated_at),
+    );
+
+    const documents = new Map<string, RetryDocument>();
+    for (const item of items) {
+      const entry = documents.get(item.document_id) ?? {
+        document_id: item.document_id,
+        document_title: item.document_title,
+        questions: [],
+      };
+      entry.questions.push(item.question);
+      documents.set(item.document_id, entry);
+    }
+    for (const entry of documents.values()) {
+      entry.questions.sort((a, b) => a - b);
+    }
+
+    return {
+      user_id: filters.user_id,
+      items,
+      documents: [...documents.values()],
+    };
+  }
+}